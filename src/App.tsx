@@ -1,9 +1,54 @@
-import { useState, useCallback, useMemo } from 'react';
-import { MapCanvas } from './components/MapCanvas';
-import { generateMap } from './utils/mapGenerator';
-import { Territory, MapConfig, TerrainType } from './types/Territory';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { MapCanvas, MapMode } from './components/MapCanvas';
+import { MapLibrary } from './components/MapLibrary';
+import { HistoryPanel } from './components/HistoryPanel';
+import { TerritoryEditor } from './components/TerritoryEditor';
+import { TerritoryTree } from './components/TerritoryTree';
+import { generateWorld, GENERATOR_VERSION } from './utils/mapGenerator';
+import { isWaterTerrain } from './utils/metadataGenerator';
+import { summarizeCultureRegions } from './utils/cultureGenerator';
+import { DEFAULT_HISTORY, generateHistory, realmsAtYear, territoriesAtYear } from './utils/historyGenerator';
+import { generateDiplomacy } from './utils/diplomacyGenerator';
+import { generateTradeRoutes } from './utils/tradeGenerator';
+import { COLOR_RAMPS, getMapMode, listMapModes } from './utils/mapModes';
+import { compileQuery, QuerySyntaxError } from './utils/territoryQuery';
+import { renderMapSvg } from './utils/svgRenderer';
+import { blobToDataUrl, downloadBlob, rasterizeSvg, readImageMask } from './utils/imageExport';
+import { exportTerritoriesCsv, exportTerritoriesGeoJson } from './utils/dataExport';
+import { createRecipe, mapFromRecipe, readRecipeHash, recipeHash } from './utils/mapRecipe';
+import {
+  deleteLibraryEntry,
+  deletePreset,
+  duplicateLibraryEntry,
+  listLibrary,
+  listPresets,
+  loadLibraryEntry,
+  renameLibraryEntry,
+  savePreset,
+  saveToLibrary
+} from './utils/mapLibrary';
+import {
+  applyCommand,
+  createCommandHistory,
+  editTerritoriesCommand,
+  editTerritoryCommand,
+  executeCommand,
+  jumpTo,
+  redo,
+  replaceMapCommand,
+  undo
+} from './utils/commandHistory';
+import { createMapDocument, documentToMap, MapDocumentError, parseMapDocument } from './utils/mapDocument';
+import { GeometryEditError, mergeTerritories, moveTerritorySite, splitTerritory } from './utils/geometryEditor';
+import { getOutsideColor, MapShapeError, parseOutline } from './utils/mapShape';
+import { MAX_SUBDIVISIONS, reconcileSubdivisions } from './utils/subdivisionGenerator';
+import { MapConfig, TerrainType, GeneratedMap, ClimateConfig, Territory, MapShape, SubdivisionConfig } from './types/Territory';
+import { LibraryEntry } from './types/Library';
+import { MapHistoryState, TerritoryChanges } from './types/Command';
 import './App.css';
 
+type ExportFormat = 'json' | 'csv' | 'geojson' | 'svg' | 'png';
+
 /**
  * Main application component
  * @component
@@ -23,13 +68,66 @@ function App() {
     seed: Date.now()
   });
 
-  const [territories, setTerritories] = useState<Territory[]>(() =>
-    generateMap(config)
-  );
+  // The map and the undoable commands that produced it
+  const [mapState, setMapState] = useState<MapHistoryState>(() => ({
+    map: generateWorld(config),
+    history: createCommandHistory()
+  }));
+  const { map } = mapState;
+  const { rivers, roads, subdivisions } = map;
+  const outsideColor = getOutsideColor(map.config.shape);
 
   const [territoryCount, setTerritoryCount] = useState(20);
   const [seedInput, setSeedInput] = useState<string>('');
   const [useSeed, setUseSeed] = useState(false);
+  const [climateBand, setClimateBand] = useState<ClimateConfig['band']>('northern');
+  const [seaLevel, setSeaLevel] = useState(0.3);
+  const [shapeKind, setShapeKind] = useState<MapShape['kind']>('rectangle');
+  const [outside, setOutside] = useState<'sea' | 'void'>('sea');
+  // Outline or mask loaded from a file, for the polygon and mask shapes
+  const [customShape, setCustomShape] = useState<MapShape | null>(null);
+  // Provinces per territory (0: no subdivisions) and counties per province
+  const [provinceCount, setProvinceCount] = useState(0);
+  const [countyCount, setCountyCount] = useState(3);
+  const [presets, setPresets] = useState(listPresets);
+  const [presetId, setPresetId] = useState('');
+  const [libraryEntries, setLibraryEntries] = useState(listLibrary);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [mapMode, setMapMode] = useState<MapMode>('terrain');
+  const [showTrade, setShowTrade] = useState(false);
+  const [editShapes, setEditShapes] = useState(false);
+  // Map shown while a territory center is dragged; becomes an undo step on release
+  const [shapePreview, setShapePreview] = useState<GeneratedMap | null>(null);
+  const [rampName, setRampName] = useState('');
+  const [query, setQuery] = useState('');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [pngScale, setPngScale] = useState(2);
+  const [historyYears, setHistoryYears] = useState(DEFAULT_HISTORY.years);
+  const [year, setYear] = useState(DEFAULT_HISTORY.startYear!);
+  // Message about the shared link or a library map (copied, unreadable, or made by another generator version)
+  const [mapNotice, setMapNotice] = useState<string | null>(null);
+
+  // Simulated history from the generated realms; the map shows the selected year
+  const history = useMemo(
+    () => generateHistory(map.territories, map.realms, map.config.seed ?? 0, { years: historyYears }),
+    [map, historyYears]
+  );
+  const currentYear = Math.min(Math.max(year, history.startYear), history.endYear);
+  const territories = useMemo(
+    () => territoriesAtYear(map.territories, history, currentYear),
+    [map.territories, history, currentYear]
+  );
+  const realms = useMemo(() => realmsAtYear(history, currentYear), [history, currentYear]);
+  const diplomacy = useMemo(
+    () => generateDiplomacy(territories, realms, map.config.seed ?? 0, { events: history.events, year: currentYear }),
+    [territories, realms, map.config.seed, history, currentYear]
+  );
+  // Resources do not change over time, so trade follows the generated map
+  const trade = useMemo(() => generateTradeRoutes(map.territories), [map.territories]);
+  const pastEvents = useMemo(
+    () => history.events.filter(e => e.year <= currentYear).reverse(),
+    [history, currentYear]
+  );
 
   // Terrain colors for legend
   const terrainColors: Record<TerrainType, string> = {
@@ -38,9 +136,23 @@ function App() {
     [TerrainType.MOUNTAINS]: '#9e9e9e',
     [TerrainType.DESERT]: '#ffc107',
     [TerrainType.HILLS]: '#795548',
-    [TerrainType.COASTAL]: '#03a9f4'
+    [TerrainType.COASTAL]: '#d7c98f',
+    [TerrainType.TUNDRA]: '#cfd8dc',
+    [TerrainType.MARSH]: '#6b7d4f',
+    [TerrainType.STEPPE]: '#d4c97a',
+    [TerrainType.JUNGLE]: '#1b5e20',
+    [TerrainType.FARMLAND]: '#c0ca33',
+    [TerrainType.OCEAN]: '#2b5577',
+    [TerrainType.SEA]: '#3a6f9c',
+    [TerrainType.LAKE]: '#5fa8d3'
   };
 
+  // Playable (land) territories; water cells are scenery only
+  const landTerritories = useMemo(
+    () => territories.filter(t => !isWaterTerrain(t.metadata.terrain)),
+    [territories]
+  );
+
   // Calculate terrain distribution
   const terrainDistribution = useMemo(() => {
     const distribution = new Map<TerrainType, number>();
@@ -51,6 +163,267 @@ function App() {
     return distribution;
   }, [territories]);
 
+  // Territory filter: null when no query is active
+  const queryResult = useMemo(() => {
+    if (!query.trim()) return { matches: null, error: null };
+    try {
+      const matches = compileQuery(query);
+      return { matches: new Set(landTerritories.filter(matches).map(t => t.id)), error: null };
+    } catch (error) {
+      if (error instanceof QuerySyntaxError) return { matches: null, error: error.message };
+      throw error;
+    }
+  }, [query, landTerritories]);
+  const matchedIds = queryResult.matches;
+  const listedTerritories = matchedIds ? landTerritories.filter(t => matchedIds.has(t.id)) : landTerritories;
+
+  // Contiguous culture regions
+  const cultureRegions = useMemo(() => summarizeCultureRegions(territories), [territories]);
+
+  // Territories handling the most goods: trade hubs and chokepoints
+  const tradeHubs = useMemo(
+    () => landTerritories
+      .filter(t => (trade.throughput[t.id] ?? 0) > 0)
+      .sort((a, b) => trade.throughput[b.id] - trade.throughput[a.id])
+      .slice(0, 5),
+    [landTerritories, trade]
+  );
+
+  /**
+   * Swap in a new map as an undoable step
+   */
+  const replaceMap = useCallback((label: string, next: GeneratedMap) => {
+    setMapState(state => executeCommand(state, replaceMapCommand(label, state.map, next)));
+    setSelectedIds(new Set());
+  }, []);
+
+  /**
+   * Change attributes of one territory as an undoable step
+   */
+  const editTerritory = useCallback((id: string, label: string, changes: TerritoryChanges) => {
+    setMapState(state => {
+      const territory = state.map.territories.find(t => t.id === id);
+      return territory ? executeCommand(state, editTerritoryCommand(label, territory, changes)) : state;
+    });
+  }, []);
+
+  const handleUndo = useCallback(() => setMapState(undo), []);
+  const handleRedo = useCallback(() => setMapState(redo), []);
+
+  /**
+   * Undo: Ctrl/Cmd+Z. Redo: Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y
+   * Text fields keep their own undo
+   */
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  /**
+   * Click selects one territory; shift-click adds or removes it from the selection
+   */
+  const handleSelect = useCallback((id: string | null, additive: boolean) => {
+    setSelectedIds(current => {
+      if (!additive) return new Set(id ? [id] : []);
+      if (!id) return current;
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  // Selected territories as generated (before history), since edits apply to the map itself;
+  // in the order they were clicked, so a merge keeps the first one
+  const selectedTerritories = useMemo(() => {
+    const byId = new Map(map.territories.map(t => [t.id, t]));
+    return Array.from(selectedIds).flatMap(id => byId.get(id) ?? []);
+  }, [map.territories, selectedIds]);
+
+  /**
+   * Apply territory editor changes as one undo step
+   * On subdivided maps, metadata changes are spread down to provinces and counties;
+   * the step then holds both maps, so undo restores the pieces exactly
+   */
+  const handleApplyEdits = useCallback((label: string, edits: { territory: Territory; changes: TerritoryChanges }[]) => {
+    setMapState(state => {
+      const command = editTerritoriesCommand(label, edits);
+      const edited = applyCommand(state.map, command, 'forward');
+      if (!edited.subdivisions) return executeCommand(state, command);
+
+      const reconciled = reconcileSubdivisions(edited.territories, edited.subdivisions);
+      if (reconciled.subdivisions === edited.subdivisions) return executeCommand(state, command);
+      return executeCommand(state, replaceMapCommand(label, state.map, { ...edited, ...reconciled }));
+    });
+  }, []);
+
+  /**
+   * Drag a territory center: preview each position, commit on release
+   * Positions the territory cannot move to keep the last valid preview
+   * Provinces and counties are left out of the preview and cut again on release
+   */
+  const handleMoveSite = useCallback((id: string, x: number, y: number, done: boolean) => {
+    let next = shapePreview;
+    try {
+      next = moveTerritorySite({ ...map, subdivisions: undefined }, id, x, y);
+    } catch (error) {
+      if (!(error instanceof GeometryEditError)) throw error;
+    }
+    if (!done) {
+      setShapePreview(next);
+      return;
+    }
+
+    setShapePreview(null);
+    if (!next) return;
+    const name = map.territories.find(t => t.id === id)?.name ?? id;
+    const moved = next.territories.find(t => t.id === id)!;
+    try {
+      // Subdivided maps are moved again in full; cutting the provinces can still fail,
+      // and then the map stays as it was before the drag
+      replaceMap(`Moved ${name}`, map.subdivisions ? moveTerritorySite(map, id, moved.centerX, moved.centerY) : next);
+      setSelectedIds(selectedIds);
+    } catch (error) {
+      if (!(error instanceof GeometryEditError)) throw error;
+      alert(error.message);
+    }
+  }, [map, shapePreview, selectedIds, replaceMap]);
+
+  /**
+   * Run a shape edit on the map as an undoable step, reporting edits that cannot be made
+   */
+  const applyShapeEdit = useCallback((label: string, edit: () => GeneratedMap, selectId: string) => {
+    try {
+      replaceMap(label, edit());
+      setSelectedIds(new Set([selectId]));
+    } catch (error) {
+      if (!(error instanceof GeometryEditError)) throw error;
+      alert(error.message);
+    }
+  }, [replaceMap]);
+
+  const handleSplit = useCallback((parts: number) => {
+    const [territory] = selectedTerritories;
+    applyShapeEdit(`Split ${territory.name} into ${parts}`, () => splitTerritory(map, territory.id, parts), territory.id);
+  }, [map, selectedTerritories, applyShapeEdit]);
+
+  const handleMerge = useCallback(() => {
+    const [keep, absorb] = selectedTerritories;
+    applyShapeEdit(`Merged ${absorb.name} into ${keep.name}`, () => mergeTerritories(map, keep.id, absorb.id), keep.id);
+  }, [map, selectedTerritories, applyShapeEdit]);
+
+  /**
+   * Rename a territory from the list
+   */
+  const handleRename = useCallback((id: string, currentName: string) => {
+    const name = prompt('New name', currentName)?.trim();
+    if (!name || name === currentName) return;
+    editTerritory(id, `Renamed ${currentName} to ${name}`, { name });
+  }, [editTerritory]);
+
+  /**
+   * Show a configuration in the generation controls
+   */
+  const syncControls = useCallback((mapConfig: Partial<MapConfig>) => {
+    if (mapConfig.territoryCount !== undefined) setTerritoryCount(mapConfig.territoryCount);
+    setUseSeed(mapConfig.seed !== undefined);
+    setSeedInput(mapConfig.seed !== undefined ? String(mapConfig.seed) : '');
+    setClimateBand(mapConfig.climate?.band ?? 'northern');
+    setSeaLevel(mapConfig.seaLevel ?? 0.3);
+    setShapeKind(mapConfig.shape?.kind ?? 'rectangle');
+    setOutside(mapConfig.shape?.outside ?? 'sea');
+    if (mapConfig.shape?.kind === 'polygon' || mapConfig.shape?.kind === 'mask') setCustomShape(mapConfig.shape);
+    setProvinceCount(mapConfig.subdivisions?.provinces ?? 0);
+    if (mapConfig.subdivisions) setCountyCount(mapConfig.subdivisions.counties);
+  }, []);
+
+  /**
+   * Map shape from the shape controls
+   * @returns undefined for a rectangle, null when a file-based shape has no file loaded yet
+   */
+  const currentShape = useCallback((): MapShape | undefined | null => {
+    if (shapeKind === 'rectangle') return undefined;
+    if (shapeKind === 'polygon' || shapeKind === 'mask') {
+      return customShape?.kind === shapeKind ? { ...customShape, outside } : null;
+    }
+    return { kind: shapeKind, outside };
+  }, [shapeKind, outside, customShape]);
+
+  /**
+   * Load a custom outline: JSON points or GeoJSON become a polygon, images become a mask
+   */
+  const handleShapeFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      if (file.type.startsWith('image/')) {
+        setCustomShape({ kind: 'mask', rows: await readImageMask(file) });
+        setShapeKind('mask');
+      } else {
+        setCustomShape({ kind: 'polygon', points: parseOutline(JSON.parse(await file.text())) });
+        setShapeKind('polygon');
+      }
+    } catch (error) {
+      alert(`Could not load the outline: ${(error as Error).message}`);
+    }
+  }, []);
+
+  /**
+   * Load the map recipe from the URL hash, on startup and when the hash changes
+   */
+  useEffect(() => {
+    const loadFromHash = () => {
+      try {
+        const recipe = readRecipeHash(window.location.hash);
+        if (!recipe) return;
+        replaceMap('Opened shared link', mapFromRecipe(recipe));
+        syncControls(recipe.config);
+        setMapNotice(recipe.generatorVersion !== GENERATOR_VERSION
+          ? `This link was made with generator ${recipe.generatorVersion}; this is ${GENERATOR_VERSION}, so the map may differ`
+          : null);
+      } catch (error) {
+        setMapNotice(`Could not open the map link: ${(error as Error).message}`);
+      }
+    };
+
+    loadFromHash();
+    window.addEventListener('hashchange', loadFromHash);
+    return () => window.removeEventListener('hashchange', loadFromHash);
+  }, [syncControls, replaceMap]);
+
+  /**
+   * Drop a shared link that no longer describes the map on screen
+   */
+  const clearLink = useCallback(() => {
+    if (window.location.hash) window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    setMapNotice(null);
+  }, []);
+
+  // Subdivisions from the subdivision controls
+  const subdivisionConfig = useMemo<SubdivisionConfig | null>(
+    () => (provinceCount > 0 ? { provinces: provinceCount, counties: countyCount } : null),
+    [provinceCount, countyCount]
+  );
+
   /**
    * Regenerate the map with a new seed or custom seed
    */
@@ -67,32 +440,188 @@ function App() {
       setSeedInput(seed.toString());
     }
 
+    const shape = currentShape();
+    if (shape === null) {
+      alert('Load an outline file for the custom shape first');
+      return;
+    }
+
     const newConfig = {
       ...config,
       territoryCount,
-      seed
+      seed,
+      seaLevel,
+      climate: { band: climateBand },
+      ...(shape && { shape }),
+      ...(subdivisionConfig && { subdivisions: subdivisionConfig })
     };
-    setTerritories(generateMap(newConfig));
-  }, [config, territoryCount, useSeed, seedInput]);
+    try {
+      replaceMap(`Regenerated with seed ${seed}`, generateWorld(newConfig));
+      clearLink();
+    } catch (error) {
+      if (!(error instanceof MapShapeError)) throw error;
+      alert(error.message);
+    }
+  }, [config, territoryCount, useSeed, seedInput, climateBand, seaLevel, currentShape, subdivisionConfig, clearLink, replaceMap]);
+
+  /**
+   * Fill the generation controls from a preset
+   */
+  const handleApplyPreset = useCallback((id: string) => {
+    setPresetId(id);
+    const preset = presets.find(p => p.id === id);
+    if (preset) syncControls(preset.config);
+  }, [presets, syncControls]);
+
+  /**
+   * Save the current generation controls as a named preset
+   */
+  const handleSavePreset = useCallback(() => {
+    const name = prompt('Preset name', `${territoryCount} territories, ${climateBand}`);
+    if (!name) return;
+    const seed = useSeed ? parseInt(seedInput, 10) : NaN;
+    const shape = currentShape();
+    try {
+      const preset = savePreset(name, {
+        territoryCount,
+        seaLevel,
+        climate: { band: climateBand },
+        ...(!isNaN(seed) && { seed }),
+        ...(shape && { shape }),
+        ...(subdivisionConfig && { subdivisions: subdivisionConfig })
+      });
+      setPresets(listPresets());
+      setPresetId(preset.id);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  }, [territoryCount, seaLevel, climateBand, useSeed, seedInput, currentShape, subdivisionConfig]);
+
+  const handleDeletePreset = useCallback(() => {
+    deletePreset(presetId);
+    setPresets(listPresets());
+    setPresetId('');
+  }, [presetId]);
+
+  /**
+   * Save the current map to the library with a small preview
+   */
+  const handleSaveToLibrary = useCallback(async (name: string) => {
+    let thumbnail: string | undefined;
+    try {
+      const width = 160;
+      const height = Math.round(width * map.config.height / map.config.width);
+      const svg = renderMapSvg(map.territories, {
+        width: map.config.width,
+        height: map.config.height,
+        showLabels: false,
+        showLegend: false,
+        background: outsideColor
+      });
+      thumbnail = await blobToDataUrl(await rasterizeSvg(svg, width, height));
+    } catch (error) {
+      // A missing preview is not worth failing the save over
+      console.error('Thumbnail error:', error);
+    }
+
+    try {
+      saveToLibrary(name, map, thumbnail);
+      setLibraryEntries(listLibrary());
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  }, [map, outsideColor]);
+
+  const handleLoadFromLibrary = useCallback((entry: LibraryEntry) => {
+    try {
+      const { map: loaded, warning } = loadLibraryEntry(entry);
+      replaceMap(`Loaded ${entry.name}`, loaded);
+      syncControls(loaded.config);
+      clearLink();
+      setMapNotice(warning);
+    } catch (error) {
+      alert(`Could not load "${entry.name}":\n${(error as Error).message}`);
+    }
+  }, [syncControls, clearLink, replaceMap]);
+
+  /**
+   * Run a library change and refresh the list, reporting storage errors
+   */
+  const updateLibrary = useCallback((change: () => void) => {
+    try {
+      change();
+    } catch (error) {
+      alert((error as Error).message);
+    }
+    setLibraryEntries(listLibrary());
+  }, []);
+
+  /**
+   * Put the map recipe in the URL and copy the link
+   */
+  const handleShare = useCallback(async () => {
+    try {
+      const hash = recipeHash(createRecipe(map));
+      // replaceState does not fire hashchange, so the map is not rebuilt
+      window.history.replaceState(null, '', hash);
+      await navigator.clipboard.writeText(window.location.href);
+      setMapNotice('Link copied to the clipboard');
+    } catch (error) {
+      setMapNotice(`Could not share the map: ${(error as Error).message}`);
+    }
+  }, [map]);
 
   /**
    * Export map data as JSON
    */
-  const handleExport = useCallback(() => {
-    const dataStr = JSON.stringify(territories, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
+  const handleExport = useCallback(async () => {
+    const filename = `hierophant-map-${Date.now()}`;
 
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `hierophant-map-${Date.now()}.json`;
-    link.click();
+    if (exportFormat === 'json') {
+      const dataStr = JSON.stringify(createMapDocument(map), null, 2);
+      downloadBlob(new Blob([dataStr], { type: 'application/json' }), `${filename}.json`);
+      return;
+    }
 
-    URL.revokeObjectURL(url);
-  }, [territories]);
+    if (exportFormat === 'csv') {
+      downloadBlob(new Blob([exportTerritoriesCsv(map.territories)], { type: 'text/csv' }), `${filename}.csv`);
+      return;
+    }
+
+    if (exportFormat === 'geojson') {
+      const dataStr = JSON.stringify(exportTerritoriesGeoJson(map.territories), null, 2);
+      downloadBlob(new Blob([dataStr], { type: 'application/geo+json' }), `${filename}.geojson`);
+      return;
+    }
+
+    // Images show the map as displayed: current year, map mode and layers
+    const svg = renderMapSvg(territories, {
+      width: map.config.width,
+      height: map.config.height,
+      mapMode,
+      realms,
+      colorRamp: rampName ? COLOR_RAMPS[rampName] : undefined,
+      rivers,
+      roads,
+      background: outsideColor
+    });
+
+    if (exportFormat === 'svg') {
+      downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${filename}.svg`);
+      return;
+    }
+
+    try {
+      const png = await rasterizeSvg(svg, map.config.width * pngScale, map.config.height * pngScale);
+      downloadBlob(png, `${filename}.png`);
+    } catch (error) {
+      alert('PNG export failed');
+      console.error('Export error:', error);
+    }
+  }, [exportFormat, pngScale, map, territories, mapMode, realms, rampName, rivers, roads, outsideColor]);
 
   /**
-   * Import map data from JSON file
+   * Import a saved map file, migrating older versions
    */
   const handleImport = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -101,15 +630,28 @@ function App() {
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
-        const data = JSON.parse(event.target?.result as string);
-        setTerritories(data);
+        const saved = parseMapDocument(event.target?.result as string);
+        replaceMap(`Imported ${file.name}`, documentToMap(saved));
+        syncControls(saved.config);
+        clearLink();
       } catch (error) {
-        alert('Invalid JSON file');
+        if (error instanceof MapDocumentError) {
+          // Long validation reports are cut short; the console has all of them
+          const issues = error.issues.slice(0, 10).map(issue => `- ${issue.path}: ${issue.message}`);
+          const more = error.issues.length > 10 ? `\n…and ${error.issues.length - 10} more` : '';
+          alert(error.issues.length > 0
+            ? `${error.message.split('\n')[0]}\n${issues.join('\n')}${more}`
+            : error.message);
+        } else {
+          alert('Could not import the map file');
+        }
         console.error('Import error:', error);
       }
     };
     reader.readAsText(file);
-  }, []);
+    // Allow importing the same file again after fixing it
+    e.target.value = '';
+  }, [syncControls, clearLink, replaceMap]);
 
   return (
     <div className="app">
@@ -134,6 +676,49 @@ function App() {
           />
         </div>
 
+        <div className="control-group">
+          <label htmlFor="sea-level">
+            Sea Level: <strong>{Math.round(seaLevel * 100)}%</strong>
+          </label>
+          <input
+            id="sea-level"
+            type="range"
+            min="0.1"
+            max="0.6"
+            step="0.05"
+            value={seaLevel}
+            onChange={(e) => setSeaLevel(Number(e.target.value))}
+            className="slider"
+          />
+        </div>
+
+        <div className="control-group">
+          <label htmlFor="preset">Preset</label>
+          <select
+            id="preset"
+            value={presetId}
+            onChange={(e) => handleApplyPreset(e.target.value)}
+            style={{
+              padding: '8px 12px',
+              borderRadius: '6px',
+              border: '2px solid #ddd',
+              fontSize: '14px',
+              width: '100%'
+            }}
+          >
+            <option value="">Choose a preset…</option>
+            {presets.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+          <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+            <button onClick={handleSavePreset} className="btn btn-secondary">Save Preset</button>
+            {presets.some(p => p.id === presetId && !p.builtIn) && (
+              <button onClick={handleDeletePreset} className="btn btn-secondary">Delete Preset</button>
+            )}
+          </div>
+        </div>
+
         <div className="control-group">
           <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
             <input
@@ -161,12 +746,321 @@ function App() {
           )}
         </div>
 
+        <div className="control-group">
+          <label htmlFor="climate-band">Climate</label>
+          <select
+            id="climate-band"
+            value={climateBand}
+            onChange={(e) => setClimateBand(e.target.value as ClimateConfig['band'])}
+            style={{
+              padding: '8px 12px',
+              borderRadius: '6px',
+              border: '2px solid #ddd',
+              fontSize: '14px',
+              width: '100%'
+            }}
+          >
+            <option value="northern">Northern hemisphere</option>
+            <option value="equatorial">Equatorial</option>
+            <option value="southern">Southern hemisphere</option>
+          </select>
+        </div>
+
+        <div className="control-group">
+          <label htmlFor="map-shape">Map Shape</label>
+          <select
+            id="map-shape"
+            value={shapeKind}
+            onChange={(e) => setShapeKind(e.target.value as MapShape['kind'])}
+            style={{
+              padding: '8px 12px',
+              borderRadius: '6px',
+              border: '2px solid #ddd',
+              fontSize: '14px',
+              width: '100%'
+            }}
+          >
+            <option value="rectangle">Rectangle</option>
+            <option value="circle">Circle</option>
+            <option value="ellipse">Ellipse</option>
+            <option value="continent">Continent</option>
+            <option value="archipelago">Archipelago</option>
+            <option value="polygon">Custom outline (JSON)</option>
+            <option value="mask">Custom mask (image)</option>
+          </select>
+          {shapeKind !== 'rectangle' && (
+            <select
+              aria-label="Outside the shape"
+              value={outside}
+              onChange={(e) => setOutside(e.target.value as 'sea' | 'void')}
+              style={{
+                padding: '8px 12px',
+                borderRadius: '6px',
+                border: '2px solid #ddd',
+                fontSize: '14px',
+                width: '100%',
+                marginTop: '8px'
+              }}
+            >
+              <option value="sea">Sea outside the shape</option>
+              <option value="void">Nothing outside the shape</option>
+            </select>
+          )}
+          {(shapeKind === 'polygon' || shapeKind === 'mask') && (
+            <div style={{ marginTop: '8px' }}>
+              <label htmlFor="shape-file" className="btn btn-secondary">
+                📐 Load {shapeKind === 'mask' ? 'Image' : 'Outline'}
+                <input
+                  id="shape-file"
+                  type="file"
+                  accept={shapeKind === 'mask' ? 'image/*' : '.json,.geojson'}
+                  onChange={handleShapeFile}
+                  style={{ display: 'none' }}
+                />
+              </label>
+              <div style={{ fontSize: '0.75rem', color: '#666', marginTop: '4px' }}>
+                {customShape?.kind === shapeKind
+                  ? customShape.kind === 'mask'
+                    ? `${customShape.rows[0].length} × ${customShape.rows.length} mask loaded`
+                    : `Outline with ${customShape.points.length} points loaded`
+                  : shapeKind === 'mask'
+                    ? 'Dark areas of the image become land'
+                    : 'A list of [x, y] points in map units, or a GeoJSON Polygon'}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="control-group">
+          <label htmlFor="subdivisions">Subdivisions</label>
+          <select
+            id="subdivisions"
+            value={provinceCount}
+            onChange={(e) => setProvinceCount(Number(e.target.value))}
+            style={{
+              padding: '8px 12px',
+              borderRadius: '6px',
+              border: '2px solid #ddd',
+              fontSize: '14px',
+              width: '100%'
+            }}
+          >
+            <option value={0}>None</option>
+            {Array.from({ length: MAX_SUBDIVISIONS - 1 }, (_, i) => i + 2).map(n => (
+              <option key={n} value={n}>{n} provinces per territory</option>
+            ))}
+          </select>
+          {provinceCount > 0 && (
+            <select
+              aria-label="Counties per province"
+              value={countyCount}
+              onChange={(e) => setCountyCount(Number(e.target.value))}
+              style={{
+                padding: '8px 12px',
+                borderRadius: '6px',
+                border: '2px solid #ddd',
+                fontSize: '14px',
+                width: '100%',
+                marginTop: '8px'
+              }}
+            >
+              {Array.from({ length: MAX_SUBDIVISIONS - 1 }, (_, i) => i + 2).map(n => (
+                <option key={n} value={n}>{n} counties per province</option>
+              ))}
+            </select>
+          )}
+          <div style={{ fontSize: '0.75rem', color: '#666', marginTop: '4px' }}>
+            Zoom in to see provinces, then counties
+          </div>
+        </div>
+
+        <div className="control-group">
+          <label htmlFor="map-mode">Map Mode</label>
+          <select
+            id="map-mode"
+            value={mapMode}
+            onChange={(e) => setMapMode(e.target.value as MapMode)}
+            style={{
+              padding: '8px 12px',
+              borderRadius: '6px',
+              border: '2px solid #ddd',
+              fontSize: '14px',
+              width: '100%'
+            }}
+          >
+            <option value="terrain">Terrain</option>
+            <option value="political">Political</option>
+            <option value="diplomacy">Diplomacy</option>
+            <optgroup label="Data">
+              {listMapModes().map(mode => (
+                <option key={mode.id} value={mode.id}>{mode.label}</option>
+              ))}
+            </optgroup>
+          </select>
+        </div>
+
+        {getMapMode(mapMode)?.kind === 'numeric' && (
+          <div className="control-group">
+            <label htmlFor="color-ramp">Color Ramp</label>
+            <select
+              id="color-ramp"
+              value={rampName}
+              onChange={(e) => setRampName(e.target.value)}
+              style={{
+                padding: '8px 12px',
+                borderRadius: '6px',
+                border: '2px solid #ddd',
+                fontSize: '14px',
+                width: '100%'
+              }}
+            >
+              <option value="">Default</option>
+              {Object.keys(COLOR_RAMPS).map(name => (
+                <option key={name} value={name} style={{ textTransform: 'capitalize' }}>{name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="control-group">
+          <label htmlFor="history-years">History</label>
+          <select
+            id="history-years"
+            value={historyYears}
+            onChange={(e) => setHistoryYears(Number(e.target.value))}
+            style={{
+              padding: '8px 12px',
+              borderRadius: '6px',
+              border: '2px solid #ddd',
+              fontSize: '14px',
+              width: '100%'
+            }}
+          >
+            <option value={0}>None</option>
+            <option value={100}>100 years</option>
+            <option value={200}>200 years</option>
+            <option value={400}>400 years</option>
+          </select>
+        </div>
+
+        {history.endYear > history.startYear && (
+          <div className="control-group">
+            <label htmlFor="history-year">
+              Year: <strong>{currentYear}</strong>
+            </label>
+            <input
+              id="history-year"
+              type="range"
+              min={history.startYear}
+              max={history.endYear}
+              value={currentYear}
+              onChange={(e) => setYear(Number(e.target.value))}
+              className="slider"
+            />
+          </div>
+        )}
+
+        <div className="control-group">
+          <label htmlFor="territory-query">Filter</label>
+          <input
+            id="territory-query"
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="e.g. terrain = mountains AND gold > 70"
+            style={{
+              padding: '8px 12px',
+              borderRadius: '6px',
+              border: `2px solid ${queryResult.error ? '#e57373' : '#ddd'}`,
+              fontSize: '14px',
+              width: '100%'
+            }}
+          />
+          <div style={{ fontSize: '0.75rem', color: queryResult.error ? '#c62828' : '#666', marginTop: '4px' }}>
+            {queryResult.error ?? (queryResult.matches ? `${queryResult.matches.size} matching territories` : 'Type a name or a query')}
+          </div>
+        </div>
+
+        <div className="control-group">
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <input
+              type="checkbox"
+              checked={showTrade}
+              onChange={(e) => setShowTrade(e.target.checked)}
+            />
+            Show Trade Routes
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <input
+              type="checkbox"
+              checked={editShapes}
+              onChange={(e) => setEditShapes(e.target.checked)}
+            />
+            Edit Shapes
+          </label>
+        </div>
+
         <div className="button-group">
           <button onClick={handleRegenerate} className="btn btn-primary">
             🎲 Regenerate Map
           </button>
+          <select
+            aria-label="Export format"
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            style={{
+              padding: '8px 12px',
+              borderRadius: '6px',
+              border: '2px solid #ddd',
+              fontSize: '14px'
+            }}
+          >
+            <option value="json">JSON</option>
+            <option value="csv">CSV</option>
+            <option value="geojson">GeoJSON</option>
+            <option value="svg">SVG</option>
+            <option value="png">PNG</option>
+          </select>
+          {exportFormat === 'png' && (
+            <select
+              aria-label="PNG resolution"
+              value={pngScale}
+              onChange={(e) => setPngScale(Number(e.target.value))}
+              style={{
+                padding: '8px 12px',
+                borderRadius: '6px',
+                border: '2px solid #ddd',
+                fontSize: '14px'
+              }}
+            >
+              {[1, 2, 4].map(scale => (
+                <option key={scale} value={scale}>
+                  {map.config.width * scale} × {map.config.height * scale}
+                </option>
+              ))}
+            </select>
+          )}
           <button onClick={handleExport} className="btn btn-secondary">
-            💾 Export JSON
+            💾 Export
+          </button>
+          <button
+            onClick={handleUndo}
+            disabled={mapState.history.past.length === 0}
+            title="Undo (Ctrl+Z)"
+            className="btn btn-secondary"
+          >
+            ↶ Undo
+          </button>
+          <button
+            onClick={handleRedo}
+            disabled={mapState.history.future.length === 0}
+            title="Redo (Ctrl+Shift+Z)"
+            className="btn btn-secondary"
+          >
+            ↷ Redo
+          </button>
+          <button onClick={handleShare} className="btn btn-secondary">
+            🔗 Copy Link
           </button>
           <label htmlFor="import-file" className="btn btn-secondary">
             📂 Import JSON
@@ -179,41 +1073,90 @@ function App() {
             />
           </label>
         </div>
+        {mapNotice && (
+          <div style={{ fontSize: '0.85rem', color: '#5d4037', background: '#fff8e1', padding: '6px 10px', borderRadius: '6px' }}>
+            {mapNotice}
+          </div>
+        )}
       </div>
 
       <div className="map-container">
         <MapCanvas
-          territories={territories}
-          width={config.width}
-          height={config.height}
+          territories={shapePreview?.territories ?? territories}
+          rivers={rivers}
+          roads={shapePreview?.roads ?? roads}
+          realms={realms}
+          diplomacy={diplomacy}
+          trade={trade}
+          showTrade={showTrade}
+          mapMode={mapMode}
+          colorRamp={rampName ? COLOR_RAMPS[rampName] : undefined}
+          highlightIds={matchedIds}
+          selectedIds={selectedIds}
+          onSelect={handleSelect}
+          editShapes={editShapes}
+          onMoveSite={handleMoveSite}
+          outsideColor={outsideColor}
+          subdivisions={shapePreview ? shapePreview.subdivisions : subdivisions}
+          width={map.config.width}
+          height={map.config.height}
         />
       </div>
 
+      {selectedTerritories.length > 0 && (
+        <TerritoryEditor
+          territories={selectedTerritories}
+          seed={map.config.seed ?? 0}
+          onApply={handleApplyEdits}
+          onSplit={handleSplit}
+          onMerge={handleMerge}
+          onClose={() => setSelectedIds(new Set())}
+        />
+      )}
+
       <div className="info-panel">
         <h3>Map Statistics</h3>
         <div className="stats">
           <div className="stat">
             <span className="stat-label">Territories:</span>
-            <span className="stat-value">{territories.length}</span>
+            <span className="stat-value">{landTerritories.length}</span>
           </div>
           <div className="stat">
             <span className="stat-label">Total Population:</span>
             <span className="stat-value">
-              {territories.reduce((sum, t) => sum + t.metadata.population, 0).toLocaleString()}
+              {landTerritories.reduce((sum, t) => sum + t.metadata.population, 0).toLocaleString()}
             </span>
           </div>
           <div className="stat">
             <span className="stat-label">Avg Development:</span>
             <span className="stat-value">
-              {Math.round(territories.reduce((sum, t) => sum + t.metadata.development, 0) / territories.length)}%
+              {landTerritories.length > 0
+                ? `${Math.round(landTerritories.reduce((sum, t) => sum + t.metadata.development, 0) / landTerritories.length)}%`
+                : '—'}
             </span>
           </div>
           <div className="stat">
             <span className="stat-label">Map Size:</span>
-            <span className="stat-value">{config.width} × {config.height}</span>
+            <span className="stat-value">{map.config.width} × {map.config.height}</span>
           </div>
         </div>
 
+        <h3>Map Library</h3>
+        <MapLibrary
+          entries={libraryEntries}
+          onSave={handleSaveToLibrary}
+          onLoad={handleLoadFromLibrary}
+          onRename={(id, name) => updateLibrary(() => renameLibraryEntry(id, name))}
+          onDuplicate={(id) => updateLibrary(() => duplicateLibraryEntry(id))}
+          onDelete={(id) => updateLibrary(() => deleteLibraryEntry(id))}
+        />
+
+        <h3>Edit History</h3>
+        <HistoryPanel
+          history={mapState.history}
+          onJump={(position) => setMapState(state => jumpTo(state, position))}
+        />
+
         <h3>Terrain Distribution</h3>
         <div className="terrain-legend">
           {Object.entries(TerrainType).map(([key, value]) => {
@@ -232,23 +1175,96 @@ function App() {
           })}
         </div>
 
-        <h3>Territory List</h3>
+        <h3>Realms</h3>
         <div className="territory-list">
-          {territories.map((territory) => (
-            <div key={territory.id} className="territory-item">
+          {realms.map(realm => (
+            <div key={realm.id} className="territory-item">
               <div
                 className="territory-color"
-                style={{ backgroundColor: territory.color }}
+                style={{ backgroundColor: realm.colors.primary, borderColor: realm.colors.secondary }}
               />
               <div style={{ flex: 1 }}>
-                <div className="territory-name">{territory.name}</div>
+                <div className="territory-name">{realm.name}</div>
                 <div style={{ fontSize: '0.75rem', color: '#666', marginTop: '2px' }}>
-                  {territory.metadata.terrain} • Pop: {(territory.metadata.population / 1000).toFixed(1)}k
+                  {realm.rulerTitle} • {realm.territoryIds.length} territories
+                  {realm.liegeId && ` • vassal of ${realms.find(r => r.id === realm.liegeId)?.name}`}
                 </div>
               </div>
             </div>
           ))}
         </div>
+
+        <h3>Trade Hubs</h3>
+        <div className="terrain-legend">
+          {tradeHubs.map(territory => (
+            <div key={territory.id} className="terrain-badge">
+              <span>{territory.name}</span>
+              <span className="terrain-count">
+                ({trade.throughput[territory.id]} goods • {trade.income[territory.id]} income)
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <h3>Diplomacy</h3>
+        <div className="terrain-legend">
+          {diplomacy.alliances.map(alliance => (
+            <div key={alliance.id} className="terrain-badge">
+              <span>🤝 {alliance.name}</span>
+              <span className="terrain-count">({alliance.memberIds.length} realms)</span>
+            </div>
+          ))}
+          {diplomacy.wars.map(war => (
+            <div key={war.id} className="terrain-badge">
+              <span>⚔️ {war.name}</span>
+              <span className="terrain-count">({war.attackerIds.length} vs {war.defenderIds.length})</span>
+            </div>
+          ))}
+          <div className="terrain-badge">
+            <span>Trade treaties</span>
+            <span className="terrain-count">({diplomacy.treaties.filter(t => t.type === 'trade').length})</span>
+          </div>
+          <div className="terrain-badge">
+            <span>Truces</span>
+            <span className="terrain-count">({diplomacy.treaties.filter(t => t.type === 'truce').length})</span>
+          </div>
+        </div>
+
+        {history.events.length > 0 && (
+          <>
+            <h3>Timeline</h3>
+            <div className="territory-list">
+              {pastEvents.length === 0 && (
+                <div style={{ fontSize: '0.85rem', color: '#666' }}>Nothing of note has happened yet</div>
+              )}
+              {pastEvents.map((event, index) => (
+                <div key={`${event.year}-${index}`} className="territory-item">
+                  <strong>{event.year}</strong>
+                  <div style={{ flex: 1, fontSize: '0.85rem' }}>{event.description}</div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <h3>Culture Regions</h3>
+        <div className="terrain-legend">
+          {cultureRegions.map(region => (
+            <div key={region.culture} className="terrain-badge">
+              <span>{region.culture}</span>
+              <span className="terrain-count">
+                ({region.territoryIds.length} • {(region.totalPopulation / 1000).toFixed(1)}k)
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <h3>Territory List</h3>
+        <TerritoryTree
+          territories={listedTerritories}
+          subdivisions={subdivisions}
+          onRename={handleRename}
+        />
       </div>
 
       <footer className="app-footer">
@@ -0,0 +1,51 @@
+import { CommandHistory } from '../types/Command';
+
+interface HistoryPanelProps {
+  history: CommandHistory;
+  // Called with the number of commands that should be applied
+  onJump: (position: number) => void;
+}
+
+/**
+ * List of map changes, oldest first, with the current state marked
+ * Clicking an entry undoes or redoes everything up to and including it;
+ * undone entries stay listed (greyed) until a new change replaces them
+ */
+export function HistoryPanel({ history, onJump }: HistoryPanelProps) {
+  const entries = [...history.past, ...history.future];
+  const current = history.past.length;
+
+  return (
+    <div className="territory-list">
+      <div
+        className="territory-item"
+        onClick={() => onJump(0)}
+        style={{ cursor: 'pointer', fontWeight: current === 0 ? 'bold' : undefined }}
+      >
+        Starting map
+      </div>
+      {entries.map((command, index) => {
+        const position = index + 1;
+        return (
+          <div
+            key={`${command.timestamp}-${index}`}
+            className="territory-item"
+            onClick={() => onJump(position)}
+            style={{
+              cursor: 'pointer',
+              fontWeight: position === current ? 'bold' : undefined,
+              color: position > current ? '#999' : undefined
+            }}
+          >
+            <div style={{ flex: 1 }}>
+              <div className="territory-name">{command.label}</div>
+              <div style={{ fontSize: '0.75rem', color: '#666', marginTop: '2px' }}>
+                {new Date(command.timestamp).toLocaleTimeString()}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
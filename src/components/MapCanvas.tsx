@@ -1,12 +1,135 @@
-import { useEffect, useRef, useState } from 'react';
-import { Territory } from '../types/Territory';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Territory, TerritoryHierarchy } from '../types/Territory';
+import { River } from '../types/River';
+import { RoadNetwork } from '../types/Road';
+import { Realm } from '../types/Realm';
+import { DiplomaticStance, DiplomaticState } from '../types/Diplomacy';
+import { TradeNetwork } from '../types/Trade';
+import { ChoroplethLegend, ChoroplethMode, ColorRamp, MapMode } from '../types/MapMode';
+import { isWaterTerrain } from '../utils/metadataGenerator';
+import { buildRealmLookup, getTopLiege } from '../utils/politicalGenerator';
+import { getStance } from '../utils/diplomacyGenerator';
+import { computeChoropleth, getMapMode } from '../utils/mapModes';
+import { MiniMap } from './MiniMap';
+
+export type { MapMode } from '../types/MapMode';
 
 interface MapCanvasProps {
   territories: Territory[];
+  rivers?: River[];
+  roads?: RoadNetwork;
+  realms?: Realm[];
+  diplomacy?: DiplomaticState;
+  trade?: TradeNetwork;
+  showTrade?: boolean;
+  // Mode id, or a choropleth mode object for one-off modes
+  mapMode?: MapMode | ChoroplethMode;
+  // Overrides the color ramp of numeric choropleth modes
+  colorRamp?: ColorRamp;
+  // Territories matching the current filter; the rest are dimmed
+  highlightIds?: Set<string> | null;
+  // Territories selected for editing, outlined on top of everything else
+  selectedIds?: Set<string>;
+  // Click on a land territory (null for water or empty space); additive when shift is held
+  onSelect?: (territoryId: string | null, additive: boolean) => void;
+  // Shape editing: territory centers get handles that can be dragged
+  editShapes?: boolean;
+  // Center dragged to a world position; done is true on release
+  onMoveSite?: (territoryId: string, x: number, y: number, done: boolean) => void;
+  // Fill outside the territories on shaped maps: sea color, or null to leave it empty
+  outsideColor?: string | null;
+  // Provinces and counties, outlined and labeled as the view zooms in
+  subdivisions?: TerritoryHierarchy;
+  showMiniMap?: boolean;
   width: number;
   height: number;
 }
 
+const NO_RIVERS: River[] = [];
+const NO_ROADS: RoadNetwork = { nodes: [], segments: [] };
+const NO_REALMS: Realm[] = [];
+const NO_DIPLOMACY: DiplomaticState = { relations: {}, alliances: [], wars: [], treaties: [] };
+const NO_TRADE: TradeNetwork = { routes: [], flows: [], income: {}, throughput: {} };
+const NO_SELECTION = new Set<string>();
+
+// Mouse travel (pixels) below which a press and release count as a click, not a pan
+const CLICK_TOLERANCE = 4;
+
+// Radius (world units) of the center handles drawn in shape editing mode
+const SITE_HANDLE_RADIUS = 6;
+
+// Zoom levels from which provinces, then counties, are shown
+const PROVINCE_ZOOM = 1.8;
+const COUNTY_ZOOM = 3.2;
+
+// Diplomacy mode fills; land outside any realm keeps its terrain color
+const STANCE_COLORS: Record<DiplomaticStance, string> = {
+  self: '#f2c94c',
+  overlord: '#9b59b6',
+  allied: '#2f80ed',
+  war: '#c0392b',
+  truce: '#e67e22',
+  friendly: '#7cb342',
+  neutral: '#d9d4c7',
+  hostile: '#e57373'
+};
+// Diplomacy mode fill while nothing is hovered
+const UNRELATED_COLOR = '#d9d4c7';
+
+/**
+ * Draw a choropleth legend in the bottom-left corner of the canvas (screen space)
+ */
+function drawLegend(ctx: CanvasRenderingContext2D, legend: ChoroplethLegend, canvasHeight: number) {
+  const padding = 10;
+  const boxWidth = 180;
+  const rowHeight = 16;
+  const rows = legend.kind === 'numeric' ? 2 : legend.entries.length;
+  const boxHeight = padding * 2 + 18 + rows * rowHeight;
+  const x = padding;
+  const y = canvasHeight - boxHeight - padding;
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.92)';
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.2)';
+  ctx.lineWidth = 1;
+  ctx.fillRect(x, y, boxWidth, boxHeight);
+  ctx.strokeRect(x, y, boxWidth, boxHeight);
+
+  ctx.fillStyle = '#222';
+  ctx.font = 'bold 12px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillText(legend.label, x + padding, y + padding);
+
+  const top = y + padding + 18;
+  ctx.font = '11px sans-serif';
+
+  if (legend.kind === 'numeric') {
+    const barWidth = boxWidth - padding * 2;
+    const gradient = ctx.createLinearGradient(x + padding, 0, x + padding + barWidth, 0);
+    legend.ramp.forEach((color, i) => gradient.addColorStop(i / (legend.ramp.length - 1), color));
+    ctx.fillStyle = gradient;
+    ctx.fillRect(x + padding, top, barWidth, 12);
+    ctx.strokeRect(x + padding, top, barWidth, 12);
+
+    ctx.fillStyle = '#444';
+    ctx.fillText(legend.min, x + padding, top + rowHeight);
+    ctx.textAlign = 'right';
+    ctx.fillText(legend.max, x + padding + barWidth, top + rowHeight);
+  } else {
+    legend.entries.forEach((entry, i) => {
+      const rowY = top + i * rowHeight;
+      ctx.fillStyle = entry.color;
+      ctx.fillRect(x + padding, rowY, 12, 12);
+      ctx.strokeRect(x + padding, rowY, 12, 12);
+      ctx.fillStyle = '#444';
+      ctx.fillText(entry.label, x + padding + 18, rowY);
+    });
+  }
+
+  ctx.restore();
+}
+
 /**
  * Canvas component for rendering the territory map
  *
@@ -15,8 +138,38 @@ interface MapCanvasProps {
  * - Implements hover detection using point-in-polygon algorithm
  * - Double-buffered drawing to prevent flicker
  * - Renders borders separately from fills for clean visual separation
+ * - Draws water as a separate layer beneath land, with coastlines on top
+ * - Rivers, roads and trade flows are separate layers drawn over territory borders
+ * - Political mode draws realm borders over the thinner territory borders
+ * - Diplomacy mode recolors realms whenever the hovered realm changes
+ * - Choropleth modes are data-driven (utils/mapModes) and draw a screen-space legend
+ * - Filtering dims non-matching territories and outlines matches over every border layer
+ * - The mini-map overlay reuses the fill colors and drives the shared pan state
+ * - Clicks select territories; a press only becomes a pan once the mouse moves
+ * - Subdivided maps switch detail level with zoom: provinces and counties are outlined
+ *   and labeled over their territory's fill, and hovering shows the piece under the mouse
  */
-export function MapCanvas({ territories, width, height }: MapCanvasProps) {
+export function MapCanvas({
+  territories,
+  rivers = NO_RIVERS,
+  roads = NO_ROADS,
+  realms = NO_REALMS,
+  diplomacy = NO_DIPLOMACY,
+  trade = NO_TRADE,
+  showTrade = false,
+  mapMode = 'terrain',
+  colorRamp,
+  highlightIds = null,
+  selectedIds = NO_SELECTION,
+  onSelect,
+  editShapes = false,
+  onMoveSite,
+  outsideColor = null,
+  subdivisions,
+  showMiniMap = true,
+  width,
+  height
+}: MapCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [hoveredTerritory, setHoveredTerritory] = useState<Territory | null>(null);
   const [mousePos, setMousePos] = useState<{ x: number; y: number } | null>(null);
@@ -26,6 +179,69 @@ export function MapCanvas({ territories, width, height }: MapCanvasProps) {
   const [zoom, setZoom] = useState(1);
   const [isPanning, setIsPanning] = useState(false);
   const [lastPanPos, setLastPanPos] = useState<{ x: number; y: number } | null>(null);
+  // Where the left button went down, to tell clicks from drags
+  const pressPosRef = useRef<{ x: number; y: number } | null>(null);
+  // Territory whose center is being dragged, and where it was last dropped
+  const draggedSiteRef = useRef<{ id: string; moved: boolean; x: number; y: number } | null>(null);
+
+  const realmLookup = useMemo(() => buildRealmLookup(realms), [realms]);
+
+  // Provinces or counties at the current zoom (none at territory level)
+  const detailLevel = !subdivisions ? 'territory' : zoom >= COUNTY_ZOOM ? 'county' : zoom >= PROVINCE_ZOOM ? 'province' : 'territory';
+  const detailPieces = useMemo(
+    () => (!subdivisions || detailLevel === 'territory' ? [] : detailLevel === 'county' ? subdivisions.counties : subdivisions.provinces),
+    [subdivisions, detailLevel]
+  );
+
+  // Any piece by id, and the top-level territory it lies in (for realm lookups)
+  const pieceById = useMemo(
+    () => new Map([...territories, ...(subdivisions ? [...subdivisions.provinces, ...subdivisions.counties] : [])].map(t => [t.id, t])),
+    [territories, subdivisions]
+  );
+  const topLevelId = (territory: Territory): string => {
+    let current = territory;
+    while (current.parentId && pieceById.has(current.parentId)) current = pieceById.get(current.parentId)!;
+    return current.id;
+  };
+
+  const isPolitical = mapMode === 'political';
+  const isDiplomacy = mapMode === 'diplomacy';
+  const showRealms = isPolitical || isDiplomacy;
+
+  // Data-driven fills and legend for choropleth modes
+  const choroplethMode = typeof mapMode === 'string' ? getMapMode(mapMode) : mapMode;
+  const choropleth = useMemo(
+    () => (choroplethMode ? computeChoropleth(choroplethMode, territories, colorRamp) : null),
+    [choroplethMode, territories, colorRamp]
+  );
+  const hoveredRealm = hoveredTerritory ? realmLookup.get(topLevelId(hoveredTerritory)) : undefined;
+
+  // Stance of every realm toward the hovered realm
+  const stances = useMemo(() => {
+    const result = new Map<string, DiplomaticStance>();
+    if (!isDiplomacy || !hoveredRealm) return result;
+    realms.forEach(realm => result.set(realm.id, getStance(diplomacy, realms, hoveredRealm.id, realm.id)));
+    return result;
+  }, [isDiplomacy, hoveredRealm, realms, diplomacy]);
+
+  // Fill color per territory in the active mode, shared with the mini-map
+  const fillColors = useMemo(() => {
+    const fills = new Map<string, string>();
+    territories.forEach(territory => {
+      const realm = realmLookup.get(territory.id);
+      if (isWaterTerrain(territory.metadata.terrain)) {
+        fills.set(territory.id, territory.color);
+      } else if (isPolitical) {
+        fills.set(territory.id, realm?.colors.primary ?? territory.color);
+      } else if (isDiplomacy) {
+        fills.set(territory.id,
+          !realm ? territory.color : hoveredRealm ? STANCE_COLORS[stances.get(realm.id)!] : UNRELATED_COLOR);
+      } else {
+        fills.set(territory.id, choropleth?.colors.get(territory.id) ?? territory.color);
+      }
+    });
+    return fills;
+  }, [territories, realmLookup, isPolitical, isDiplomacy, hoveredRealm, stances, choropleth]);
 
   /**
    * Main rendering function
@@ -46,12 +262,13 @@ export function MapCanvas({ territories, width, height }: MapCanvasProps) {
     ctx.translate(pan.x, pan.y);
     ctx.scale(zoom, zoom);
 
-    // Draw each territory
-    territories.forEach(territory => {
-      const isHovered = hoveredTerritory?.id === territory.id;
+    // Area beyond the map shape
+    if (outsideColor) {
+      ctx.fillStyle = outsideColor;
+      ctx.fillRect(0, 0, width, height);
+    }
 
-      // Draw territory fill
-      ctx.fillStyle = territory.color;
+    const traceTerritory = (territory: Territory) => {
       ctx.beginPath();
       territory.borderPoints.forEach((point, index) => {
         if (index === 0) {
@@ -61,6 +278,28 @@ export function MapCanvas({ territories, width, height }: MapCanvasProps) {
         }
       });
       ctx.closePath();
+    };
+
+    const waterTerritories = territories.filter(t => isWaterTerrain(t.metadata.terrain));
+    const landTerritories = territories.filter(t => !isWaterTerrain(t.metadata.terrain));
+
+    // Draw water layer (no borders between water cells)
+    waterTerritories.forEach(territory => {
+      traceTerritory(territory);
+      ctx.fillStyle = territory.color;
+      ctx.fill();
+      ctx.strokeStyle = territory.color;
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    });
+
+    // Draw each land territory
+    landTerritories.forEach(territory => {
+      const isHovered = hoveredTerritory?.id === territory.id;
+
+      // Draw territory fill
+      ctx.fillStyle = fillColors.get(territory.id)!;
+      traceTerritory(territory);
       ctx.fill();
 
       // Highlight hovered territory
@@ -69,12 +308,167 @@ export function MapCanvas({ territories, width, height }: MapCanvasProps) {
         ctx.fill();
       }
 
-      // Draw border
-      ctx.strokeStyle = isHovered ? '#fff' : '#333';
-      ctx.lineWidth = isHovered ? 3 : 1.5;
+      // Dim territories outside the filter
+      const isFiltered = highlightIds !== null;
+      const isMatch = isFiltered && highlightIds.has(territory.id);
+      if (isFiltered && !isMatch) {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.65)';
+        ctx.fill();
+      }
+
+      // Draw border (thin in realm modes, where realm borders carry the weight)
+      ctx.strokeStyle = isHovered ? '#fff' : showRealms ? 'rgba(0, 0, 0, 0.35)' : '#333';
+      ctx.lineWidth = isHovered ? 3 : showRealms ? 0.8 : 1.5;
       ctx.stroke();
     });
 
+    // Outline provinces or counties inside their territories, with the hovered one highlighted
+    detailPieces.forEach(piece => {
+      traceTerritory(piece);
+      if (hoveredTerritory?.id === piece.id) {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+        ctx.fill();
+      }
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.3)';
+      ctx.lineWidth = 0.6;
+      ctx.stroke();
+    });
+
+    // Draw realm borders: thick between independent realms, dashed between a vassal and its liege
+    if (showRealms) {
+      ctx.strokeStyle = '#111';
+      ctx.lineCap = 'round';
+      landTerritories.forEach(territory => {
+        const realm = realmLookup.get(territory.id);
+        if (!realm) return;
+        territory.borders?.forEach(border => {
+          const other = realmLookup.get(border.neighborId);
+          // Draw each shared border once
+          if (!other || other.id === realm.id || territory.id > border.neighborId) return;
+          const sameLiege = getTopLiege(realm, realms).id === getTopLiege(other, realms).id;
+          ctx.lineWidth = sameLiege ? 2 : 4;
+          ctx.setLineDash(sameLiege ? [6, 4] : []);
+          border.segments.forEach(segment => {
+            ctx.beginPath();
+            ctx.moveTo(segment.start[0], segment.start[1]);
+            ctx.lineTo(segment.end[0], segment.end[1]);
+            ctx.stroke();
+          });
+        });
+      });
+      ctx.setLineDash([]);
+    }
+
+    // Draw coastlines along land/water borders
+    const waterIds = new Set(waterTerritories.map(t => t.id));
+    ctx.strokeStyle = '#1b3a57';
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    landTerritories.forEach(territory => {
+      territory.borders?.forEach(border => {
+        if (!waterIds.has(border.neighborId)) return;
+        border.segments.forEach(segment => {
+          ctx.beginPath();
+          ctx.moveTo(segment.start[0], segment.start[1]);
+          ctx.lineTo(segment.end[0], segment.end[1]);
+          ctx.stroke();
+        });
+      });
+    });
+
+    // Outline territories matching the filter
+    if (highlightIds) {
+      ctx.strokeStyle = '#ffb300';
+      ctx.lineWidth = 3;
+      ctx.lineJoin = 'round';
+      landTerritories
+        .filter(territory => highlightIds.has(territory.id))
+        .forEach(territory => {
+          traceTerritory(territory);
+          ctx.stroke();
+        });
+    }
+
+    // Outline selected territories
+    if (selectedIds.size > 0) {
+      ctx.lineJoin = 'round';
+      landTerritories
+        .filter(territory => selectedIds.has(territory.id))
+        .forEach(territory => {
+          traceTerritory(territory);
+          ctx.strokeStyle = '#fff';
+          ctx.lineWidth = 6;
+          ctx.stroke();
+          ctx.strokeStyle = '#1e88e5';
+          ctx.lineWidth = 3;
+          ctx.stroke();
+        });
+    }
+
+    // Draw rivers, widening downstream
+    ctx.strokeStyle = '#3b7dc4';
+    ctx.lineCap = 'round';
+    rivers.forEach(river => {
+      for (let k = 0; k < river.points.length - 1; k++) {
+        ctx.lineWidth = (river.widths[k] + river.widths[k + 1]) / 2;
+        ctx.beginPath();
+        ctx.moveTo(river.points[k][0], river.points[k][1]);
+        ctx.lineTo(river.points[k + 1][0], river.points[k + 1][1]);
+        ctx.stroke();
+      }
+    });
+
+    // Draw roads: solid for major roads, dashed for minor tracks
+    ctx.lineJoin = 'round';
+    roads.segments.forEach(segment => {
+      const isMajor = segment.quality === 'major';
+      ctx.strokeStyle = isMajor ? '#6d4c41' : '#8d6e63';
+      ctx.lineWidth = isMajor ? 2.5 : 1.2;
+      ctx.setLineDash(isMajor ? [] : [4, 4]);
+      ctx.beginPath();
+      segment.points.forEach((point, index) => {
+        if (index === 0) {
+          ctx.moveTo(point[0], point[1]);
+        } else {
+          ctx.lineTo(point[0], point[1]);
+        }
+      });
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+
+    // Draw trade flows, thicker where more goods cross a border
+    if (showTrade) {
+      ctx.strokeStyle = 'rgba(218, 165, 32, 0.8)';
+      trade.flows.forEach(flow => {
+        ctx.lineWidth = Math.min(1 + Math.sqrt(flow.volume) * 0.6, 9);
+        ctx.beginPath();
+        flow.points.forEach((point, index) => {
+          if (index === 0) {
+            ctx.moveTo(point[0], point[1]);
+          } else {
+            ctx.lineTo(point[0], point[1]);
+          }
+        });
+        ctx.stroke();
+      });
+    }
+
+    // Mark realm capitals with the realm's metal
+    if (isPolitical) {
+      realms.forEach(realm => {
+        const capital = territories.find(t => t.id === realm.capitalId);
+        if (!capital) return;
+        ctx.beginPath();
+        ctx.arc(capital.centerX, capital.centerY - 16, 5, 0, Math.PI * 2);
+        ctx.fillStyle = realm.colors.secondary;
+        ctx.fill();
+        ctx.strokeStyle = '#111';
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+      });
+    }
+
     // Draw territory names at center points
     ctx.fillStyle = '#000';
     ctx.strokeStyle = '#fff';
@@ -83,14 +477,41 @@ export function MapCanvas({ territories, width, height }: MapCanvasProps) {
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
 
-    territories.forEach(territory => {
+    // Zoomed in on a subdivided map, the pieces are labeled instead (smaller, as they grow on screen)
+    if (detailPieces.length > 0) {
+      ctx.font = detailLevel === 'county' ? 'bold 5px sans-serif' : 'bold 8px sans-serif';
+      ctx.lineWidth = detailLevel === 'county' ? 1.2 : 2;
+    }
+    (detailPieces.length > 0 ? detailPieces : landTerritories).forEach(territory => {
       // Draw text outline for better visibility
       ctx.strokeText(territory.name, territory.centerX, territory.centerY);
       ctx.fillText(territory.name, territory.centerX, territory.centerY);
     });
 
+    // Center handles for shape editing; locked territories cannot be moved
+    if (editShapes) {
+      ctx.lineWidth = 2;
+      landTerritories.forEach(territory => {
+        ctx.beginPath();
+        ctx.arc(territory.centerX, territory.centerY, SITE_HANDLE_RADIUS, 0, Math.PI * 2);
+        ctx.fillStyle = territory.locked ? '#9e9e9e' : '#1e88e5';
+        ctx.fill();
+        ctx.strokeStyle = '#fff';
+        ctx.stroke();
+      });
+    }
+
     ctx.restore();
-  }, [territories, width, height, hoveredTerritory, pan, zoom]);
+
+    // Legend stays fixed in the corner while the map pans and zooms
+    if (choropleth) {
+      drawLegend(ctx, choropleth.legend, height);
+    }
+  }, [
+    territories, rivers, roads, realms, realmLookup, fillColors, isPolitical, showRealms,
+    trade, showTrade, choropleth, highlightIds, selectedIds, editShapes, outsideColor, detailLevel, detailPieces,
+    width, height, hoveredTerritory, pan, zoom
+  ]);
 
   /**
    * Point-in-polygon algorithm using ray casting
@@ -134,6 +555,17 @@ export function MapCanvas({ territories, width, height }: MapCanvasProps) {
     const screenX = e.clientX - rect.left;
     const screenY = e.clientY - rect.top;
 
+    // Drag a territory center once the mouse has moved far enough to not be a click
+    const site = draggedSiteRef.current;
+    if (site && onMoveSite) {
+      const press = pressPosRef.current;
+      if (!site.moved && press && Math.hypot(e.clientX - press.x, e.clientY - press.y) <= CLICK_TOLERANCE) return;
+      [site.x, site.y] = screenToWorld(screenX, screenY);
+      site.moved = true;
+      onMoveSite(site.id, site.x, site.y, false);
+      return;
+    }
+
     // Handle panning
     if (isPanning && lastPanPos) {
       const dx = screenX - lastPanPos.x;
@@ -148,15 +580,19 @@ export function MapCanvas({ territories, width, height }: MapCanvasProps) {
     // Convert to world coordinates for hit detection
     const [worldX, worldY] = screenToWorld(screenX, screenY);
 
-    // Find which territory the mouse is over
-    const territory = territories.find(t =>
-      isPointInPolygon([worldX, worldY], t.borderPoints)
-    );
+    // Find which land territory the mouse is over (water is not interactive)
+    // Zoomed in on a subdivided map, that is the province or county under the mouse
+    const territory = detailPieces.find(t => isPointInPolygon([worldX, worldY], t.borderPoints)) ??
+      territories.find(t => !isWaterTerrain(t.metadata.terrain) && isPointInPolygon([worldX, worldY], t.borderPoints));
 
     setHoveredTerritory(territory || null);
   };
 
   const handleMouseLeave = () => {
+    const site = draggedSiteRef.current;
+    draggedSiteRef.current = null;
+    if (site?.moved && onMoveSite) onMoveSite(site.id, site.x, site.y, true);
+    pressPosRef.current = null;
     setHoveredTerritory(null);
     setMousePos(null);
     setIsPanning(false);
@@ -168,6 +604,21 @@ export function MapCanvas({ territories, width, height }: MapCanvasProps) {
       const canvas = canvasRef.current;
       if (!canvas) return;
       const rect = canvas.getBoundingClientRect();
+      pressPosRef.current = { x: e.clientX, y: e.clientY };
+
+      // Pressing a center handle starts dragging it instead of panning
+      if (editShapes && onMoveSite) {
+        const [worldX, worldY] = screenToWorld(e.clientX - rect.left, e.clientY - rect.top);
+        const site = territories.find(t =>
+          !isWaterTerrain(t.metadata.terrain) && !t.locked &&
+          Math.hypot(t.centerX - worldX, t.centerY - worldY) <= SITE_HANDLE_RADIUS + 3
+        );
+        if (site) {
+          draggedSiteRef.current = { id: site.id, moved: false, x: site.centerX, y: site.centerY };
+          return;
+        }
+      }
+
       setIsPanning(true);
       setLastPanPos({
         x: e.clientX - rect.left,
@@ -176,9 +627,31 @@ export function MapCanvas({ territories, width, height }: MapCanvasProps) {
     }
   };
 
-  const handleMouseUp = () => {
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
     setIsPanning(false);
     setLastPanPos(null);
+
+    const site = draggedSiteRef.current;
+    draggedSiteRef.current = null;
+    if (site?.moved && onMoveSite) {
+      pressPosRef.current = null;
+      onMoveSite(site.id, site.x, site.y, true);
+      return;
+    }
+
+    // A press and release in (nearly) the same place selects the territory under the mouse
+    const press = pressPosRef.current;
+    pressPosRef.current = null;
+    const canvas = canvasRef.current;
+    if (!onSelect || !press || !canvas) return;
+    if (Math.hypot(e.clientX - press.x, e.clientY - press.y) > CLICK_TOLERANCE) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const [worldX, worldY] = screenToWorld(e.clientX - rect.left, e.clientY - rect.top);
+    const territory = territories.find(t =>
+      !isWaterTerrain(t.metadata.terrain) && isPointInPolygon([worldX, worldY], t.borderPoints)
+    );
+    onSelect(territory?.id ?? null, e.shiftKey);
   };
 
   const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
@@ -208,6 +681,29 @@ export function MapCanvas({ territories, width, height }: MapCanvasProps) {
     setPan({ x: 0, y: 0 });
   };
 
+  /**
+   * Center the view on a world point, keeping the zoom level
+   */
+  const centerOn = (worldX: number, worldY: number) => {
+    setPan({
+      x: width / 2 - worldX * zoom,
+      y: height / 2 - worldY * zoom
+    });
+  };
+
+  const realmName = (id: string) => realms.find(r => r.id === id)?.name ?? id;
+  const hoveredAlliance = hoveredRealm
+    ? diplomacy.alliances.find(a => a.memberIds.includes(getTopLiege(hoveredRealm, realms).id))
+    : undefined;
+  const hoveredWar = hoveredRealm
+    ? diplomacy.wars.find(w => [...w.attackerIds, ...w.defenderIds].includes(getTopLiege(hoveredRealm, realms).id))
+    : undefined;
+  const tradePartners = hoveredRealm
+    ? diplomacy.treaties
+      .filter(t => t.type === 'trade' && t.realmIds.includes(hoveredRealm.id))
+      .map(t => realmName(t.realmIds[0] === hoveredRealm.id ? t.realmIds[1] : t.realmIds[0]))
+    : [];
+
   return (
     <div style={{ position: 'relative' }}>
       <canvas
@@ -226,6 +722,19 @@ export function MapCanvas({ territories, width, height }: MapCanvasProps) {
         }}
       />
 
+      {showMiniMap && (
+        <MiniMap
+          territories={territories}
+          fillColors={fillColors}
+          mapWidth={width}
+          mapHeight={height}
+          outsideColor={outsideColor}
+          pan={pan}
+          zoom={zoom}
+          onNavigate={centerOn}
+        />
+      )}
+
       {/* Zoom controls */}
       <div style={{
         position: 'absolute',
@@ -308,13 +817,47 @@ export function MapCanvas({ territories, width, height }: MapCanvasProps) {
         >
           <div style={{ fontWeight: 'bold', marginBottom: '8px', fontSize: '16px', borderBottom: '1px solid rgba(255, 255, 255, 0.2)', paddingBottom: '6px' }}>
             {hoveredTerritory.name}
+            {hoveredTerritory.parentId && (
+              <div style={{ fontSize: '11px', fontWeight: 'normal', opacity: 0.7, marginTop: '2px' }}>
+                {pieceById.get(hoveredTerritory.parentId)?.parentId ? 'County' : 'Province'} of {pieceById.get(hoveredTerritory.parentId)?.name}
+              </div>
+            )}
           </div>
 
+          {hoveredRealm && (
+            <div style={{ marginBottom: '8px' }}>
+              <div style={{ fontSize: '11px', opacity: 0.7, marginBottom: '4px' }}>REALM</div>
+              <div style={{ fontSize: '12px', marginLeft: '8px' }}>
+                <div>{hoveredRealm.name}</div>
+                <div style={{ opacity: 0.7 }}>
+                  Ruled by a {hoveredRealm.rulerTitle}
+                  {hoveredRealm.capitalId === hoveredTerritory.id && ' • Capital'}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {isDiplomacy && hoveredRealm && (
+            <div style={{ marginBottom: '8px' }}>
+              <div style={{ fontSize: '11px', opacity: 0.7, marginBottom: '4px' }}>DIPLOMACY</div>
+              <div style={{ fontSize: '12px', marginLeft: '8px' }}>
+                <div>Alliance: <span style={{ color: '#64b5f6' }}>{hoveredAlliance?.name ?? 'None'}</span></div>
+                <div>War: <span style={{ color: '#ef5350' }}>{hoveredWar?.name ?? 'At peace'}</span></div>
+                <div>Trade: <span style={{ color: '#ffd54f' }}>{tradePartners.length > 0 ? tradePartners.join(', ') : 'None'}</span></div>
+              </div>
+            </div>
+          )}
+
           <div style={{ marginBottom: '8px' }}>
             <div style={{ fontSize: '11px', opacity: 0.7, marginBottom: '4px' }}>DEMOGRAPHICS</div>
             <div style={{ fontSize: '12px', marginLeft: '8px' }}>
               <div>Population: <span style={{ color: '#4fc3f7' }}>{hoveredTerritory.metadata.population.toLocaleString()}</span></div>
-              <div>Culture: <span style={{ color: '#81c784' }}>{hoveredTerritory.metadata.culture}</span></div>
+              <div>
+                Culture: <span style={{ color: '#81c784' }}>{hoveredTerritory.metadata.culture}</span>
+                {hoveredTerritory.metadata.minorityCulture && (
+                  <span style={{ opacity: 0.7 }}> / {hoveredTerritory.metadata.minorityCulture}</span>
+                )}
+              </div>
               <div>Development: <span style={{ color: '#ffb74d' }}>{hoveredTerritory.metadata.development}%</span></div>
             </div>
           </div>
@@ -323,6 +866,9 @@ export function MapCanvas({ territories, width, height }: MapCanvasProps) {
             <div style={{ fontSize: '11px', opacity: 0.7, marginBottom: '4px' }}>TERRAIN</div>
             <div style={{ fontSize: '12px', marginLeft: '8px', textTransform: 'capitalize' }}>
               <span style={{ color: '#a5d6a7' }}>{hoveredTerritory.metadata.terrain}</span>
+              {hoveredTerritory.metadata.riverine && (
+                <span style={{ color: '#64b5f6', marginLeft: '8px' }}>river</span>
+              )}
               {hoveredTerritory.area && (
                 <span style={{ opacity: 0.7, marginLeft: '8px' }}>
                   ({Math.round(hoveredTerritory.area).toLocaleString()} km²)
@@ -331,6 +877,16 @@ export function MapCanvas({ territories, width, height }: MapCanvasProps) {
             </div>
           </div>
 
+          {showTrade && (
+            <div style={{ marginBottom: '8px' }}>
+              <div style={{ fontSize: '11px', opacity: 0.7, marginBottom: '4px' }}>TRADE</div>
+              <div style={{ fontSize: '12px', marginLeft: '8px' }}>
+                <div>Income: <span style={{ color: '#ffd54f' }}>{trade.income[hoveredTerritory.id] ?? 0}</span></div>
+                <div>Goods handled: <span style={{ color: '#4fc3f7' }}>{trade.throughput[hoveredTerritory.id] ?? 0}</span></div>
+              </div>
+            </div>
+          )}
+
           <div>
             <div style={{ fontSize: '11px', opacity: 0.7, marginBottom: '4px' }}>RESOURCES</div>
             <div style={{ fontSize: '12px', marginLeft: '8px' }}>
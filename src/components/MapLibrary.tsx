@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { LibraryEntry } from '../types/Library';
+
+interface MapLibraryProps {
+  entries: LibraryEntry[];
+  onSave: (name: string) => void;
+  onLoad: (entry: LibraryEntry) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const smallButton: React.CSSProperties = {
+  padding: '2px 8px',
+  fontSize: '0.75rem',
+  borderRadius: '4px',
+  border: '1px solid #ccc',
+  background: '#fff',
+  cursor: 'pointer'
+};
+
+/**
+ * Saved maps with thumbnails, plus a form to save the current one
+ *
+ * Architecture decisions:
+ * - Storage lives in utils/mapLibrary; this component only reports actions,
+ *   so the App decides what "load" means for the rest of its state
+ * - Renaming happens inline: Enter saves, Escape cancels
+ */
+export function MapLibrary({ entries, onSave, onLoad, onRename, onDuplicate, onDelete }: MapLibraryProps) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const save = () => {
+    const name = newName.trim() || `Map ${entries.length + 1}`;
+    onSave(name);
+    setNewName('');
+  };
+
+  const finishRename = () => {
+    if (editingId && editName.trim()) onRename(editingId, editName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          placeholder="Name for the current map"
+          style={{ flex: 1, padding: '6px 10px', borderRadius: '6px', border: '2px solid #ddd', fontSize: '14px' }}
+        />
+        <button onClick={save} className="btn btn-secondary">Save</button>
+      </div>
+
+      {entries.length === 0 && (
+        <div style={{ fontSize: '0.85rem', color: '#666' }}>No saved maps yet</div>
+      )}
+
+      <div className="territory-list">
+        {entries.map(entry => (
+          <div key={entry.id} className="territory-item">
+            {entry.thumbnail ? (
+              <img
+                src={entry.thumbnail}
+                alt=""
+                style={{ width: '80px', borderRadius: '4px', border: '1px solid #ccc', cursor: 'pointer' }}
+                onClick={() => onLoad(entry)}
+              />
+            ) : (
+              <div style={{ width: '80px', height: '53px', borderRadius: '4px', background: '#eee' }} />
+            )}
+            <div style={{ flex: 1 }}>
+              {editingId === entry.id ? (
+                <input
+                  type="text"
+                  value={editName}
+                  autoFocus
+                  onChange={(e) => setEditName(e.target.value)}
+                  onBlur={finishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  style={{ width: '100%', padding: '2px 6px', fontSize: '14px' }}
+                />
+              ) : (
+                <div className="territory-name">{entry.name}</div>
+              )}
+              <div style={{ fontSize: '0.75rem', color: '#666', marginTop: '2px' }}>
+                Saved {new Date(entry.createdAt).toLocaleString()}
+                {entry.updatedAt !== entry.createdAt && ` • changed ${new Date(entry.updatedAt).toLocaleString()}`}
+                {entry.data.kind === 'document' && ' • full copy'}
+              </div>
+              <div style={{ display: 'flex', gap: '4px', marginTop: '4px' }}>
+                <button style={smallButton} onClick={() => onLoad(entry)}>Load</button>
+                <button
+                  style={smallButton}
+                  onClick={() => {
+                    setEditingId(entry.id);
+                    setEditName(entry.name);
+                  }}
+                >
+                  Rename
+                </button>
+                <button style={smallButton} onClick={() => onDuplicate(entry.id)}>Duplicate</button>
+                <button
+                  style={smallButton}
+                  onClick={() => confirm(`Delete "${entry.name}"?`) && onDelete(entry.id)}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
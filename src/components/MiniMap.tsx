@@ -0,0 +1,132 @@
+import { useEffect, useRef, useState } from 'react';
+import { Territory } from '../types/Territory';
+
+interface MiniMapProps {
+  territories: Territory[];
+  // Fill color per territory id in the active map mode
+  fillColors: Map<string, string>;
+  // Size of the full map in world units
+  mapWidth: number;
+  mapHeight: number;
+  // Fill behind the territories, for shaped maps (none when null)
+  outsideColor?: string | null;
+  pan: { x: number; y: number };
+  zoom: number;
+  // Called with the world point the main view should center on
+  onNavigate: (worldX: number, worldY: number) => void;
+  // Width of the mini-map in pixels; height follows the map's aspect ratio
+  size?: number;
+}
+
+/**
+ * Overview of the whole map with the main view's viewport as a rectangle
+ *
+ * Architecture decisions:
+ * - Draws from the same fill colors as the main canvas, so it follows the map mode
+ * - Keeps no view state of its own: pan and zoom come from MapCanvas,
+ *   and clicks or drags report world points back through onNavigate
+ */
+export function MiniMap({
+  territories,
+  fillColors,
+  mapWidth,
+  mapHeight,
+  outsideColor = null,
+  pan,
+  zoom,
+  onNavigate,
+  size = 180
+}: MiniMapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const scale = size / mapWidth;
+  const height = Math.round(mapHeight * scale);
+
+  /**
+   * Draw the territories and the viewport rectangle
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, size, height);
+    ctx.save();
+    ctx.scale(scale, scale);
+
+    if (outsideColor) {
+      ctx.fillStyle = outsideColor;
+      ctx.fillRect(0, 0, mapWidth, mapHeight);
+    }
+
+    territories.forEach(territory => {
+      ctx.beginPath();
+      territory.borderPoints.forEach((point, index) => {
+        if (index === 0) {
+          ctx.moveTo(point[0], point[1]);
+        } else {
+          ctx.lineTo(point[0], point[1]);
+        }
+      });
+      ctx.closePath();
+      const fill = fillColors.get(territory.id) ?? territory.color;
+      ctx.fillStyle = fill;
+      ctx.fill();
+      // Stroke in the fill color to close hairline gaps between cells
+      ctx.strokeStyle = fill;
+      ctx.lineWidth = 1 / scale;
+      ctx.stroke();
+    });
+
+    // Visible part of the map in world coordinates
+    const viewX = -pan.x / zoom;
+    const viewY = -pan.y / zoom;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.fillRect(viewX, viewY, mapWidth / zoom, mapHeight / zoom);
+    ctx.strokeStyle = '#d32f2f';
+    ctx.lineWidth = 2 / scale;
+    ctx.strokeRect(viewX, viewY, mapWidth / zoom, mapHeight / zoom);
+
+    ctx.restore();
+  }, [territories, fillColors, mapWidth, mapHeight, outsideColor, pan, zoom, scale, size, height]);
+
+  /**
+   * Report the world point under the mouse
+   */
+  const navigateTo = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    onNavigate((e.clientX - rect.left) / scale, (e.clientY - rect.top) / scale);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={size}
+      height={height}
+      onMouseDown={(e) => {
+        setIsDragging(true);
+        navigateTo(e);
+      }}
+      onMouseMove={(e) => {
+        if (isDragging) navigateTo(e);
+      }}
+      onMouseUp={() => setIsDragging(false)}
+      onMouseLeave={() => setIsDragging(false)}
+      style={{
+        position: 'absolute',
+        right: '10px',
+        bottom: '10px',
+        border: '2px solid #333',
+        borderRadius: '4px',
+        background: '#fff',
+        boxShadow: '0 2px 6px rgba(0,0,0,0.3)',
+        cursor: isDragging ? 'grabbing' : 'pointer'
+      }}
+    />
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Territory } from '../types/Territory';
+import { TerritoryChanges } from '../types/Command';
+import { CULTURES } from '../utils/cultureGenerator';
+import { MAX_SPLIT_PARTS } from '../utils/geometryEditor';
+import {
+  createDraft,
+  DraftField,
+  draftChanges,
+  EDIT_RANGES,
+  LAND_TERRAINS,
+  TerritoryDraft,
+  validateDraft
+} from '../utils/territoryEditor';
+
+interface TerritoryEditorProps {
+  // Selected territories, in selection order
+  territories: Territory[];
+  // Map seed, for re-deriving terrain colors
+  seed: number;
+  onApply: (label: string, edits: { territory: Territory; changes: TerritoryChanges }[]) => void;
+  // Shape edits: split the single selected territory, or merge the second of two into the first
+  onSplit: (parts: number) => void;
+  onMerge: () => void;
+  onClose: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  borderRadius: '6px',
+  border: '2px solid #ddd',
+  fontSize: '14px',
+  width: '100%'
+};
+
+const NUMBER_FIELDS: { field: keyof typeof EDIT_RANGES; label: string }[] = [
+  { field: 'population', label: 'Population' },
+  { field: 'development', label: 'Development' },
+  { field: 'food', label: 'Food' },
+  { field: 'gold', label: 'Gold' },
+  { field: 'military', label: 'Military' }
+];
+
+/**
+ * Side panel for editing the selected territories
+ *
+ * Architecture decisions:
+ * - Edits go through a draft and are applied together, as one undoable command
+ * - With several territories selected, only the fields filled in are changed
+ */
+export function TerritoryEditor({ territories, seed, onApply, onSplit, onMerge, onClose }: TerritoryEditorProps) {
+  const single = territories.length === 1;
+  const [draft, setDraft] = useState<TerritoryDraft>(() => createDraft(territories));
+  const [rederiveColor, setRederiveColor] = useState(true);
+  const [splitParts, setSplitParts] = useState(2);
+
+  const allLocked = territories.every(t => t.locked);
+  const anyLocked = territories.some(t => t.locked);
+  const canMerge = territories.length === 2 && !anyLocked && !!territories[0].neighbors?.includes(territories[1].id);
+
+  // Start over when the selection or the territories themselves change (e.g. after undo)
+  useEffect(() => {
+    setDraft(createDraft(territories));
+  }, [territories]);
+
+  const errors = useMemo(() => validateDraft(draft, single), [draft, single]);
+  const isValid = Object.keys(errors).length === 0;
+  const edits = useMemo(
+    () => isValid
+      ? territories
+        .map(territory => ({ territory, changes: draftChanges(territory, draft, rederiveColor, seed) }))
+        .filter(edit => Object.keys(edit.changes).length > 0)
+      : [],
+    [isValid, territories, draft, rederiveColor, seed]
+  );
+
+  const update = (field: DraftField, value: string) => setDraft(d => ({ ...d, [field]: value }));
+
+  const apply = () => {
+    if (edits.length === 0) return;
+    const changedFields = new Set(edits.flatMap(edit => Object.keys(edit.changes)));
+    const label = single && changedFields.size === 1 && changedFields.has('name')
+      ? `Renamed ${territories[0].name} to ${draft.name.trim()}`
+      : single
+        ? `Edited ${territories[0].name}`
+        : `Edited ${edits.length} territories`;
+    onApply(label, edits);
+  };
+
+  const toggleLock = (locked: boolean) => {
+    const label = `${locked ? 'Locked' : 'Unlocked'} ${single ? territories[0].name : `${territories.length} territories`}`;
+    onApply(label, territories.map(territory => ({ territory, changes: { locked: locked ? true : null } })));
+  };
+
+  const fieldError = (field: DraftField) => errors[field] && (
+    <div style={{ fontSize: '0.75rem', color: '#c62828', marginTop: '2px' }}>{errors[field]}</div>
+  );
+  const placeholder = single ? undefined : 'Mixed — leave empty to keep';
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: '20px',
+        right: '20px',
+        width: '300px',
+        maxHeight: 'calc(100vh - 40px)',
+        overflowY: 'auto',
+        background: 'rgba(255, 255, 255, 0.97)',
+        padding: '16px 20px',
+        borderRadius: '12px',
+        boxShadow: '0 8px 16px rgba(0, 0, 0, 0.3)',
+        zIndex: 1000
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+        <h3 style={{ margin: 0, color: '#1e3c72' }}>
+          {single ? territories[0].name : `${territories.length} territories`}
+        </h3>
+        <button onClick={onClose} aria-label="Close editor" style={{ border: 'none', background: 'none', fontSize: '18px', cursor: 'pointer' }}>
+          ×
+        </button>
+      </div>
+      {!single && (
+        <div style={{ fontSize: '0.75rem', color: '#666', marginBottom: '8px' }}>
+          Shift-click territories to add or remove them from the selection
+        </div>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+        {single && (
+          <label>
+            Name
+            <input type="text" value={draft.name} onChange={(e) => update('name', e.target.value)} style={inputStyle} />
+            {fieldError('name')}
+          </label>
+        )}
+
+        <label>
+          Terrain
+          <select value={draft.terrain} onChange={(e) => update('terrain', e.target.value)} style={inputStyle}>
+            {draft.terrain === '' && <option value="">Mixed</option>}
+            {LAND_TERRAINS.map(terrain => (
+              <option key={terrain} value={terrain} style={{ textTransform: 'capitalize' }}>{terrain}</option>
+            ))}
+          </select>
+          {fieldError('terrain')}
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.85rem' }}>
+          <input type="checkbox" checked={rederiveColor} onChange={(e) => setRederiveColor(e.target.checked)} />
+          Recolor when the terrain changes
+        </label>
+
+        <label>
+          Color
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <input
+              type="color"
+              value={draft.color || '#000000'}
+              onChange={(e) => update('color', e.target.value)}
+              style={{ width: '44px', height: '34px', padding: 0, border: 'none' }}
+            />
+            <input
+              type="text"
+              value={draft.color}
+              placeholder={placeholder}
+              onChange={(e) => update('color', e.target.value)}
+              style={inputStyle}
+            />
+          </div>
+          {fieldError('color')}
+        </label>
+
+        <label>
+          Culture
+          <select value={draft.culture} onChange={(e) => update('culture', e.target.value)} style={inputStyle}>
+            {draft.culture === '' && <option value="">Mixed</option>}
+            {!CULTURES.includes(draft.culture) && draft.culture !== '' && (
+              <option value={draft.culture}>{draft.culture}</option>
+            )}
+            {CULTURES.map(culture => (
+              <option key={culture} value={culture}>{culture}</option>
+            ))}
+          </select>
+          {fieldError('culture')}
+        </label>
+
+        {NUMBER_FIELDS.map(({ field, label }) => (
+          <label key={field}>
+            {label} <span style={{ fontSize: '0.75rem', color: '#666' }}>
+              ({EDIT_RANGES[field][0].toLocaleString()}–{EDIT_RANGES[field][1].toLocaleString()})
+            </span>
+            <input
+              type="number"
+              min={EDIT_RANGES[field][0]}
+              max={EDIT_RANGES[field][1]}
+              value={draft[field]}
+              placeholder={placeholder}
+              onChange={(e) => update(field, e.target.value)}
+              style={{ ...inputStyle, borderColor: errors[field] ? '#e57373' : '#ddd' }}
+            />
+            {fieldError(field)}
+          </label>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px', marginTop: '16px' }}>
+        <button onClick={apply} disabled={!isValid || edits.length === 0} className="btn btn-primary">
+          Apply
+        </button>
+        <button onClick={() => setDraft(createDraft(territories))} className="btn btn-secondary">
+          Reset
+        </button>
+      </div>
+
+      <h4 style={{ margin: '20px 0 8px', color: '#1e3c72' }}>Shape</h4>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.85rem' }}>
+          <input type="checkbox" checked={allLocked} onChange={(e) => toggleLock(e.target.checked)} />
+          Lock shape
+        </label>
+        {single && (
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <select
+              value={splitParts}
+              onChange={(e) => setSplitParts(Number(e.target.value))}
+              disabled={anyLocked}
+              style={inputStyle}
+            >
+              {Array.from({ length: MAX_SPLIT_PARTS - 1 }, (_, i) => i + 2).map(parts => (
+                <option key={parts} value={parts}>{parts} parts</option>
+              ))}
+            </select>
+            <button onClick={() => onSplit(splitParts)} disabled={anyLocked} className="btn btn-secondary">
+              Split
+            </button>
+          </div>
+        )}
+        {territories.length === 2 && (
+          <button onClick={onMerge} disabled={!canMerge} className="btn btn-secondary">
+            Merge {territories[1].name} into {territories[0].name}
+          </button>
+        )}
+        <div style={{ fontSize: '0.75rem', color: '#666' }}>
+          {anyLocked
+            ? 'Locked territories keep their shape'
+            : territories.length === 2 && !canMerge
+              ? 'Only neighboring territories can be merged'
+              : 'Turn on Edit Shapes to drag territory centers'}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useMemo, useState } from 'react';
+import { Territory, TerritoryHierarchy } from '../types/Territory';
+
+interface TerritoryTreeProps {
+  territories: Territory[];
+  // Provinces and counties; without them the list is flat
+  subdivisions?: TerritoryHierarchy;
+  // Double-click on a territory's name (provinces and counties are not renamed)
+  onRename: (id: string, currentName: string) => void;
+}
+
+interface TerritoryRowProps {
+  territory: Territory;
+  depth: number;
+  childCount: number;
+  expanded: boolean;
+  // Tree rows only; rows without children keep the space so names line up
+  onToggle?: () => void;
+  onRename?: () => void;
+}
+
+function TerritoryRow({ territory, depth, childCount, expanded, onToggle, onRename }: TerritoryRowProps) {
+  return (
+    <div className="territory-item" style={{ marginLeft: `${depth * 20}px` }}>
+      {onToggle && (childCount > 0 ? (
+        <button className="tree-toggle" onClick={onToggle} title={expanded ? 'Collapse' : 'Expand'}>
+          {expanded ? '▾' : '▸'}
+        </button>
+      ) : (
+        <span className="tree-toggle" />
+      ))}
+      <div
+        className="territory-color"
+        style={{ backgroundColor: territory.color }}
+      />
+      <div style={{ flex: 1 }}>
+        <div
+          className="territory-name"
+          title={onRename ? 'Double-click to rename' : undefined}
+          onDoubleClick={onRename}
+        >
+          {territory.name}
+        </div>
+        <div style={{ fontSize: '0.75rem', color: '#666', marginTop: '2px' }}>
+          {territory.metadata.terrain} • Pop: {(territory.metadata.population / 1000).toFixed(1)}k
+          {childCount > 0 && ` • ${childCount} ${depth === 0 ? 'provinces' : 'counties'}`}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Territory list; on subdivided maps a tree of territories, provinces and counties
+ * Branches start collapsed and open one level at a time
+ */
+export function TerritoryTree({ territories, subdivisions, onRename }: TerritoryTreeProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  // Provinces and counties by parent id
+  const children = useMemo(() => {
+    const byParent = new Map<string, Territory[]>();
+    if (!subdivisions) return byParent;
+    [...subdivisions.provinces, ...subdivisions.counties].forEach(piece => {
+      if (!piece.parentId) return;
+      byParent.set(piece.parentId, [...(byParent.get(piece.parentId) ?? []), piece]);
+    });
+    return byParent;
+  }, [subdivisions]);
+
+  const toggle = (id: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  if (!subdivisions) {
+    return (
+      <div className="territory-list">
+        {territories.map(territory => (
+          <TerritoryRow
+            key={territory.id}
+            territory={territory}
+            depth={0}
+            childCount={0}
+            expanded={false}
+            onRename={() => onRename(territory.id, territory.name)}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  const renderBranch = (territory: Territory, depth: number): JSX.Element[] => {
+    const pieces = children.get(territory.id) ?? [];
+    const isOpen = expanded.has(territory.id);
+    return [
+      <TerritoryRow
+        key={territory.id}
+        territory={territory}
+        depth={depth}
+        childCount={pieces.length}
+        expanded={isOpen}
+        onToggle={() => toggle(territory.id)}
+        onRename={depth === 0 ? () => onRename(territory.id, territory.name) : undefined}
+      />,
+      ...(isOpen ? pieces.flatMap(piece => renderBranch(piece, depth + 1)) : [])
+    ];
+  };
+
+  return (
+    <div className="territory-list territory-tree">
+      {territories.flatMap(territory => renderBranch(territory, 0))}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { GeneratedMap } from './Territory';
+import { RecipeValue, TerritoryEdit } from './MapRecipe';
+
+/**
+ * A reversible change to the map, stored as plain data so it can be saved as JSON
+ * - replace: The whole map was swapped (regenerate, import, load)
+ * - edit: Territory attributes changed; before and after hold the old and new values
+ */
+export type MapCommand =
+  | { kind: 'replace'; label: string; timestamp: string; before: GeneratedMap; after: GeneratedMap }
+  | { kind: 'edit'; label: string; timestamp: string; before: TerritoryEdit[]; after: TerritoryEdit[] };
+
+/**
+ * Undo and redo stacks
+ */
+export interface CommandHistory {
+  // Applied commands, oldest first
+  past: MapCommand[];
+  // Undone commands, next to redo first
+  future: MapCommand[];
+  // Most commands kept in past; older ones are dropped
+  limit: number;
+}
+
+/**
+ * The current map together with how it got there
+ */
+export interface MapHistoryState {
+  map: GeneratedMap;
+  history: CommandHistory;
+}
+
+/**
+ * New values for one territory, keyed by dotted path (as in TerritoryEdit)
+ */
+export type TerritoryChanges = Record<string, RecipeValue>;
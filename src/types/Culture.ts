@@ -0,0 +1,12 @@
+/**
+ * Summary of one contiguous cultural region
+ */
+export interface CultureRegion {
+  culture: string;
+  territoryIds: string[];
+  totalPopulation: number;
+  // Area-weighted centroid of the region's territory centers
+  centroid: [number, number];
+  // Territories where this culture is the minority (mixed borderlands)
+  borderlandIds: string[];
+}
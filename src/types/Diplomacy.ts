@@ -0,0 +1,62 @@
+/**
+ * How one realm stands toward another
+ * - self: The same realm
+ * - overlord: Same top liege (a vassal, its liege, or fellow vassals)
+ * - allied: Members of the same alliance bloc
+ * - war: On opposite sides of an active war
+ * - truce: Fought recently and may not declare war yet
+ * - friendly / neutral / hostile: From the relation score alone
+ */
+export type DiplomaticStance =
+  | 'self'
+  | 'overlord'
+  | 'allied'
+  | 'war'
+  | 'truce'
+  | 'friendly'
+  | 'neutral'
+  | 'hostile';
+
+/**
+ * Independent realms that have sworn to defend one another
+ */
+export interface Alliance {
+  id: string;
+  name: string;
+  // Most populous member
+  leaderId: string;
+  memberIds: string[];
+}
+
+/**
+ * An active war between two sides; allies join the side they are sworn to
+ */
+export interface War {
+  id: string;
+  name: string;
+  attackerIds: string[];
+  defenderIds: string[];
+}
+
+/**
+ * A bilateral agreement between two realms
+ * - truce: Recent enemies who may not fight again before `until`
+ * - trade: Partners whose resources complement each other
+ */
+export interface Treaty {
+  type: 'truce' | 'trade';
+  realmIds: [string, string];
+  // Last year of a truce
+  until?: number;
+}
+
+/**
+ * Diplomatic state of every realm toward every other
+ */
+export interface DiplomaticState {
+  // Realm id → realm id → relation score (-100 hostile to 100 friendly), symmetric
+  relations: Record<string, Record<string, number>>;
+  alliances: Alliance[];
+  wars: War[];
+  treaties: Treaty[];
+}
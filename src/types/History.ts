@@ -0,0 +1,77 @@
+import { Realm } from './Realm';
+
+/**
+ * Kinds of historical event
+ * - conquest: A realm seizes a territory from a neighbor
+ * - annexation: A realm loses its last territory and falls
+ * - partition: A ruler dies and the realm is split between heirs
+ * - independence: A vassal throws off its liege
+ * - famine: Crops fail in a poorly fed territory
+ * - plague: Sickness sweeps through a territory and its neighbors
+ */
+export type HistoryEventType =
+  | 'conquest'
+  | 'annexation'
+  | 'partition'
+  | 'independence'
+  | 'famine'
+  | 'plague';
+
+/**
+ * A single entry in the timeline
+ */
+export interface HistoryEvent {
+  year: number;
+  type: HistoryEventType;
+  // Human-readable summary (e.g. "The Kingdom of Ashford seizes Thornbury from the Duchy of Elmswick")
+  description: string;
+  realmIds: string[];
+  territoryIds: string[];
+}
+
+/**
+ * Realm as it was founded; holdings, capital and liege change over time
+ * and are recorded in the yearly snapshots instead
+ */
+export interface HistoricalRealm extends Omit<Realm, 'territoryIds' | 'capitalId' | 'liegeId'> {
+  foundedYear: number;
+  // Year the realm lost its last territory
+  fallenYear?: number;
+}
+
+/**
+ * Political and demographic state at the end of one year
+ */
+export interface HistorySnapshot {
+  year: number;
+  // Territory id → realm id
+  owners: Record<string, string>;
+  // Realm id → capital territory id (standing realms only)
+  capitals: Record<string, string>;
+  // Vassal realm id → liege realm id
+  lieges: Record<string, string>;
+  // Territory id → population
+  populations: Record<string, number>;
+}
+
+/**
+ * Options for the historical simulation
+ */
+export interface HistoryConfig {
+  // Years to simulate
+  years: number;
+  // Calendar year of the generated map (default: 1000)
+  startYear?: number;
+}
+
+/**
+ * Output of the historical simulation
+ * snapshots[0] is the generated map; snapshots[k] is the state k years later
+ */
+export interface History {
+  startYear: number;
+  endYear: number;
+  realms: HistoricalRealm[];
+  events: HistoryEvent[];
+  snapshots: HistorySnapshot[];
+}
@@ -0,0 +1,38 @@
+import { MapConfig } from './Territory';
+import { MapDocument } from './MapDocument';
+import { MapRecipe } from './MapRecipe';
+
+/**
+ * How a saved map is stored
+ * - recipe: Config, seed and edits (a few hundred bytes), when the seed reproduces the map
+ * - document: The full map document otherwise (e.g. maps imported from older files)
+ */
+export type SavedMapData =
+  | { kind: 'recipe'; recipe: MapRecipe }
+  | { kind: 'document'; document: MapDocument };
+
+/**
+ * A map in the browser library
+ */
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  // ISO timestamps
+  createdAt: string;
+  updatedAt: string;
+  // Small PNG preview as a data URL
+  thumbnail?: string;
+  data: SavedMapData;
+}
+
+/**
+ * Named generation settings that pre-fill the controls
+ * Width and height are left to the app; the seed stays random unless set
+ */
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  config: Pick<MapConfig, 'territoryCount'> & Partial<Pick<MapConfig, 'seed' | 'seaLevel' | 'climate' | 'shape' | 'subdivisions'>>;
+  // Shipped with the app; cannot be deleted
+  builtIn?: boolean;
+}
@@ -0,0 +1,27 @@
+import { GeneratedMap } from './Territory';
+
+/**
+ * A saved map: the generated layers plus what is needed to read them back
+ *
+ * Versions:
+ * - 0: Bare Territory[] array (exports before the document format)
+ * - 1: This document
+ */
+export interface MapDocument extends GeneratedMap {
+  format: 'hierophant-map';
+  // Document schema version, bumped whenever saved data changes shape
+  version: number;
+  // Generator that produced the map (see GENERATOR_VERSION)
+  generatorVersion: string;
+  // ISO timestamp of when the document was written
+  savedAt: string;
+}
+
+/**
+ * One problem found while validating a map document
+ */
+export interface MapDocumentIssue {
+  // Location in the document, e.g. "territories[3].metadata.population"
+  path: string;
+  message: string;
+}
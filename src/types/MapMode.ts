@@ -0,0 +1,69 @@
+import { Territory } from './Territory';
+
+/**
+ * Modes drawn by the canvas itself rather than from a registered choropleth mode
+ */
+export type BuiltInMapMode = 'terrain' | 'political' | 'diplomacy';
+
+/**
+ * How territories are colored
+ * - terrain: Terrain-tinted territory colors
+ * - political: Realm colors with realm borders drawn thicker than territory borders
+ * - diplomacy: Every realm colored by its stance toward the hovered territory's realm
+ * - Any other id: A registered choropleth mode (population, density, development,
+ *   food, gold, military, culture, or one added with registerMapMode)
+ * The (string & {}) branch keeps the built-in ids suggested instead of widening to string.
+ */
+export type MapMode = BuiltInMapMode | (string & {});
+
+/**
+ * Colors from low to high, interpolated evenly (hex colors; a single color is used flat)
+ */
+export type ColorRamp = string[];
+
+/**
+ * Map mode that colors territories along a color ramp by a number
+ */
+export interface NumericMapMode {
+  kind: 'numeric';
+  id: string;
+  label: string;
+  value: (territory: Territory) => number;
+  ramp: ColorRamp;
+  // Fixed value range; defaults to the range of the land territories shown
+  domain?: [number, number];
+  // Legend label for a value (default: rounded, with thousands separators)
+  format?: (value: number) => string;
+}
+
+/**
+ * Map mode that gives each category its own color
+ */
+export interface CategoricalMapMode {
+  kind: 'categorical';
+  id: string;
+  label: string;
+  category: (territory: Territory) => string;
+  // Colors for known categories; others get a generated palette color
+  colors?: Record<string, string>;
+}
+
+/**
+ * A data-driven (choropleth) map mode
+ */
+export type ChoroplethMode = NumericMapMode | CategoricalMapMode;
+
+/**
+ * Legend for the territories currently shown
+ */
+export type ChoroplethLegend =
+  | { kind: 'numeric'; label: string; ramp: ColorRamp; min: string; max: string }
+  | { kind: 'categorical'; label: string; entries: { label: string; color: string }[] };
+
+/**
+ * Fill color per territory plus the matching legend
+ */
+export interface Choropleth {
+  colors: Map<string, string>;
+  legend: ChoroplethLegend;
+}
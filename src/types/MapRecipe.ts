@@ -0,0 +1,27 @@
+import { MapConfig } from './Territory';
+
+/**
+ * Values a recipe can set; null removes an optional field
+ */
+export type RecipeValue = string | number | boolean | null;
+
+/**
+ * Manual changes to one territory
+ */
+export interface TerritoryEdit {
+  id: string;
+  // New values keyed by dotted path, e.g. "name" or "metadata.resources.gold"
+  changes: Record<string, RecipeValue>;
+}
+
+/**
+ * Everything needed to rebuild a map: generation is deterministic given config and seed,
+ * so only manual edits are stored on top
+ */
+export interface MapRecipe {
+  // Generator that produced the map (see GENERATOR_VERSION)
+  generatorVersion: string;
+  // Configuration with the seed resolved
+  config: MapConfig;
+  edits: TerritoryEdit[];
+}
@@ -0,0 +1,31 @@
+/**
+ * Kinds of realm
+ * - kingdom: Large realm, may hold vassals
+ * - duchy: Smaller realm, often a vassal of a neighboring kingdom
+ * - free-city: A single wealthy territory governing itself
+ */
+export type RealmType = 'kingdom' | 'duchy' | 'free-city';
+
+/**
+ * Heraldic colors: a color (field) and a metal (charge)
+ */
+export interface HeraldicColors {
+  primary: string;
+  secondary: string;
+}
+
+/**
+ * A political realm made of contiguous territories
+ */
+export interface Realm {
+  id: string;
+  name: string;
+  type: RealmType;
+  capitalId: string;
+  // Title of the ruler, in the capital's culture (e.g. "King", "Jarl", "Doge")
+  rulerTitle: string;
+  territoryIds: string[];
+  colors: HeraldicColors;
+  // Realm this one owes fealty to
+  liegeId?: string;
+}
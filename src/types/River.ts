@@ -0,0 +1,15 @@
+/**
+ * A river traced from highlands down to water along Voronoi edges
+ */
+export interface River {
+  id: string;
+  name: string;
+  // Polyline from source to mouth, following territory borders
+  points: [number, number][];
+  // Width at each point (same length as points), growing downstream
+  widths: number[];
+  // Territories the river borders, from source to mouth
+  territoryIds: string[];
+  // Where the river ends
+  mouth: 'water' | 'river' | 'edge';
+}
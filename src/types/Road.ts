@@ -0,0 +1,30 @@
+/**
+ * Road quality tiers
+ * - major: Roads linking the most developed territories
+ * - minor: Tracks connecting everything else to the network
+ */
+export type RoadQuality = 'major' | 'minor';
+
+/**
+ * A road between the centers of two neighboring territories
+ */
+export interface RoadSegment {
+  id: string;
+  from: string;
+  to: string;
+  quality: RoadQuality;
+  // Polyline: center → midpoint of the shared border → center
+  points: [number, number][];
+  length: number;
+  // Travel cost after terrain weighting
+  cost: number;
+}
+
+/**
+ * Serializable road graph
+ */
+export interface RoadNetwork {
+  // Territories reached by at least one road
+  nodes: string[];
+  segments: RoadSegment[];
+}
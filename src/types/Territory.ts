@@ -1,5 +1,10 @@
+import { River } from './River';
+import { RoadNetwork } from './Road';
+import { Realm } from './Realm';
+
 /**
  * Terrain types for territories
+ * OCEAN, SEA and LAKE are non-playable water cells
  */
 export enum TerrainType {
   PLAINS = 'plains',
@@ -7,7 +12,15 @@ export enum TerrainType {
   MOUNTAINS = 'mountains',
   DESERT = 'desert',
   HILLS = 'hills',
-  COASTAL = 'coastal'
+  COASTAL = 'coastal', // Land adjacent to water
+  TUNDRA = 'tundra',
+  MARSH = 'marsh',
+  STEPPE = 'steppe',
+  JUNGLE = 'jungle',
+  FARMLAND = 'farmland',
+  OCEAN = 'ocean',
+  SEA = 'sea',
+  LAKE = 'lake'
 }
 
 /**
@@ -23,11 +36,35 @@ export interface TerritoryResources {
  * Territory metadata for Phase 2
  */
 export interface TerritoryMetadata {
-  population: number;
+  population: number;  // 0 for water
   terrain: TerrainType;
   resources: TerritoryResources;
   culture: string;
-  development: number; // 1-100, represents infrastructure/civilization level
+  minorityCulture?: string; // Second culture in mixed borderlands
+  development: number; // 1-100, represents infrastructure/civilization level (0 for water)
+  elevation: number;   // 0-1, sampled from the map-wide elevation field
+  moisture: number;    // 0-1, sampled from the map-wide moisture field (rainfall)
+  temperature: number; // 0-1, from latitude and elevation
+  riverine?: boolean;  // Borders at least one river
+}
+
+/**
+ * A straight piece of border shared by two territories
+ */
+export interface BorderSegment {
+  start: [number, number];
+  end: [number, number];
+  length: number;
+}
+
+/**
+ * Border shared with a single neighboring territory
+ */
+export interface TerritoryBorder {
+  neighborId: string;
+  segments: BorderSegment[];
+  // Total length of all shared segments
+  length: number;
 }
 
 /**
@@ -46,8 +83,68 @@ export interface Territory {
   metadata: TerritoryMetadata;
   // Calculated area (for realistic population density)
   area?: number;
+  // Phase 3: Adjacency (absent on maps saved before adjacency was tracked)
+  neighbors?: string[];
+  borders?: TerritoryBorder[];
+  // Shape edits (moving, merging, splitting) leave this territory untouched
+  locked?: boolean;
+  // Provinces and counties: the territory one level up
+  parentId?: string;
+}
+
+/**
+ * A single border between two territories, listed once per pair
+ */
+export interface AdjacencyEdge {
+  source: string;
+  target: string;
+  segments: BorderSegment[];
+  length: number;
+}
+
+/**
+ * Map-level adjacency graph
+ * Answers "who borders whom" without comparing polygons
+ */
+export interface AdjacencyGraph {
+  // Neighbor ids keyed by territory id
+  neighbors: Record<string, string[]>;
+  edges: AdjacencyEdge[];
+}
+
+/**
+ * Climate settings
+ * The band decides which latitudes the map spans, top to bottom
+ * - northern: 65°N to 30°N (temperate to cold north)
+ * - equatorial: 25°N to 25°S (hot throughout)
+ * - southern: 30°S to 65°S (temperate to cold south)
+ */
+export interface ClimateConfig {
+  band: 'northern' | 'equatorial' | 'southern';
+  // Added to every temperature (-1 to 1), default 0
+  temperatureOffset?: number;
 }
 
+/**
+ * Outline the territories are generated inside
+ * - rectangle: the whole map
+ * - circle / ellipse: centered, filling the map
+ * - continent: one irregular landmass grown from the seed
+ * - archipelago: several irregular islands grown from the seed
+ * - polygon: an outline in map units
+ * - mask: a bitmap stretched over the map, one string per row, '1' inside
+ * Outside the outline is drawn as sea or left empty (void)
+ */
+export type MapShape = { outside?: 'sea' | 'void' } & (
+  | { kind: 'rectangle' }
+  | { kind: 'circle' }
+  | { kind: 'ellipse' }
+  | { kind: 'continent' }
+  | { kind: 'archipelago'; islands?: number }
+  | { kind: 'polygon'; points: [number, number][] }
+  | { kind: 'mask'; rows: string[] }
+);
+
 /**
  * Configuration for map generation
  */
@@ -56,4 +153,44 @@ export interface MapConfig {
   height: number;
   territoryCount: number;
   seed?: number;
+  // 0-1, cells with elevation below this become water (default 0.3)
+  seaLevel?: number;
+  // Latitude band and temperature shift (default northern hemisphere)
+  climate?: ClimateConfig;
+  // Outline of the mapped area (default: the whole rectangle)
+  shape?: MapShape;
+  // Split each land territory into provinces, and each province into counties
+  subdivisions?: SubdivisionConfig;
+}
+
+/**
+ * Administrative levels below the generated territories
+ * Counts are per parent: provinces per territory, counties per province
+ */
+export interface SubdivisionConfig {
+  provinces: number;
+  counties: number;
+}
+
+/**
+ * Provinces and counties, each inside its parent (parentId)
+ * Population sums up to the parent; development and resources average up by area
+ */
+export interface TerritoryHierarchy {
+  provinces: Territory[];
+  counties: Territory[];
+}
+
+/**
+ * Everything produced by a single map generation run
+ */
+export interface GeneratedMap {
+  // Configuration used, with the seed resolved
+  config: MapConfig;
+  territories: Territory[];
+  rivers: River[];
+  roads: RoadNetwork;
+  realms: Realm[];
+  // Present when config.subdivisions is set
+  subdivisions?: TerritoryHierarchy;
 }
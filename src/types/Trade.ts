@@ -0,0 +1,47 @@
+import { TerritoryResources } from './Territory';
+
+/**
+ * Goods that move along trade routes, one per territory resource
+ */
+export type TradeGood = keyof TerritoryResources;
+
+/**
+ * Shipment of one good from a surplus territory to a deficit territory
+ */
+export interface TradeRoute {
+  id: string;
+  good: TradeGood;
+  from: string;
+  to: string;
+  // Territory ids from exporter to importer
+  path: string[];
+  // Polyline through territory centers and border crossings
+  points: [number, number][];
+  // Units shipped per year
+  volume: number;
+  // Travel cost after distance and terrain weighting
+  cost: number;
+}
+
+/**
+ * Combined volume of every route crossing one border
+ */
+export interface TradeFlow {
+  from: string;
+  to: string;
+  volume: number;
+  // Polyline: center → border crossing → center
+  points: [number, number][];
+}
+
+/**
+ * Serializable result of the trade computation
+ */
+export interface TradeNetwork {
+  routes: TradeRoute[];
+  flows: TradeFlow[];
+  // Territory id → yearly trade income (export sales, import margins and transit tolls)
+  income: Record<string, number>;
+  // Territory id → total volume shipped from, to or through it
+  throughput: Record<string, number>;
+}
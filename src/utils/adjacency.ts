@@ -0,0 +1,44 @@
+import { Territory, AdjacencyGraph, AdjacencyEdge } from '../types/Territory';
+
+/**
+ * Adjacency utilities
+ * Builds the map-level "who borders whom" graph from the borders stored on each territory
+ */
+
+/**
+ * Build the adjacency graph for a set of territories
+ * Territories without border data (older saved maps) appear with no neighbors
+ * @param territories - Territories produced by generateMap
+ * @returns Neighbor lists and one edge per bordering pair
+ */
+export function buildAdjacencyGraph(territories: Territory[]): AdjacencyGraph {
+  const ids = new Set(territories.map(t => t.id));
+  const neighbors: Record<string, string[]> = {};
+  const edges: AdjacencyEdge[] = [];
+
+  territories.forEach(territory => {
+    const borders = (territory.borders ?? []).filter(b => ids.has(b.neighborId));
+    neighbors[territory.id] = borders.map(b => b.neighborId);
+
+    borders.forEach(border => {
+      // Each pair is stored on both territories; keep it once
+      if (territory.id < border.neighborId) {
+        edges.push({
+          source: territory.id,
+          target: border.neighborId,
+          segments: border.segments,
+          length: border.length
+        });
+      }
+    });
+  });
+
+  return { neighbors, edges };
+}
+
+/**
+ * Check whether two territories share a border
+ */
+export function areAdjacent(graph: AdjacencyGraph, a: string, b: string): boolean {
+  return graph.neighbors[a]?.includes(b) ?? false;
+}
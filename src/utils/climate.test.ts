@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { ClimateConfig, TerrainType } from '../types/Territory';
+import { classifyBiome, computeLatitude, computeTemperature } from './climate';
+
+/**
+ * Every biome a band produces on lowland, sampled down the map and across rainfall
+ */
+function bandBiomes(band: ClimateConfig['band']): Set<TerrainType> {
+  const biomes = new Set<TerrainType>();
+  for (let y = 0; y <= 100; y++) {
+    const temperature = computeTemperature(computeLatitude(y, 100, { band }), 0.5, { band });
+    for (let rainfall = 0; rainfall <= 1; rainfall += 0.02) {
+      biomes.add(classifyBiome(temperature, rainfall, 0.5));
+    }
+  }
+  return biomes;
+}
+
+describe('climate bands', () => {
+  it('run from polar to hot in the north and south', () => {
+    (['northern', 'southern'] as const).forEach(band => {
+      const biomes = bandBiomes(band);
+      [TerrainType.TUNDRA, TerrainType.FOREST, TerrainType.PLAINS, TerrainType.STEPPE, TerrainType.DESERT]
+        .forEach(biome => expect(biomes, `${band} ${biome}`).toContain(biome));
+    });
+  });
+
+  it('stay hot at the equator', () => {
+    const biomes = bandBiomes('equatorial');
+    [TerrainType.DESERT, TerrainType.JUNGLE, TerrainType.PLAINS].forEach(biome => expect(biomes).toContain(biome));
+    expect(biomes).not.toContain(TerrainType.TUNDRA);
+    expect(biomes).not.toContain(TerrainType.FOREST);
+  });
+
+  it('put the cold edge at the pole', () => {
+    expect(computeTemperature(computeLatitude(0, 100), 0.5)).toBeLessThan(0.2);
+    expect(computeTemperature(computeLatitude(100, 100), 0.5)).toBeGreaterThanOrEqual(0.7);
+    expect(computeTemperature(computeLatitude(0, 100, { band: 'southern' }), 0.5, { band: 'southern' }))
+      .toBeGreaterThanOrEqual(0.7);
+  });
+
+  it('cool with height and the temperature offset', () => {
+    expect(computeTemperature(40, 0.9)).toBeLessThan(computeTemperature(40, 0.5));
+    expect(computeTemperature(40, 0.5, { band: 'northern', temperatureOffset: -0.2 }))
+      .toBeCloseTo(computeTemperature(40, 0.5) - 0.2, 2);
+  });
+});
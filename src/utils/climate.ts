@@ -0,0 +1,91 @@
+import { TerrainType, ClimateConfig } from '../types/Territory';
+
+/**
+ * Climate model
+ * Latitude gives a base temperature, elevation cools it, and the moisture field
+ * acts as rainfall. Biomes are then assigned Whittaker-style from temperature and rainfall.
+ */
+
+/**
+ * Latitude span (degrees, north positive) covered by each climate band, top to bottom
+ */
+const BAND_LATITUDES: Record<ClimateConfig['band'], [number, number]> = {
+  northern: [65, 30],
+  equatorial: [25, -25],
+  southern: [-30, -65]
+};
+
+export const DEFAULT_CLIMATE: ClimateConfig = { band: 'northern' };
+
+/**
+ * Latitude at a vertical map position
+ * @returns Degrees, north positive
+ */
+export function computeLatitude(y: number, height: number, climate: ClimateConfig = DEFAULT_CLIMATE): number {
+  const [top, bottom] = BAND_LATITUDES[climate.band];
+  return top + (bottom - top) * (y / height);
+}
+
+/**
+ * Temperature from latitude and elevation
+ * @returns 0 (polar) to 1 (equatorial lowland)
+ */
+export function computeTemperature(
+  latitude: number,
+  elevation: number,
+  climate: ClimateConfig = DEFAULT_CLIMATE
+): number {
+  // Mild in the tropics, steep toward the poles: 30° is still hot, 65° polar
+  const base = 1 - (Math.abs(latitude) / 70) ** 2;
+
+  // Highlands are colder
+  const lapse = Math.max(0, elevation - 0.5) * 0.6;
+
+  const temperature = base - lapse + (climate.temperatureOffset ?? 0);
+  return Math.round(Math.min(Math.max(temperature, 0), 1) * 1000) / 1000;
+}
+
+/**
+ * Assign a land biome from temperature and rainfall
+ * Relief (mountains, hills) takes precedence over climate
+ * @param riverine - Rivers turn suitable plains into farmland
+ */
+export function classifyBiome(
+  temperature: number,
+  rainfall: number,
+  elevation: number,
+  riverine: boolean = false
+): TerrainType {
+  if (elevation > 0.72) return TerrainType.MOUNTAINS;
+  if (elevation > 0.6) return TerrainType.HILLS;
+
+  // Waterlogged lowland
+  const isMarsh = elevation < 0.4 && rainfall > 0.78;
+
+  // Polar
+  if (temperature < 0.2) {
+    return TerrainType.TUNDRA;
+  }
+
+  // Cool
+  if (temperature < 0.4) {
+    if (rainfall < 0.3) return TerrainType.STEPPE;
+    if (isMarsh) return TerrainType.MARSH;
+    return TerrainType.FOREST;
+  }
+
+  // Temperate
+  if (temperature < 0.7) {
+    if (rainfall < 0.25) return TerrainType.STEPPE;
+    if (rainfall < 0.62) return riverine ? TerrainType.FARMLAND : TerrainType.PLAINS;
+    if (isMarsh) return TerrainType.MARSH;
+    return TerrainType.FOREST;
+  }
+
+  // Hot
+  if (rainfall < 0.35) return TerrainType.DESERT;
+  if (rainfall < 0.5) return TerrainType.STEPPE;
+  if (rainfall < 0.68) return riverine ? TerrainType.FARMLAND : TerrainType.PLAINS;
+  if (isMarsh) return TerrainType.MARSH;
+  return TerrainType.JUNGLE;
+}
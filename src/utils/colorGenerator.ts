@@ -86,9 +86,57 @@ export function generateTerrainColor(terrain: TerrainType, index: number, seed:
       break;
 
     case TerrainType.COASTAL:
-      baseHue = 200 + (index * 10) % 40; // Blue
-      saturation = 50 + (seed % 20);
-      lightness = 50 + (index * 5) % 15;
+      baseHue = 45 + (index * 10) % 25; // Sandy
+      saturation = 35 + (seed % 15);
+      lightness = 60 + (index * 5) % 12;
+      break;
+
+    case TerrainType.TUNDRA:
+      baseHue = 190 + (index * 10) % 20; // Pale blue-grey
+      saturation = 10 + (seed % 10);
+      lightness = 75 + (index * 3) % 10;
+      break;
+
+    case TerrainType.MARSH:
+      baseHue = 85 + (index * 10) % 25; // Olive
+      saturation = 25 + (seed % 10);
+      lightness = 38 + (index * 5) % 10;
+      break;
+
+    case TerrainType.STEPPE:
+      baseHue = 50 + (index * 10) % 20; // Straw
+      saturation = 40 + (seed % 15);
+      lightness = 62 + (index * 3) % 10;
+      break;
+
+    case TerrainType.JUNGLE:
+      baseHue = 130 + (index * 10) % 20; // Deep green
+      saturation = 55 + (seed % 15);
+      lightness = 26 + (index * 3) % 10;
+      break;
+
+    case TerrainType.FARMLAND:
+      baseHue = 65 + (index * 10) % 20; // Golden green
+      saturation = 55 + (seed % 15);
+      lightness = 52 + (index * 5) % 10;
+      break;
+
+    case TerrainType.OCEAN:
+      baseHue = 210 + (index * 3) % 10; // Deep blue
+      saturation = 45 + (seed % 10);
+      lightness = 34 + (index * 2) % 6;
+      break;
+
+    case TerrainType.SEA:
+      baseHue = 205 + (index * 3) % 10; // Blue
+      saturation = 45 + (seed % 10);
+      lightness = 42 + (index * 2) % 6;
+      break;
+
+    case TerrainType.LAKE:
+      baseHue = 195 + (index * 3) % 10; // Light blue
+      saturation = 50 + (seed % 10);
+      lightness = 52 + (index * 2) % 6;
       break;
 
     default:
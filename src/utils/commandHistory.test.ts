@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { MapHistoryState } from '../types/Command';
+import { generateWorld } from './mapGenerator';
+import {
+  createCommandHistory,
+  editTerritoryCommand,
+  executeCommand,
+  jumpTo,
+  redo,
+  replaceMapCommand,
+  undo
+} from './commandHistory';
+
+const map = generateWorld({ width: 400, height: 300, territoryCount: 8, seed: 5 });
+const first = map.territories[0];
+
+function start(limit?: number): MapHistoryState {
+  return { map, history: createCommandHistory(limit) };
+}
+
+/**
+ * Rename the first territory once per name, one command each
+ */
+function renameAll(state: MapHistoryState, names: string[]): MapHistoryState {
+  return names.reduce((current, name) => {
+    const territory = current.map.territories[0];
+    return executeCommand(current, editTerritoryCommand(`Renamed to ${name}`, territory, { name }));
+  }, state);
+}
+
+const nameOf = (state: MapHistoryState) => state.map.territories[0].name;
+
+describe('command history', () => {
+  it('undoes and redoes edits', () => {
+    const edited = executeCommand(start(), editTerritoryCommand('Edit', first, { name: 'Aldmark', 'metadata.riverine': null }));
+    expect(nameOf(edited)).toBe('Aldmark');
+    expect(edited.map.territories[0].metadata.riverine).toBeUndefined();
+
+    const undone = undo(edited);
+    expect(undone.map.territories[0]).toEqual(first);
+    expect(undone.history.future).toHaveLength(1);
+    expect(redo(undone).map).toEqual(edited.map);
+  });
+
+  it('drops the redo stack when a new command runs', () => {
+    const state = undo(renameAll(start(), ['A', 'B']));
+    const next = renameAll(state, ['C']);
+    expect(next.history.future).toEqual([]);
+    expect(redo(next)).toBe(next);
+    expect(next.history.past.map(c => c.label)).toEqual(['Renamed to A', 'Renamed to C']);
+  });
+
+  it('leaves the state alone with nothing to undo or redo', () => {
+    const state = start();
+    expect(undo(state)).toBe(state);
+    expect(redo(state)).toBe(state);
+  });
+
+  it('keeps only the newest commands up to the limit', () => {
+    const state = renameAll(start(3), ['A', 'B', 'C', 'D', 'E']);
+    expect(state.history.past.map(c => c.label)).toEqual(['Renamed to C', 'Renamed to D', 'Renamed to E']);
+
+    // The oldest kept state is the one before the oldest kept command
+    expect(nameOf(jumpTo(state, 0))).toBe('B');
+  });
+
+  it('jumps to any position and back', () => {
+    const state = renameAll(start(), ['A', 'B', 'C']);
+    expect(nameOf(jumpTo(state, 0))).toBe(first.name);
+    expect(nameOf(jumpTo(state, 1))).toBe('A');
+
+    const back = jumpTo(jumpTo(state, 1), 3);
+    expect(nameOf(back)).toBe('C');
+    expect(back.history.future).toEqual([]);
+    expect(nameOf(jumpTo(state, 10))).toBe('C');
+    expect(nameOf(jumpTo(state, -1))).toBe(first.name);
+  });
+
+  it('swaps whole maps for replace commands', () => {
+    const other = generateWorld({ width: 400, height: 300, territoryCount: 8, seed: 6 });
+    const state = executeCommand(start(), replaceMapCommand('Regenerated', map, other));
+    expect(state.map).toBe(other);
+    expect(undo(state).map).toBe(map);
+  });
+});
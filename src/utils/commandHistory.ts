@@ -0,0 +1,124 @@
+import { GeneratedMap, Territory } from '../types/Territory';
+import { CommandHistory, MapCommand, MapHistoryState, TerritoryChanges } from '../types/Command';
+import { RecipeValue } from '../types/MapRecipe';
+import { applyEdits } from './mapRecipe';
+
+/**
+ * Command-based undo/redo for map changes
+ *
+ * Every change is a MapCommand that can be applied forward (redo) or backward (undo).
+ * Functions here are pure: they take a MapHistoryState and return a new one, so the
+ * App can keep the whole thing in a single piece of React state.
+ */
+
+// Commands kept by default; replace commands hold whole maps, so keep this modest
+const DEFAULT_LIMIT = 50;
+
+export function createCommandHistory(limit = DEFAULT_LIMIT): CommandHistory {
+  return { past: [], future: [], limit };
+}
+
+/**
+ * Value at a dotted path, or null when it is missing
+ */
+function readPath(territory: Territory, path: string): RecipeValue {
+  let value: unknown = territory;
+  for (const key of path.split('.')) {
+    if (typeof value !== 'object' || value === null) return null;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value === undefined ? null : value as RecipeValue;
+}
+
+/**
+ * Command that swaps in a whole new map
+ */
+export function replaceMapCommand(label: string, before: GeneratedMap, after: GeneratedMap): MapCommand {
+  return { kind: 'replace', label, timestamp: new Date().toISOString(), before, after };
+}
+
+/**
+ * Command that changes attributes of one territory
+ * @param label - Shown in the history panel, e.g. "Renamed Aldmark"
+ * @param territory - The territory as it is now, to remember the old values
+ * @param changes - New values by dotted path; null removes an optional field
+ */
+export function editTerritoryCommand(label: string, territory: Territory, changes: TerritoryChanges): MapCommand {
+  return editTerritoriesCommand(label, [{ territory, changes }]);
+}
+
+/**
+ * Command that changes attributes of several territories at once (one undo step)
+ */
+export function editTerritoriesCommand(
+  label: string,
+  edits: { territory: Territory; changes: TerritoryChanges }[]
+): MapCommand {
+  return {
+    kind: 'edit',
+    label,
+    timestamp: new Date().toISOString(),
+    before: edits.map(({ territory, changes }) => {
+      const before: TerritoryChanges = {};
+      Object.keys(changes).forEach(path => {
+        before[path] = readPath(territory, path);
+      });
+      return { id: territory.id, changes: before };
+    }),
+    after: edits.map(({ territory, changes }) => ({ id: territory.id, changes }))
+  };
+}
+
+/**
+ * Apply a command to a map
+ * @param direction - forward to do or redo it, backward to undo it
+ */
+export function applyCommand(map: GeneratedMap, command: MapCommand, direction: 'forward' | 'backward'): GeneratedMap {
+  if (command.kind === 'replace') {
+    return direction === 'forward' ? command.after : command.before;
+  }
+  const edits = direction === 'forward' ? command.after : command.before;
+  return { ...map, territories: applyEdits(map.territories, edits) };
+}
+
+/**
+ * Run a new command; anything that was undone can no longer be redone
+ */
+export function executeCommand(state: MapHistoryState, command: MapCommand): MapHistoryState {
+  const { history } = state;
+  return {
+    map: applyCommand(state.map, command, 'forward'),
+    history: { ...history, past: [...history.past, command].slice(-history.limit), future: [] }
+  };
+}
+
+export function undo(state: MapHistoryState): MapHistoryState {
+  const { past, future } = state.history;
+  if (past.length === 0) return state;
+  const command = past[past.length - 1];
+  return {
+    map: applyCommand(state.map, command, 'backward'),
+    history: { ...state.history, past: past.slice(0, -1), future: [command, ...future] }
+  };
+}
+
+export function redo(state: MapHistoryState): MapHistoryState {
+  const { past, future } = state.history;
+  if (future.length === 0) return state;
+  const command = future[0];
+  return {
+    map: applyCommand(state.map, command, 'forward'),
+    history: { ...state.history, past: [...past, command], future: future.slice(1) }
+  };
+}
+
+/**
+ * Undo or redo until a given number of commands are applied
+ * @param position - 0 for the oldest kept state, past.length + future.length for the newest
+ */
+export function jumpTo(state: MapHistoryState, position: number): MapHistoryState {
+  let next = state;
+  while (next.history.past.length > position && next.history.past.length > 0) next = undo(next);
+  while (next.history.past.length < position && next.history.future.length > 0) next = redo(next);
+  return next;
+}
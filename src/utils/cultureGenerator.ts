@@ -0,0 +1,179 @@
+import { Territory, TerrainType } from '../types/Territory';
+import { CultureRegion } from '../types/Culture';
+import { SeededRandom } from './seededRandom';
+import { findShortestPaths, terrainMovementCost, WeightedGraph } from './pathfinding';
+
+/**
+ * Culture generation
+ * Cultures rise at a few hearth territories and spread over the adjacency graph.
+ * Spreading costs distance times terrain difficulty, so mountains, deserts and marshes
+ * act as barriers and water stops overland spread entirely.
+ */
+
+/**
+ * Medieval culture names
+ */
+export const CULTURES = [
+  'Gothic', 'Norman', 'Saxon', 'Celtic', 'Frankish', 'Byzantine',
+  'Slavic', 'Norse', 'Iberian', 'Lombard', 'Moorish', 'Venetian'
+];
+
+/**
+ * Broader family each culture belongs to; related cultures get along better
+ */
+export const CULTURE_GROUPS: Record<string, string> = {
+  Gothic: 'Germanic',
+  Saxon: 'Germanic',
+  Norse: 'Germanic',
+  Norman: 'Latin',
+  Frankish: 'Latin',
+  Iberian: 'Latin',
+  Lombard: 'Latin',
+  Venetian: 'Latin',
+  Celtic: 'Celtic',
+  Byzantine: 'Eastern',
+  Slavic: 'Eastern',
+  Moorish: 'Moorish'
+};
+
+/**
+ * The parts of a generated cell that culture spreading needs
+ */
+export interface CultureCell {
+  id: string;
+  centerX: number;
+  centerY: number;
+  terrain: TerrainType;
+  neighbors: string[];
+}
+
+/**
+ * Culture assigned to a cell
+ */
+export interface CultureAssignment {
+  culture: string;
+  // Present when a second culture reaches the cell almost as cheaply
+  minorityCulture?: string;
+}
+
+// One hearth per this many land cells
+const CELLS_PER_HEARTH = 7;
+// A second culture within this cost ratio of the first makes a mixed borderland
+const BORDERLAND_RATIO = 1.25;
+
+/**
+ * Grow culture regions from hearths
+ * @param cells - Land cells (water cells are ignored)
+ * @param seed - Seed for hearth culture choice and placement
+ * @returns Culture per cell id
+ */
+export function assignCultures(cells: CultureCell[], seed: number): Map<string, CultureAssignment> {
+  const rng = new SeededRandom(seed);
+  const assignments = new Map<string, CultureAssignment>();
+  if (cells.length === 0) return assignments;
+
+  const byId = new Map(cells.map(c => [c.id, c]));
+  const distance = (a: CultureCell, b: CultureCell) => Math.hypot(a.centerX - b.centerX, a.centerY - b.centerY);
+
+  // Spread graph: entering a cell costs distance × its terrain difficulty
+  const graph: WeightedGraph = new Map();
+  cells.forEach(cell => {
+    graph.set(cell.id, cell.neighbors
+      .filter(id => byId.has(id))
+      .map(id => {
+        const neighbor = byId.get(id)!;
+        return { to: id, cost: distance(cell, neighbor) * terrainMovementCost(neighbor.terrain) };
+      }));
+  });
+
+  // Pick hearth cultures
+  const hearthCount = Math.min(CULTURES.length, Math.max(2, Math.round(cells.length / CELLS_PER_HEARTH)));
+  const pool = [...CULTURES];
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = rng.nextInt(0, i);
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  const hearthCultures = pool.slice(0, hearthCount);
+
+  // Place hearths far apart: random first hearth, then farthest-point sampling
+  const hearths = [cells[rng.nextInt(0, cells.length - 1)]];
+  while (hearths.length < Math.min(hearthCount, cells.length)) {
+    let best = cells[0];
+    let bestDistance = -1;
+    cells.forEach(cell => {
+      const nearest = Math.min(...hearths.map(h => distance(h, cell)));
+      if (nearest > bestDistance) {
+        bestDistance = nearest;
+        best = cell;
+      }
+    });
+    hearths.push(best);
+  }
+
+  const spreadCosts = hearths.map(hearth => findShortestPaths(graph, hearth.id).costs);
+
+  cells.forEach(cell => {
+    const ranked = hearths
+      .map((hearth, h) => ({
+        culture: hearthCultures[h],
+        cost: spreadCosts[h].get(cell.id) ?? Infinity,
+        distance: distance(hearth, cell)
+      }))
+      .sort((a, b) => a.cost - b.cost || a.distance - b.distance);
+
+    const [first, second] = ranked;
+    const isBorderland = isFinite(first.cost) && second !== undefined &&
+      isFinite(second.cost) && second.cost <= first.cost * BORDERLAND_RATIO;
+
+    assignments.set(cell.id, {
+      // Cells no hearth can reach overland (islands) follow the nearest hearth
+      culture: first.culture,
+      ...(isBorderland ? { minorityCulture: second.culture } : {})
+    });
+  });
+
+  return assignments;
+}
+
+/**
+ * Summarize the culture regions of a map
+ * @param territories - Territories with culture metadata (water is skipped)
+ * @returns One region per culture, most populous first
+ */
+export function summarizeCultureRegions(territories: Territory[]): CultureRegion[] {
+  const regions = new Map<string, CultureRegion & { weight: number }>();
+
+  const regionFor = (culture: string) => {
+    let region = regions.get(culture);
+    if (!region) {
+      region = { culture, territoryIds: [], totalPopulation: 0, centroid: [0, 0], borderlandIds: [], weight: 0 };
+      regions.set(culture, region);
+    }
+    return region;
+  };
+
+  territories.forEach(territory => {
+    const { culture, minorityCulture, population } = territory.metadata;
+    if (!culture) return;
+
+    const region = regionFor(culture);
+    const weight = territory.area ?? 1;
+    region.territoryIds.push(territory.id);
+    region.totalPopulation += population;
+    region.centroid[0] += territory.centerX * weight;
+    region.centroid[1] += territory.centerY * weight;
+    region.weight += weight;
+
+    if (minorityCulture) {
+      regionFor(minorityCulture).borderlandIds.push(territory.id);
+    }
+  });
+
+  return Array.from(regions.values())
+    .filter(region => region.territoryIds.length > 0)
+    .map(({ weight, ...region }) => ({
+      ...region,
+      centroid: [region.centroid[0] / weight, region.centroid[1] / weight] as [number, number]
+    }))
+    .sort((a, b) => b.totalPopulation - a.totalPopulation);
+}
@@ -0,0 +1,112 @@
+import { Territory } from '../types/Territory';
+
+/**
+ * Flat data exports for spreadsheets and GIS tools
+ * Pure functions over Territory[]: no DOM, no side effects
+ */
+
+type FlatValue = string | number | boolean | null;
+
+/**
+ * GeoJSON Polygon feature for one territory
+ * Coordinates are map units (x right, y down), not longitude/latitude
+ */
+export interface TerritoryFeature {
+  type: 'Feature';
+  id: string;
+  geometry: {
+    type: 'Polygon';
+    coordinates: [number, number][][];
+  };
+  properties: Record<string, FlatValue | string[]>;
+}
+
+export interface TerritoryFeatureCollection {
+  type: 'FeatureCollection';
+  features: TerritoryFeature[];
+}
+
+// Column order for CSV exports
+const COLUMNS = [
+  'id', 'name', 'centerX', 'centerY', 'area', 'color',
+  'terrain', 'population', 'culture', 'minorityCulture', 'development',
+  'food', 'gold', 'military', 'elevation', 'moisture', 'temperature', 'riverine'
+];
+
+/**
+ * One territory as a flat record: metadata and resources lifted to the top level
+ */
+function flattenTerritory(territory: Territory): Record<string, FlatValue> {
+  const { metadata } = territory;
+  return {
+    id: territory.id,
+    name: territory.name,
+    centerX: Math.round(territory.centerX * 100) / 100,
+    centerY: Math.round(territory.centerY * 100) / 100,
+    area: territory.area !== undefined ? Math.round(territory.area) : null,
+    color: territory.color,
+    terrain: metadata.terrain,
+    population: metadata.population,
+    culture: metadata.culture,
+    minorityCulture: metadata.minorityCulture ?? null,
+    development: metadata.development,
+    food: metadata.resources.food,
+    gold: metadata.resources.gold,
+    military: metadata.resources.military,
+    elevation: metadata.elevation ?? null,
+    moisture: metadata.moisture ?? null,
+    temperature: metadata.temperature ?? null,
+    riverine: metadata.riverine ?? false
+  };
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break
+ */
+function csvField(value: FlatValue): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export territories as CSV, one row per territory
+ * Neighbors, when known, are listed in the last column separated by semicolons
+ * @returns CSV text with a header row
+ */
+export function exportTerritoriesCsv(territories: Territory[]): string {
+  const header = [...COLUMNS, 'neighbors'];
+  const rows = territories.map(territory => {
+    const flat = flattenTerritory(territory);
+    return [
+      ...COLUMNS.map(column => csvField(flat[column])),
+      csvField(territory.neighbors?.join(';') ?? null)
+    ].join(',');
+  });
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Export territories as a GeoJSON FeatureCollection of Polygon features
+ * Properties hold the flattened metadata, plus neighbor ids when known
+ */
+export function exportTerritoriesGeoJson(territories: Territory[]): TerritoryFeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: territories.map(territory => {
+      // GeoJSON rings are closed: the first position is repeated at the end
+      const ring = territory.borderPoints.map(([x, y]) => [x, y] as [number, number]);
+      if (ring.length > 0) ring.push([ring[0][0], ring[0][1]]);
+
+      return {
+        type: 'Feature',
+        id: territory.id,
+        geometry: { type: 'Polygon', coordinates: [ring] },
+        properties: {
+          ...flattenTerritory(territory),
+          ...(territory.neighbors && { neighbors: territory.neighbors })
+        }
+      };
+    })
+  };
+}
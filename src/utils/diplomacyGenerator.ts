@@ -0,0 +1,356 @@
+import { Territory, TerrainType } from '../types/Territory';
+import { Realm } from '../types/Realm';
+import { HistoryEvent } from '../types/History';
+import { Alliance, DiplomaticStance, DiplomaticState, Treaty, War } from '../types/Diplomacy';
+import { SeededRandom } from './seededRandom';
+import { CULTURE_GROUPS } from './cultureGenerator';
+import { buildRealmLookup, getTopLiege } from './politicalGenerator';
+
+/**
+ * Diplomacy generation between realms
+ *
+ * 1. Relation scores start from culture similarity, shared borders and resource
+ *    competition (neighbors short of the same resource) or complementarity
+ * 2. Recent conquests from the history timeline become truces
+ * 3. Independent realms on good terms form alliance blocs
+ * 4. Bitter neighbors not under truce go to war, joined by their allies
+ * 5. Realms whose surpluses cover each other's shortfalls sign trade treaties
+ */
+
+/**
+ * History to draw truces from
+ */
+export interface DiplomacyOptions {
+  events?: HistoryEvent[];
+  // Current year; events after it are ignored
+  year?: number;
+}
+
+interface RealmProfile {
+  population: number;
+  // Culture → share of population
+  cultures: Map<string, number>;
+  // Culture group → share of population
+  groups: Map<string, number>;
+  // Average food, gold and military of the realm's territories
+  resources: number[];
+  coastal: boolean;
+  // Length of the realm's land border with other realms
+  borderLength: number;
+}
+
+// Years after a conquest during which the two realms may not go to war again
+const TRUCE_YEARS = 10;
+// Minimum relation for an alliance
+const ALLIANCE_THRESHOLD = 40;
+// Every member of a bloc must be at least this friendly with a new member
+const ALLIANCE_COHESION = 15;
+const MAX_ALLIANCE_SIZE = 4;
+// Relation at or below which bordering realms go to war
+const WAR_THRESHOLD = -35;
+// Minimum resource complementarity for a trade treaty
+const TRADE_THRESHOLD = 0.25;
+// Relation bounds for the friendly and hostile stances
+const FRIENDLY_RELATION = 25;
+const HOSTILE_RELATION = -25;
+// Distance from the average resource value that counts as a full surplus or shortfall
+const RESOURCE_SPREAD = 25;
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Sum of the smaller share per key: 1 for identical mixes, 0 for disjoint ones
+ */
+function overlap(a: Map<string, number>, b: Map<string, number>): number {
+  let total = 0;
+  a.forEach((share, key) => {
+    total += Math.min(share, b.get(key) ?? 0);
+  });
+  return total;
+}
+
+/**
+ * Population, culture and resource profile of each realm
+ */
+function buildProfiles(territories: Territory[], realms: Realm[]): Map<string, RealmProfile> {
+  const byId = new Map(territories.map(t => [t.id, t]));
+  const lookup = buildRealmLookup(realms);
+  const profiles = new Map<string, RealmProfile>();
+
+  realms.forEach(realm => {
+    const members = realm.territoryIds.map(id => byId.get(id)).filter((t): t is Territory => !!t);
+    const population = members.reduce((sum, t) => sum + t.metadata.population, 0);
+    const cultures = new Map<string, number>();
+    const groups = new Map<string, number>();
+    members.forEach(t => {
+      const share = population > 0 ? t.metadata.population / population : 1 / members.length;
+      const group = CULTURE_GROUPS[t.metadata.culture] ?? t.metadata.culture;
+      cultures.set(t.metadata.culture, (cultures.get(t.metadata.culture) ?? 0) + share);
+      groups.set(group, (groups.get(group) ?? 0) + share);
+    });
+
+    const average = (pick: (t: Territory) => number) =>
+      members.length > 0 ? members.reduce((sum, t) => sum + pick(t), 0) / members.length : 50;
+
+    const borderLength = members.reduce((sum, t) =>
+      sum + (t.borders ?? [])
+        .filter(b => lookup.has(b.neighborId) && lookup.get(b.neighborId)!.id !== realm.id)
+        .reduce((s, b) => s + b.length, 0), 0);
+
+    profiles.set(realm.id, {
+      population,
+      cultures,
+      groups,
+      resources: [
+        average(t => t.metadata.resources.food),
+        average(t => t.metadata.resources.gold),
+        average(t => t.metadata.resources.military)
+      ],
+      coastal: members.some(t => t.metadata.terrain === TerrainType.COASTAL),
+      borderLength
+    });
+  });
+
+  return profiles;
+}
+
+/**
+ * Length of the border shared by each pair of realms
+ */
+function measureRealmBorders(territories: Territory[], realms: Realm[]): Map<string, number> {
+  const lookup = buildRealmLookup(realms);
+  const lengths = new Map<string, number>();
+
+  territories.forEach(territory => {
+    const realm = lookup.get(territory.id);
+    if (!realm) return;
+    territory.borders?.forEach(border => {
+      const other = lookup.get(border.neighborId);
+      // Count each shared border once
+      if (!other || other.id === realm.id || territory.id > border.neighborId) return;
+      const key = pairKey(realm.id, other.id);
+      lengths.set(key, (lengths.get(key) ?? 0) + border.length);
+    });
+  });
+
+  return lengths;
+}
+
+/**
+ * Resource competition (both short of the same thing) and complementarity
+ * (one's surplus covers the other's shortfall), each roughly 0-1
+ * Surplus and shortfall are measured against the average realm
+ */
+function compareResources(
+  a: RealmProfile,
+  b: RealmProfile,
+  average: number[]
+): { competition: number; complementarity: number } {
+  const deficit = (value: number, k: number) => Math.min(1, Math.max(0, average[k] - value) / RESOURCE_SPREAD);
+  const surplus = (value: number, k: number) => Math.min(1, Math.max(0, value - average[k]) / RESOURCE_SPREAD);
+
+  let competition = 0;
+  let complementarity = 0;
+  a.resources.forEach((valueA, k) => {
+    const valueB = b.resources[k];
+    competition += Math.min(deficit(valueA, k), deficit(valueB, k));
+    complementarity += Math.min(surplus(valueA, k), deficit(valueB, k)) + Math.min(surplus(valueB, k), deficit(valueA, k));
+  });
+
+  return { competition, complementarity };
+}
+
+/**
+ * Generate the diplomatic state between realms
+ * @param territories - Territories with borders and metadata
+ * @param realms - Realms to relate (typically those standing in the current year)
+ * @param seed - Seed for the small random component of each relation
+ * @param options - History events that leave truces behind
+ * @returns Relations matrix, alliances, wars and treaties
+ */
+export function generateDiplomacy(
+  territories: Territory[],
+  realms: Realm[],
+  seed: number,
+  options: DiplomacyOptions = {}
+): DiplomaticState {
+  const rng = new SeededRandom(seed);
+  const profiles = buildProfiles(territories, realms);
+  const borders = measureRealmBorders(territories, realms);
+  const realmIds = new Set(realms.map(r => r.id));
+  const topLiege = new Map(realms.map(r => [r.id, getTopLiege(r, realms).id]));
+  const capitalName = new Map(realms.map(r => [r.id, territories.find(t => t.id === r.capitalId)?.name ?? r.name]));
+  const averageResources = [0, 1, 2].map(k =>
+    realms.reduce((sum, r) => sum + profiles.get(r.id)!.resources[k], 0) / Math.max(1, realms.length)
+  );
+
+  // Truces: realms that fought within the last TRUCE_YEARS and both still stand
+  const truces = new Map<string, Treaty>();
+  const year = options.year ?? Infinity;
+  (options.events ?? [])
+    .filter(e => (e.type === 'conquest' || e.type === 'annexation') && e.year <= year && e.year > year - TRUCE_YEARS)
+    .forEach(e => {
+      const [a, b] = e.realmIds;
+      if (!realmIds.has(a) || !realmIds.has(b)) return;
+      truces.set(pairKey(a, b), { type: 'truce', realmIds: [a, b], until: e.year + TRUCE_YEARS });
+    });
+
+  // Relations
+  const relations: Record<string, Record<string, number>> = {};
+  const complementarity = new Map<string, number>();
+  realms.forEach(r => { relations[r.id] = {}; });
+
+  realms.forEach((a, i) => {
+    realms.slice(i + 1).forEach(b => {
+      const key = pairKey(a.id, b.id);
+      const profileA = profiles.get(a.id)!;
+      const profileB = profiles.get(b.id)!;
+
+      // Kin favor kin: exact culture matches count fully, related cultures count half
+      const similarity = (overlap(profileA.cultures, profileB.cultures) + overlap(profileA.groups, profileB.groups)) / 2;
+      let score = (similarity - 0.3) * 60;
+
+      // Neighbors rub against each other, more so along a long shared border
+      const border = borders.get(key) ?? 0;
+      if (border > 0) {
+        const exposure = border / Math.max(1, Math.min(profileA.borderLength, profileB.borderLength));
+        score -= 10 + 20 * Math.min(1, exposure);
+      }
+
+      const resources = compareResources(profileA, profileB, averageResources);
+      complementarity.set(key, resources.complementarity);
+      score -= resources.competition * (border > 0 ? 40 : 15);
+      score += resources.complementarity * 30;
+
+      if (topLiege.get(a.id) === topLiege.get(b.id)) score += 40;
+      if (truces.has(key)) score -= 15;
+      score += (rng.next() - 0.5) * 20;
+
+      const relation = Math.round(Math.max(-100, Math.min(100, score)));
+      relations[a.id][b.id] = relation;
+      relations[b.id][a.id] = relation;
+    });
+  });
+
+  const independent = realms.filter(r => !r.liegeId);
+  const pairs = independent.flatMap((a, i) =>
+    independent.slice(i + 1).map(b => ({ a: a.id, b: b.id, relation: relations[a.id][b.id] }))
+  );
+
+  // Alliances: the friendliest pairs first; a newcomer must get on with every member
+  const blocs: string[][] = [];
+  const blocOf = new Map<string, string[]>();
+  [...pairs]
+    .sort((x, y) => y.relation - x.relation)
+    .forEach(({ a, b, relation }) => {
+      if (relation < ALLIANCE_THRESHOLD) return;
+      const blocA = blocOf.get(a);
+      const blocB = blocOf.get(b);
+      if (!blocA && !blocB) {
+        const bloc = [a, b];
+        blocs.push(bloc);
+        blocOf.set(a, bloc);
+        blocOf.set(b, bloc);
+      } else if (!blocA || !blocB) {
+        const bloc = (blocA ?? blocB)!;
+        const newcomer = blocA ? b : a;
+        if (bloc.length < MAX_ALLIANCE_SIZE && bloc.every(id => relations[id][newcomer] >= ALLIANCE_COHESION)) {
+          bloc.push(newcomer);
+          blocOf.set(newcomer, bloc);
+        }
+      }
+    });
+
+  const alliances: Alliance[] = blocs.map((memberIds, index) => {
+    const leaderId = memberIds.reduce((x, y) => (profiles.get(y)!.population > profiles.get(x)!.population ? y : x));
+    return {
+      id: `alliance-${index}`,
+      name: `${capitalName.get(leaderId)} League`,
+      leaderId,
+      memberIds
+    };
+  });
+
+  // Wars: the bitterest bordering pairs not under truce; each realm fights one war at a time
+  const bordering = new Set<string>();
+  borders.forEach((_, key) => {
+    const [a, b] = key.split('|');
+    bordering.add(pairKey(topLiege.get(a)!, topLiege.get(b)!));
+  });
+
+  const wars: War[] = [];
+  const atWar = new Set<string>();
+  [...pairs]
+    .sort((x, y) => x.relation - y.relation)
+    .forEach(({ a, b, relation }) => {
+      if (relation > WAR_THRESHOLD || !bordering.has(pairKey(a, b)) || truces.has(pairKey(a, b))) return;
+      if (atWar.has(a) || atWar.has(b) || (blocOf.get(a) && blocOf.get(a) === blocOf.get(b))) return;
+
+      // The more populous realm strikes first
+      const [attacker, defender] = profiles.get(a)!.population >= profiles.get(b)!.population ? [a, b] : [b, a];
+      const side = (leader: string) => [leader, ...(blocOf.get(leader) ?? []).filter(id => id !== leader && !atWar.has(id))];
+      const attackerIds = side(attacker);
+      const defenderIds = side(defender);
+      [...attackerIds, ...defenderIds].forEach(id => atWar.add(id));
+
+      wars.push({
+        id: `war-${wars.length}`,
+        name: `${capitalName.get(attacker)}–${capitalName.get(defender)} War`,
+        attackerIds,
+        defenderIds
+      });
+    });
+
+  // Trade: complementary economies on good terms, if they border or can meet by sea
+  const treaties: Treaty[] = Array.from(truces.values());
+  realms.forEach((a, i) => {
+    realms.slice(i + 1).forEach(b => {
+      const key = pairKey(a.id, b.id);
+      const reachable = borders.has(key) || (profiles.get(a.id)!.coastal && profiles.get(b.id)!.coastal);
+      const enemies = wars.some(w =>
+        (w.attackerIds.includes(topLiege.get(a.id)!) && w.defenderIds.includes(topLiege.get(b.id)!)) ||
+        (w.attackerIds.includes(topLiege.get(b.id)!) && w.defenderIds.includes(topLiege.get(a.id)!))
+      );
+      if (reachable && !enemies && relations[a.id][b.id] >= 0 && complementarity.get(key)! >= TRADE_THRESHOLD) {
+        treaties.push({ type: 'trade', realmIds: [a.id, b.id] });
+      }
+    });
+  });
+
+  return { relations, alliances, wars, treaties };
+}
+
+/**
+ * How one realm stands toward another
+ * Vassals share their top liege's wars and alliances
+ */
+export function getStance(diplomacy: DiplomaticState, realms: Realm[], fromId: string, toId: string): DiplomaticStance {
+  if (fromId === toId) return 'self';
+
+  const top = (id: string) => {
+    const realm = realms.find(r => r.id === id);
+    return realm ? getTopLiege(realm, realms).id : id;
+  };
+  const a = top(fromId);
+  const b = top(toId);
+  if (a === b) return 'overlord';
+
+  const opposed = diplomacy.wars.some(w =>
+    (w.attackerIds.includes(a) && w.defenderIds.includes(b)) ||
+    (w.attackerIds.includes(b) && w.defenderIds.includes(a))
+  );
+  if (opposed) return 'war';
+  if (diplomacy.alliances.some(al => al.memberIds.includes(a) && al.memberIds.includes(b))) return 'allied';
+
+  const truce = diplomacy.treaties.some(t =>
+    t.type === 'truce' && [pairKey(fromId, toId), pairKey(a, b)].includes(pairKey(t.realmIds[0], t.realmIds[1]))
+  );
+  if (truce) return 'truce';
+
+  const relation = diplomacy.relations[fromId]?.[toId] ?? 0;
+  if (relation >= FRIENDLY_RELATION) return 'friendly';
+  if (relation <= HOSTILE_RELATION) return 'hostile';
+  return 'neutral';
+}
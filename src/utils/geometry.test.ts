@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  clipPolygon,
+  findSharedBorders,
+  isPointInPolygon,
+  mergePolygons,
+  Point,
+  scatterSites,
+  signedArea,
+  snapVertices,
+  voronoiWithin
+} from './geometry';
+import { SeededRandom } from './seededRandom';
+
+const square = (x: number, y: number, size = 1): Point[] => [[x, y], [x + size, y], [x + size, y + size], [x, y + size]];
+
+describe('mergePolygons', () => {
+  it('joins polygons along their shared edge', () => {
+    const merged = mergePolygons(square(0, 0), square(1, 0))!;
+    expect(Math.abs(signedArea(merged))).toBe(2);
+    expect(Math.sign(signedArea(merged))).toBe(Math.sign(signedArea(square(0, 0))));
+    expect(merged).toHaveLength(6);
+  });
+
+  it('refuses polygons without a shared edge', () => {
+    expect(mergePolygons(square(0, 0), square(2, 0))).toBeNull();
+    // Touching at a corner only
+    expect(mergePolygons(square(0, 0), square(1, 1))).toBeNull();
+  });
+
+  it('refuses unions with a hole', () => {
+    const u: Point[] = [[0, 0], [3, 0], [3, 2], [2, 2], [2, 1], [1, 1], [1, 2], [0, 2]];
+    const lid: Point[] = [[0, 2], [1, 2], [2, 2], [3, 2], [3, 3], [0, 3]];
+    expect(mergePolygons(u, lid)).toBeNull();
+  });
+});
+
+describe('snapVertices', () => {
+  it('merges nearby vertices into the first one seen', () => {
+    const [a, b] = snapVertices([square(0, 0), [[1.0001, 0], [2, 0], [2, 1], [1, 1.0001]]], 0.001);
+    expect(b[0]).toBe(a[1]);
+    expect(b[3]).toBe(a[2]);
+  });
+
+  it('never moves anchors and drops the duplicates it creates', () => {
+    const anchor: Point = [0.5, 0];
+    const [snapped] = snapVertices([[[0, 0], [0.5001, 0], [0.5002, 0.0001], [1, 0], [1, 1]]], 0.001, [anchor]);
+    expect(snapped).toEqual([[0, 0], [0.5, 0], [1, 0], [1, 1]]);
+    expect(snapped[1]).toBe(anchor);
+  });
+});
+
+describe('clipPolygon', () => {
+  it('keeps the part inside a convex clip, wound like the subject', () => {
+    const clipped = clipPolygon(square(0, 0, 2), square(1, 1, 2));
+    expect(Math.abs(signedArea(clipped))).toBeCloseTo(1);
+    expect(clipPolygon(square(0, 0), square(5, 5))).toEqual([]);
+  });
+});
+
+describe('findSharedBorders', () => {
+  it('finds symmetric borders from matching edges', () => {
+    const polygons = [
+      { id: 'a', points: square(0, 0) },
+      { id: 'b', points: square(1, 0) },
+      { id: 'c', points: [[0, 1], [1, 1], [2, 1], [2, 2], [0, 2]] as Point[] }
+    ];
+    const borders = findSharedBorders(polygons, 1e-6);
+
+    expect(borders.get('a')!.map(b => b.neighborId)).toEqual(['b', 'c']);
+    expect(borders.get('c')!.map(b => b.neighborId)).toEqual(['a', 'b']);
+    polygons.forEach(({ id }) => {
+      borders.get(id)!.forEach(border => {
+        const back = borders.get(border.neighborId)!.find(b => b.neighborId === id)!;
+        expect(back.length).toBeCloseTo(border.length);
+      });
+    });
+  });
+});
+
+describe('voronoiWithin', () => {
+  const area: Point[] = [[0, 0], [10, 0], [10, 6], [4, 10], [0, 6]];
+
+  it('cuts an area into one cell per site that fill it', () => {
+    const sites: Point[] = [[2, 2], [8, 2], [5, 7], [3, 5]];
+    const cells = voronoiWithin(area, sites);
+
+    expect(cells).toHaveLength(sites.length);
+    cells.forEach((cell, k) => expect(isPointInPolygon(sites[k], cell)).toBe(true));
+    const total = cells.reduce((sum, cell) => sum + Math.abs(signedArea(cell)), 0);
+    expect(total).toBeCloseTo(Math.abs(signedArea(area)), 6);
+  });
+});
+
+describe('scatterSites', () => {
+  it('places the sites inside the polygon, the same way for the same seed', () => {
+    const area = [[0, 0], [20, 0], [20, 10], [0, 10]] as Point[];
+    const sites = scatterSites(area, 5, new SeededRandom(3))!;
+
+    expect(sites).toHaveLength(5);
+    sites.forEach(site => expect(isPointInPolygon(site, area)).toBe(true));
+    expect(scatterSites(area, 5, new SeededRandom(3))).toEqual(sites);
+  });
+});
@@ -0,0 +1,287 @@
+import { Delaunay } from 'd3-delaunay';
+import { TerritoryBorder } from '../types/Territory';
+import { SeededRandom } from './seededRandom';
+
+/**
+ * Polygon helpers for editing territory shapes
+ *
+ * Territories form a planar subdivision: every shared border is an edge of both
+ * polygons with exactly the same end points (as Voronoi cells are). The helpers
+ * here keep it that way after cells are clipped, merged or split, so borders can
+ * be found again by matching edges.
+ */
+
+export type Point = [number, number];
+
+/**
+ * Signed area; the sign tells the winding direction
+ */
+export function signedArea(polygon: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const [x1, y1] = polygon[i];
+    const [x2, y2] = polygon[(i + 1) % polygon.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
+}
+
+/**
+ * Center of mass of a polygon (vertex average for degenerate polygons)
+ */
+export function polygonCentroid(polygon: Point[]): Point {
+  const area = signedArea(polygon);
+  if (Math.abs(area) < 1e-9) {
+    const sum = polygon.reduce((acc, [x, y]) => [acc[0] + x, acc[1] + y], [0, 0]);
+    return [sum[0] / polygon.length, sum[1] / polygon.length];
+  }
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const [x1, y1] = polygon[i];
+    const [x2, y2] = polygon[(i + 1) % polygon.length];
+    const cross = x1 * y2 - x2 * y1;
+    cx += (x1 + x2) * cross;
+    cy += (y1 + y2) * cross;
+  }
+  return [cx / (6 * area), cy / (6 * area)];
+}
+
+/**
+ * Point-in-polygon test using ray casting
+ */
+export function isPointInPolygon(point: Point, polygon: Point[]): boolean {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Sutherland–Hodgman clipping: the part of subject inside clip
+ * The clip polygon must be convex (e.g. a Voronoi cell); the subject may be any
+ * simple polygon and keeps its winding direction.
+ * @returns Clipped polygon, empty when they do not overlap
+ */
+export function clipPolygon(subject: Point[], clip: Point[]): Point[] {
+  const orientation = Math.sign(signedArea(clip));
+  let output = subject;
+
+  for (let i = 0; i < clip.length && output.length > 0; i++) {
+    const [ax, ay] = clip[i];
+    const [bx, by] = clip[(i + 1) % clip.length];
+    // Positive on the inner side of edge a → b
+    const side = ([x, y]: Point) => orientation * ((bx - ax) * (y - ay) - (by - ay) * (x - ax));
+    const intersect = (p: Point, q: Point): Point => {
+      const sp = side(p);
+      const t = sp / (sp - side(q));
+      return [p[0] + (q[0] - p[0]) * t, p[1] + (q[1] - p[1]) * t];
+    };
+
+    const input = output;
+    output = [];
+    for (let k = 0; k < input.length; k++) {
+      const current = input[k];
+      const previous = input[(k + input.length - 1) % input.length];
+      const currentInside = side(current) >= 0;
+      const previousInside = side(previous) >= 0;
+      if (currentInside) {
+        if (!previousInside) output.push(intersect(previous, current));
+        output.push(current);
+      } else if (previousInside) {
+        output.push(intersect(previous, current));
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Voronoi cells of the sites, clipped to an area
+ * @param area - Any simple polygon
+ * @returns One polygon per site, in site order (empty when a site gets no cell)
+ */
+export function voronoiWithin(area: Point[], sites: Point[]): Point[][] {
+  const xs = area.map(p => p[0]);
+  const ys = area.map(p => p[1]);
+  const voronoi = Delaunay.from(sites).voronoi([
+    Math.min(...xs) - 1, Math.min(...ys) - 1, Math.max(...xs) + 1, Math.max(...ys) + 1
+  ]);
+  return sites.map((_, k) => {
+    const cell = voronoi.cellPolygon(k);
+    return cell ? clipPolygon(area, cell.slice(0, -1) as Point[]) : [];
+  });
+}
+
+/**
+ * Random sites spread evenly inside a polygon: rejection sampling, then Lloyd relaxation
+ * @param relaxation - Lloyd iterations
+ * @returns The sites, or null when the polygon is too small to place them
+ */
+export function scatterSites(polygon: Point[], count: number, rng: SeededRandom, relaxation: number = 2): Point[] | null {
+  const xs = polygon.map(p => p[0]);
+  const ys = polygon.map(p => p[1]);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+
+  let sites: Point[] = [];
+  for (let attempt = 0; sites.length < count && attempt < count * 200; attempt++) {
+    const site: Point = [minX + rng.next() * (maxX - minX), minY + rng.next() * (maxY - minY)];
+    if (isPointInPolygon(site, polygon)) sites.push(site);
+  }
+  if (sites.length < count) return null;
+
+  for (let iteration = 0; iteration < relaxation; iteration++) {
+    sites = voronoiWithin(polygon, sites).map((shape, k) => {
+      const centroid = shape.length >= 3 ? polygonCentroid(shape) : sites[k];
+      return isPointInPolygon(centroid, polygon) ? centroid : sites[k];
+    });
+  }
+  return sites;
+}
+
+/**
+ * Merge vertices closer than the tolerance, across all polygons
+ * The first vertex seen at a spot wins, so existing vertices keep their exact values.
+ * Consecutive duplicates left behind are removed.
+ * @param anchors - Vertices of untouched neighbors: new vertices snap to them, they never move
+ */
+export function snapVertices(polygons: Point[][], tolerance: number, anchors: Point[] = []): Point[][] {
+  const grid = new Map<string, Point[]>();
+  const cellOf = (v: number) => Math.floor(v / tolerance);
+  anchors.forEach(point => {
+    const key = `${cellOf(point[0])},${cellOf(point[1])}`;
+    grid.set(key, [...(grid.get(key) ?? []), point]);
+  });
+
+  const snap = (point: Point): Point => {
+    const cx = cellOf(point[0]);
+    const cy = cellOf(point[1]);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const match = grid.get(`${cx + dx},${cy + dy}`)?.find(p =>
+          Math.abs(p[0] - point[0]) <= tolerance && Math.abs(p[1] - point[1]) <= tolerance
+        );
+        if (match) return match;
+      }
+    }
+    const key = `${cx},${cy}`;
+    grid.set(key, [...(grid.get(key) ?? []), point]);
+    return point;
+  };
+
+  return polygons.map(polygon => {
+    const snapped = polygon.map(snap);
+    return snapped.filter((p, i) => p !== snapped[(i + snapped.length - 1) % snapped.length]);
+  });
+}
+
+/**
+ * Add the given points that lie on the polygon's edges as vertices
+ * Repairs T-junctions where a neighbor's border was cut into several edges.
+ */
+export function insertVerticesOnEdges(polygon: Point[], points: Point[], tolerance: number): Point[] {
+  const result: Point[] = [];
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    result.push(a);
+
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const lengthSq = dx * dx + dy * dy;
+    if (lengthSq === 0) continue;
+
+    const onEdge: { t: number; point: Point }[] = [];
+    points.forEach(p => {
+      const t = ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq;
+      if (t <= 0 || t >= 1) return;
+      const distance = Math.abs((p[0] - a[0]) * dy - (p[1] - a[1]) * dx) / Math.sqrt(lengthSq);
+      if (distance > tolerance) return;
+      if (Math.hypot(p[0] - a[0], p[1] - a[1]) <= tolerance || Math.hypot(p[0] - b[0], p[1] - b[1]) <= tolerance) return;
+      onEdge.push({ t, point: p });
+    });
+    onEdge.sort((u, v) => u.t - v.t).forEach(({ point }) => {
+      if (result[result.length - 1] !== point) result.push(point);
+    });
+  }
+  return result;
+}
+
+const pointKey = (p: Point) => `${p[0]},${p[1]}`;
+
+/**
+ * Union of two polygons that share at least one edge
+ * Shared edges cancel out and the remaining edges are chained into one ring.
+ * Both polygons must wind the same way and share exact vertices.
+ * @returns The merged polygon, or null when they share no edge or the union has a hole
+ */
+export function mergePolygons(a: Point[], b: Point[]): Point[] | null {
+  const edges = [a, b].flatMap(polygon => polygon.map((p, i) => [p, polygon[(i + 1) % polygon.length]] as [Point, Point]));
+  const edgeKeys = new Set(edges.map(([p, q]) => `${pointKey(p)}>${pointKey(q)}`));
+  const remaining = edges.filter(([p, q]) => !edgeKeys.has(`${pointKey(q)}>${pointKey(p)}`));
+  if (remaining.length === edges.length) return null;
+
+  // Chain the remaining edges by start point
+  const outgoing = new Map<string, [Point, Point][]>();
+  remaining.forEach(edge => {
+    const key = pointKey(edge[0]);
+    outgoing.set(key, [...(outgoing.get(key) ?? []), edge]);
+  });
+
+  const first = remaining[0];
+  const startEdges = outgoing.get(pointKey(first[0]))!;
+  startEdges.splice(startEdges.indexOf(first), 1);
+
+  const ring: Point[] = [];
+  let edge: [Point, Point] | undefined = first;
+  let used = 0;
+  while (edge) {
+    ring.push(edge[0]);
+    used++;
+    edge = outgoing.get(pointKey(edge[1]))?.shift();
+  }
+
+  // Edges left over form a second ring: the union is not a simple polygon
+  return used === remaining.length ? ring : null;
+}
+
+/**
+ * Shared borders found by matching polygon edges
+ * An edge used by two polygons (in opposite directions) is a border between them.
+ * @param tolerance - Edges shorter than this are ignored
+ * @returns Borders per polygon id, sorted by neighbor id
+ */
+export function findSharedBorders(
+  polygons: { id: string; points: Point[] }[],
+  tolerance: number
+): Map<string, TerritoryBorder[]> {
+  const owners = new Map<string, string>();
+  polygons.forEach(({ id, points }) => {
+    points.forEach((p, i) => owners.set(`${pointKey(p)}>${pointKey(points[(i + 1) % points.length])}`, id));
+  });
+
+  const result = new Map<string, TerritoryBorder[]>();
+  polygons.forEach(({ id, points }) => {
+    const borders = new Map<string, TerritoryBorder>();
+    points.forEach((start, i) => {
+      const end = points[(i + 1) % points.length];
+      const length = Math.hypot(end[0] - start[0], end[1] - start[1]);
+      const neighborId = owners.get(`${pointKey(end)}>${pointKey(start)}`);
+      if (!neighborId || neighborId === id || length < tolerance) return;
+
+      const border = borders.get(neighborId) ?? { neighborId, segments: [], length: 0 };
+      border.segments.push({ start, end, length });
+      border.length += length;
+      borders.set(neighborId, border);
+    });
+    result.set(id, Array.from(borders.values())
+      .sort((x, y) => x.neighborId.localeCompare(y.neighborId, undefined, { numeric: true })));
+  });
+
+  return result;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedMap } from '../types/Territory';
+import { generateWorld } from './mapGenerator';
+import { calculateArea } from './metadataGenerator';
+import { GeometryEditError, mergeTerritories, moveTerritorySite, splitTerritory } from './geometryEditor';
+
+const map = generateWorld({ width: 600, height: 400, territoryCount: 15, seed: 21 });
+
+const areaOf = (m: GeneratedMap, ids?: string[]) => m.territories
+  .filter(t => !ids || ids.includes(t.id))
+  .reduce((sum, t) => sum + calculateArea(t.borderPoints), 0);
+
+/**
+ * Invariants every shape edit keeps: the map is still covered, neighbors are
+ * symmetric and realms only refer to territories that exist
+ */
+function expectConsistent(edited: GeneratedMap): void {
+  const ids = new Set(edited.territories.map(t => t.id));
+  expect(ids.size).toBe(edited.territories.length);
+  expect(areaOf(edited)).toBeCloseTo(areaOf(map), 3);
+
+  const byId = new Map(edited.territories.map(t => [t.id, t]));
+  edited.territories.forEach(t => {
+    t.neighbors!.forEach(n => expect(byId.get(n)?.neighbors, `${t.id} -> ${n}`).toContain(t.id));
+  });
+  edited.realms.forEach(realm => {
+    expect(realm.territoryIds.length).toBeGreaterThan(0);
+    realm.territoryIds.forEach(id => expect(ids.has(id), `${realm.id} holds ${id}`).toBe(true));
+    expect(realm.territoryIds).toContain(realm.capitalId);
+  });
+  edited.roads.segments.forEach(s => {
+    expect(ids.has(s.from) && ids.has(s.to)).toBe(true);
+  });
+}
+
+// A pair of neighboring land territories, both in realms
+const owned = new Set(map.realms.flatMap(r => r.territoryIds));
+const keep = map.territories.find(t => owned.has(t.id) && t.neighbors!.some(n => owned.has(n)))!;
+const absorb = map.territories.find(t => t.id === keep.neighbors!.find(n => owned.has(n)))!;
+
+describe('mergeTerritories', () => {
+  it('joins two neighbors, adding up area and population', () => {
+    const merged = mergeTerritories(map, keep.id, absorb.id);
+    expectConsistent(merged);
+
+    const result = merged.territories.find(t => t.id === keep.id)!;
+    expect(merged.territories.some(t => t.id === absorb.id)).toBe(false);
+    expect(result.area).toBeCloseTo(calculateArea(keep.borderPoints) + calculateArea(absorb.borderPoints), 3);
+    expect(result.metadata.population).toBe(keep.metadata.population + absorb.metadata.population);
+    merged.rivers.forEach(river => expect(river.territoryIds).not.toContain(absorb.id));
+  });
+
+  it('refuses territories that do not touch or are locked', () => {
+    const far = map.territories.find(t => t.id !== keep.id && !keep.neighbors!.includes(t.id))!;
+    expect(() => mergeTerritories(map, keep.id, far.id)).toThrow(GeometryEditError);
+
+    const locked = { ...map, territories: map.territories.map(t => (t.id === absorb.id ? { ...t, locked: true } : t)) };
+    expect(() => mergeTerritories(locked, keep.id, absorb.id)).toThrow(`${absorb.name} is locked`);
+  });
+});
+
+describe('splitTerritory', () => {
+  it('cuts a territory into parts that fill it and stay in its realm', () => {
+    const split = splitTerritory(map, keep.id, 3);
+    expectConsistent(split);
+
+    const newIds = split.territories.filter(t => !map.territories.some(o => o.id === t.id)).map(t => t.id);
+    expect(newIds).toHaveLength(2);
+    const parts = [keep.id, ...newIds];
+    expect(areaOf(split, parts)).toBeCloseTo(calculateArea(keep.borderPoints), 3);
+
+    const population = split.territories.filter(t => parts.includes(t.id)).reduce((sum, t) => sum + t.metadata.population, 0);
+    expect(Math.abs(population - keep.metadata.population)).toBeLessThanOrEqual(2);
+
+    const realm = split.realms.find(r => r.territoryIds.includes(keep.id))!;
+    newIds.forEach(id => expect(realm.territoryIds).toContain(id));
+    expect(new Set(split.territories.map(t => t.name)).size).toBe(split.territories.length);
+  });
+
+  it('refuses part counts out of range', () => {
+    expect(() => splitTerritory(map, keep.id, 1)).toThrow(GeometryEditError);
+    expect(() => splitTerritory(map, keep.id, 9)).toThrow(GeometryEditError);
+  });
+});
+
+describe('moveTerritorySite', () => {
+  it('redraws the territory and its neighbors around the new center', () => {
+    const x = (keep.centerX * 3 + absorb.centerX) / 4;
+    const y = (keep.centerY * 3 + absorb.centerY) / 4;
+    const moved = moveTerritorySite(map, keep.id, x, y);
+    expectConsistent(moved);
+
+    const territory = moved.territories.find(t => t.id === keep.id)!;
+    expect([territory.centerX, territory.centerY]).toEqual([x, y]);
+    expect(territory.borderPoints).not.toEqual(keep.borderPoints);
+  });
+
+  it('refuses centers outside the reshaped area', () => {
+    expect(() => moveTerritorySite(map, keep.id, -100, -100)).toThrow(GeometryEditError);
+  });
+});
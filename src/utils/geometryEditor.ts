@@ -0,0 +1,311 @@
+import { GeneratedMap, Territory } from '../types/Territory';
+import { Realm } from '../types/Realm';
+import {
+  findSharedBorders,
+  insertVerticesOnEdges,
+  isPointInPolygon,
+  mergePolygons,
+  Point,
+  scatterSites,
+  snapVertices,
+  voronoiWithin
+} from './geometry';
+import { calculateArea } from './metadataGenerator';
+import { generateTerrainColor } from './colorGenerator';
+import { generateTerritoryName } from './nameGenerator';
+import { generateRoads } from './roadGenerator';
+import { SeededRandom } from './seededRandom';
+import { generateSubdivisions } from './subdivisionGenerator';
+
+/**
+ * Shape editing: move territory centers, merge neighbors, split territories
+ *
+ * Architecture:
+ * 1. Only the territories involved are reshaped, with a local Voronoi diagram
+ *    (d3-delaunay, as in mapGenerator) clipped to the area they cover
+ * 2. New vertices are snapped together and inserted into untouched neighbors'
+ *    edges, so every border is still an edge shared by exactly two polygons
+ * 3. Borders, neighbors and roads are rebuilt from the new polygons
+ * 4. Area is recomputed and population scaled with it; names, terrain and the rest
+ *    of the metadata carry over
+ * 5. Reshaped territories are cut into new provinces and counties, when the map has them
+ *
+ * Locked territories never change shape: moves leave them out of the reshaped area,
+ * and merging or splitting them is refused.
+ */
+
+// Most parts a territory can be split into
+export const MAX_SPLIT_PARTS = 8;
+
+// Lloyd iterations used to even out the parts of a split
+const SPLIT_RELAXATION = 2;
+
+// Smallest area (square map units) a reshaped territory may have
+const MIN_AREA = 1;
+
+/**
+ * Shape edit that cannot be carried out
+ */
+export class GeometryEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeometryEditError';
+  }
+}
+
+function getTolerance(map: GeneratedMap): number {
+  return Math.max(map.config.width, map.config.height) * 1e-6;
+}
+
+function findTerritory(map: GeneratedMap, id: string): Territory {
+  const territory = map.territories.find(t => t.id === id);
+  if (!territory) throw new GeometryEditError(`Unknown territory ${id}`);
+  if (territory.locked) throw new GeometryEditError(`${territory.name} is locked`);
+  return territory;
+}
+
+function checkShapes(shapes: Point[][], message: string): void {
+  if (shapes.some(shape => shape.length < 3 || calculateArea(shape) < MIN_AREA)) {
+    throw new GeometryEditError(message);
+  }
+}
+
+/**
+ * Swap reshaped territories into the map and rebuild everything that depends on shapes
+ * @param oldIds - Territories whose shapes changed or that were removed
+ * @param replacements - New versions (same id replaces in place, new ids are appended)
+ */
+function replaceTerritories(
+  map: GeneratedMap,
+  oldIds: string[],
+  replacements: Territory[],
+  realms: Realm[] = map.realms
+): GeneratedMap {
+  const tolerance = getTolerance(map);
+  const oldSet = new Set(oldIds);
+  const outerIds = new Set(
+    map.territories
+      .filter(t => oldSet.has(t.id))
+      .flatMap(t => t.neighbors ?? [])
+      .filter(id => !oldSet.has(id))
+  );
+
+  // Snap new vertices to each other and to the untouched neighbors around them
+  const anchors = map.territories.filter(t => outerIds.has(t.id)).flatMap(t => t.borderPoints);
+  const snapped = snapVertices(replacements.map(t => t.borderPoints), tolerance, anchors);
+  const reshaped = new Map(replacements.map((t, i) => [t.id, { ...t, borderPoints: snapped[i], area: calculateArea(snapped[i]) }]));
+  const newVertices = Array.from(new Set(snapped.flat()));
+
+  const territories: Territory[] = [];
+  map.territories.forEach(t => {
+    if (reshaped.has(t.id)) {
+      territories.push(reshaped.get(t.id)!);
+      reshaped.delete(t.id);
+    } else if (outerIds.has(t.id)) {
+      territories.push({ ...t, borderPoints: insertVerticesOnEdges(t.borderPoints, newVertices, tolerance) });
+    } else if (!oldSet.has(t.id)) {
+      territories.push(t);
+    }
+  });
+  territories.push(...reshaped.values());
+
+  const borders = findSharedBorders(territories.map(t => ({ id: t.id, points: t.borderPoints })), tolerance);
+  const rebuilt = territories.map(t => {
+    const territoryBorders = borders.get(t.id)!;
+    return { ...t, borders: territoryBorders, neighbors: territoryBorders.map(b => b.neighborId) };
+  });
+
+  if (!map.subdivisions || !map.config.subdivisions) {
+    return { ...map, territories: rebuilt, roads: generateRoads(rebuilt), realms };
+  }
+
+  // Untouched territories keep their provinces; reshaped ones are cut again
+  const changed = new Set([...oldIds, ...replacements.map(t => t.id)]);
+  const { territories: subdivided, subdivisions } = generateSubdivisions(
+    rebuilt,
+    map.config.subdivisions,
+    map.config.width,
+    map.config.height,
+    map.config.seed ?? 0,
+    { ...map.subdivisions, provinces: map.subdivisions.provinces.filter(p => !changed.has(p.parentId ?? '')) }
+  );
+  return { ...map, territories: subdivided, roads: generateRoads(subdivided), realms, subdivisions };
+}
+
+/**
+ * Population scaled to a new area, keeping the density
+ */
+function scalePopulation(territory: Territory, newArea: number): number {
+  const oldArea = territory.area ?? calculateArea(territory.borderPoints);
+  return oldArea > 0 ? Math.round(territory.metadata.population * newArea / oldArea) : territory.metadata.population;
+}
+
+/**
+ * Move a territory's center and redraw it and its unlocked neighbors as Voronoi cells
+ * @param x, y - New center in map units; must stay inside the reshaped area
+ * @throws GeometryEditError when the territory is locked or the center leaves the area
+ */
+export function moveTerritorySite(map: GeneratedMap, id: string, x: number, y: number): GeneratedMap {
+  const territory = findTerritory(map, id);
+  const byId = new Map(map.territories.map(t => [t.id, t]));
+
+  // Reshaped area: the territory plus every unlocked neighbor that can join it
+  let area = territory.borderPoints;
+  const members = [territory];
+  const candidates = (territory.neighbors ?? [])
+    .map(n => byId.get(n))
+    .filter((t): t is Territory => t !== undefined && !t.locked);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (let k = candidates.length - 1; k >= 0; k--) {
+      const merged = mergePolygons(area, candidates[k].borderPoints);
+      if (merged) {
+        area = merged;
+        members.push(candidates[k]);
+        candidates.splice(k, 1);
+        grew = true;
+      }
+    }
+  }
+
+  if (!isPointInPolygon([x, y], area)) {
+    throw new GeometryEditError(`${territory.name} cannot move past its neighbors`);
+  }
+
+  const sites = members.map(m => (m.id === id ? [x, y] : [m.centerX, m.centerY]) as Point);
+  const shapes = voronoiWithin(area, sites);
+  checkShapes(shapes, `${territory.name} is too close to a neighboring center`);
+
+  return replaceTerritories(
+    map,
+    members.map(m => m.id),
+    members.map((m, k) => ({
+      ...m,
+      centerX: sites[k][0],
+      centerY: sites[k][1],
+      borderPoints: shapes[k],
+      metadata: { ...m.metadata, population: scalePopulation(m, calculateArea(shapes[k])) }
+    }))
+  );
+}
+
+/**
+ * Merge a territory into a neighbor
+ * The kept territory keeps its name, terrain and culture; population and area are
+ * summed, development and resources averaged by area. The absorbed territory leaves
+ * its realm, and a realm left empty is dissolved.
+ * @throws GeometryEditError when either is locked or they do not share a border
+ */
+export function mergeTerritories(map: GeneratedMap, keepId: string, absorbId: string): GeneratedMap {
+  const keep = findTerritory(map, keepId);
+  const absorb = findTerritory(map, absorbId);
+  if (!keep.neighbors?.includes(absorbId)) {
+    throw new GeometryEditError(`${keep.name} and ${absorb.name} do not share a border`);
+  }
+
+  const polygon = mergePolygons(keep.borderPoints, absorb.borderPoints);
+  if (!polygon) throw new GeometryEditError(`${keep.name} and ${absorb.name} cannot be merged into one shape`);
+
+  const keepArea = keep.area ?? calculateArea(keep.borderPoints);
+  const absorbArea = absorb.area ?? calculateArea(absorb.borderPoints);
+  const weighted = (a: number, b: number) => Math.round((a * keepArea + b * absorbArea) / (keepArea + absorbArea));
+
+  // Area-weighted center, unless that falls outside the merged shape
+  const center: Point = [
+    (keep.centerX * keepArea + absorb.centerX * absorbArea) / (keepArea + absorbArea),
+    (keep.centerY * keepArea + absorb.centerY * absorbArea) / (keepArea + absorbArea)
+  ];
+  const [centerX, centerY] = isPointInPolygon(center, polygon) ? center : [keep.centerX, keep.centerY];
+
+  const merged: Territory = {
+    ...keep,
+    centerX,
+    centerY,
+    borderPoints: polygon,
+    metadata: {
+      ...keep.metadata,
+      population: keep.metadata.population + absorb.metadata.population,
+      development: weighted(keep.metadata.development, absorb.metadata.development),
+      resources: {
+        food: weighted(keep.metadata.resources.food, absorb.metadata.resources.food),
+        gold: weighted(keep.metadata.resources.gold, absorb.metadata.resources.gold),
+        military: weighted(keep.metadata.resources.military, absorb.metadata.resources.military)
+      }
+    }
+  };
+
+  // The absorbed territory leaves its realm; empty realms are dissolved
+  let realms = map.realms.map(realm => {
+    if (!realm.territoryIds.includes(absorbId)) return realm;
+    const territoryIds = realm.territoryIds.filter(t => t !== absorbId);
+    return { ...realm, territoryIds, capitalId: realm.capitalId === absorbId ? territoryIds[0] ?? keepId : realm.capitalId };
+  });
+  const dissolved = new Set(realms.filter(r => r.territoryIds.length === 0).map(r => r.id));
+  realms = realms
+    .filter(r => !dissolved.has(r.id))
+    .map(r => (r.liegeId && dissolved.has(r.liegeId) ? { ...r, liegeId: undefined } : r));
+
+  const result = replaceTerritories(map, [keepId, absorbId], [merged], realms);
+  return {
+    ...result,
+    rivers: map.rivers.map(river => ({
+      ...river,
+      territoryIds: river.territoryIds
+        .map(t => (t === absorbId ? keepId : t))
+        .filter((t, i, ids) => ids.indexOf(t) === i)
+    }))
+  };
+}
+
+/**
+ * Split a territory into parts with a local Voronoi diagram
+ * The first part keeps the id and name; the others get new ids, names in the
+ * territory's culture and terrain colors. Population is shared out by area, and
+ * every part stays in the original realm.
+ * @param parts - Number of parts (2 to MAX_SPLIT_PARTS)
+ * @throws GeometryEditError when the territory is locked or too small to split
+ */
+export function splitTerritory(map: GeneratedMap, id: string, parts: number): GeneratedMap {
+  const territory = findTerritory(map, id);
+  if (!Number.isInteger(parts) || parts < 2 || parts > MAX_SPLIT_PARTS) {
+    throw new GeometryEditError(`A territory can be split into 2 to ${MAX_SPLIT_PARTS} parts`);
+  }
+
+  const seed = map.config.seed ?? 0;
+  const polygon = territory.borderPoints;
+
+  // Random sites inside the territory, relaxed so the parts come out even
+  const indices = map.territories.map(t => Number(/^territory-(\d+)$/.exec(t.id)?.[1] ?? -1));
+  const nextIndex = Math.max(-1, ...indices) + 1;
+  const sites = scatterSites(polygon, parts, new SeededRandom(seed + nextIndex * 31 + parts), SPLIT_RELAXATION);
+  if (!sites) throw new GeometryEditError(`${territory.name} is too small to split`);
+  const shapes = voronoiWithin(polygon, sites);
+  checkShapes(shapes, `${territory.name} is too small to split into ${parts} parts`);
+
+  const names = new Set(map.territories.map(t => t.name));
+  const pieces = shapes.map((shape, k): Territory => {
+    const metadata = {
+      ...territory.metadata,
+      resources: { ...territory.metadata.resources },
+      population: scalePopulation(territory, calculateArea(shape))
+    };
+    const base = { ...territory, centerX: sites[k][0], centerY: sites[k][1], borderPoints: shape, metadata };
+    if (k === 0) return base;
+
+    const index = nextIndex + k - 1;
+    let nameSeed = seed + index;
+    let name = generateTerritoryName(nameSeed, { culture: metadata.culture, terrain: metadata.terrain });
+    while (names.has(name)) {
+      name = generateTerritoryName(++nameSeed, { culture: metadata.culture, terrain: metadata.terrain });
+    }
+    names.add(name);
+    return { ...base, id: `territory-${index}`, name, color: generateTerrainColor(metadata.terrain, index, seed) };
+  });
+
+  const newIds = pieces.slice(1).map(p => p.id);
+  const realms = map.realms.map(realm =>
+    realm.territoryIds.includes(id) ? { ...realm, territoryIds: [...realm.territoryIds, ...newIds] } : realm
+  );
+  return replaceTerritories(map, [id], pieces, realms);
+}
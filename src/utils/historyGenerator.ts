@@ -0,0 +1,381 @@
+import { Territory } from '../types/Territory';
+import { Realm } from '../types/Realm';
+import {
+  History,
+  HistoryConfig,
+  HistoryEvent,
+  HistoryEventType,
+  HistoricalRealm,
+  HistorySnapshot
+} from '../types/History';
+import { SeededRandom } from './seededRandom';
+import { isWaterTerrain } from './metadataGenerator';
+import { buildTerrainGraph, findShortestPaths, growRegions, WeightedGraph } from './pathfinding';
+import { KINGDOM_SIZE, chooseHeraldry, getRulerTitle, nameRealm } from './politicalGenerator';
+
+/**
+ * Historical simulation over the generated realms
+ *
+ * Each simulated year:
+ * 1. Populations grow toward a food-limited capacity; famine and plague cut them back
+ * 2. Independent realms may go to war with a neighbor and seize one border territory
+ * 3. Rulers die; large realms may be partitioned between two heirs
+ * 4. Strong vassals may break away from their liege
+ *
+ * Realms stay contiguous: a territory is only taken if the loser stays in one piece.
+ * The same territories, realms and seed always produce the same history.
+ */
+
+export const DEFAULT_HISTORY: HistoryConfig = { years: 200, startYear: 1000 };
+
+// Chance per year that an independent realm starts a war
+const WAR_CHANCE = 0.06;
+// Chance per year that a realm's ruler dies
+const RULER_DEATH_CHANCE = 1 / 25;
+// Chance that a succession splits a realm of at least PARTITION_SIZE territories
+const PARTITION_CHANCE = 0.3;
+const PARTITION_SIZE = 6;
+// Chance per year that a vassal at least half as strong as its liege breaks away
+const INDEPENDENCE_CHANCE = 0.02;
+// Chance per year of famine in a territory with less food than FAMINE_FOOD
+const FAMINE_CHANCE = 0.01;
+const FAMINE_FOOD = 40;
+// Chance per year that plague strikes somewhere on the map
+const PLAGUE_CHANCE = 0.01;
+
+interface RealmState {
+  capitalId: string;
+  liegeId?: string;
+  territoryIds: Set<string>;
+}
+
+/**
+ * Whether a realm is still in one piece after losing a territory
+ */
+function staysConnected(territoryIds: Set<string>, removedId: string, byId: Map<string, Territory>): boolean {
+  const remaining = Array.from(territoryIds).filter(id => id !== removedId);
+  if (remaining.length === 0) return true;
+
+  const reached = new Set([remaining[0]]);
+  const queue = [remaining[0]];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    byId.get(current)!.neighbors?.forEach(id => {
+      if (id !== removedId && territoryIds.has(id) && !reached.has(id)) {
+        reached.add(id);
+        queue.push(id);
+      }
+    });
+  }
+  return reached.size === remaining.length;
+}
+
+/**
+ * Restrict a graph to the given nodes
+ */
+function subgraph(graph: WeightedGraph, ids: Set<string>): WeightedGraph {
+  const result: WeightedGraph = new Map();
+  ids.forEach(id => result.set(id, (graph.get(id) ?? []).filter(e => ids.has(e.to))));
+  return result;
+}
+
+/**
+ * Simulate the history of a map
+ * @param territories - Territories with neighbors (water is skipped)
+ * @param realms - Realms at the start of the simulation
+ * @param seed - Seed for wars, successions, famines and plagues
+ * @param config - Number of years and the calendar year of the generated map
+ * @returns Timeline of events and one snapshot per year
+ */
+export function generateHistory(
+  territories: Territory[],
+  realms: Realm[],
+  seed: number,
+  config: HistoryConfig = DEFAULT_HISTORY
+): History {
+  const rng = new SeededRandom(seed);
+  const startYear = config.startYear ?? DEFAULT_HISTORY.startYear!;
+  const land = territories.filter(t => !isWaterTerrain(t.metadata.terrain));
+  const byId = new Map(land.map(t => [t.id, t]));
+  const graph = buildTerrainGraph(land);
+
+  const historicalRealms: HistoricalRealm[] = realms.map(realm => ({
+    id: realm.id,
+    name: realm.name,
+    type: realm.type,
+    rulerTitle: realm.rulerTitle,
+    colors: realm.colors,
+    foundedYear: startYear
+  }));
+  const realmById = new Map(historicalRealms.map(r => [r.id, r]));
+
+  const states = new Map<string, RealmState>();
+  const owners = new Map<string, string>();
+  realms.forEach(realm => {
+    if (realm.territoryIds.length === 0) return;
+    states.set(realm.id, {
+      capitalId: realm.capitalId,
+      liegeId: realm.liegeId,
+      territoryIds: new Set(realm.territoryIds)
+    });
+    realm.territoryIds.forEach(id => owners.set(id, realm.id));
+  });
+
+  // Populations grow toward a capacity set by the land's food
+  const populations = new Map(land.map(t => [t.id, t.metadata.population]));
+  const capacities = new Map(land.map(t => [t.id, t.metadata.population * (1 + t.metadata.resources.food / 100)]));
+
+  const events: HistoryEvent[] = [];
+  const snapshots: HistorySnapshot[] = [];
+  let year = startYear;
+
+  const record = (type: HistoryEventType, description: string, realmIds: string[], territoryIds: string[]) => {
+    events.push({ year, type, description, realmIds, territoryIds });
+  };
+
+  const realmName = (id: string) => realmById.get(id)!.name;
+  const territoryName = (id: string) => byId.get(id)!.name;
+
+  const topLiege = (id: string): string => {
+    const seen = new Set<string>();
+    let current = id;
+    while (states.get(current)?.liegeId && !seen.has(current)) {
+      seen.add(current);
+      current = states.get(current)!.liegeId!;
+    }
+    return current;
+  };
+
+  // Armies are raised from the people, led by the land's martial tradition
+  const realmStrength = (id: string) =>
+    Array.from(states.get(id)!.territoryIds).reduce(
+      (sum, tid) => sum + populations.get(tid)! * (0.5 + byId.get(tid)!.metadata.resources.military / 100),
+      0
+    );
+  const blocStrength = (id: string) =>
+    Array.from(states.keys())
+      .filter(other => topLiege(other) === id)
+      .reduce((sum, other) => sum + realmStrength(other), 0);
+
+  const neighboringRealms = (id: string): string[] => {
+    const result = new Set<string>();
+    states.get(id)!.territoryIds.forEach(tid => {
+      byId.get(tid)!.neighbors?.forEach(nid => {
+        const owner = owners.get(nid);
+        if (owner && owner !== id) result.add(owner);
+      });
+    });
+    return Array.from(result).sort();
+  };
+
+  const takeSnapshot = () => {
+    const capitals: Record<string, string> = {};
+    const lieges: Record<string, string> = {};
+    states.forEach((state, id) => {
+      capitals[id] = state.capitalId;
+      if (state.liegeId) lieges[id] = state.liegeId;
+    });
+    snapshots.push({
+      year,
+      owners: Object.fromEntries(owners),
+      capitals,
+      lieges,
+      populations: Object.fromEntries(Array.from(populations, ([id, p]) => [id, Math.round(p)]))
+    });
+  };
+
+  /**
+   * Remove a realm that has lost its last territory; its vassals go free
+   */
+  const fall = (id: string) => {
+    states.delete(id);
+    realmById.get(id)!.fallenYear = year;
+    states.forEach(state => {
+      if (state.liegeId === id) delete state.liegeId;
+    });
+  };
+
+  const simulatePopulation = () => {
+    land.forEach(t => {
+      const population = populations.get(t.id)!;
+      const rate = 0.004 + (t.metadata.resources.food - 50) / 20000 + (rng.next() - 0.5) * 0.004;
+      populations.set(t.id, Math.max(100, population + population * rate * (1 - population / capacities.get(t.id)!)));
+
+      if (t.metadata.resources.food < FAMINE_FOOD && rng.next() < FAMINE_CHANCE) {
+        populations.set(t.id, populations.get(t.id)! * (0.8 + rng.next() * 0.1));
+        const owner = owners.get(t.id);
+        record('famine', `Famine strikes ${t.name}`, owner ? [owner] : [], [t.id]);
+      }
+    });
+
+    if (land.length > 0 && rng.next() < PLAGUE_CHANCE) {
+      const origin = land[rng.nextInt(0, land.length - 1)];
+      const stricken = [origin.id, ...(origin.neighbors ?? []).filter(id => byId.has(id))];
+      stricken.forEach(id => populations.set(id, populations.get(id)! * (0.65 + rng.next() * 0.15)));
+      // Land outside every realm (possible in imported maps) has no one to record
+      const realmIds = Array.from(new Set(stricken.flatMap(id => owners.get(id) ?? [])));
+      record('plague', `Plague breaks out in ${origin.name} and spreads to its neighbors`, realmIds, stricken);
+    }
+  };
+
+  const simulateWars = () => {
+    Array.from(states.keys()).forEach(attackerId => {
+      const attacker = states.get(attackerId);
+      if (!attacker || attacker.liegeId || rng.next() >= WAR_CHANCE) return;
+
+      // Never against its own vassals or their vassals
+      const targets = neighboringRealms(attackerId).filter(id => topLiege(id) !== attackerId);
+      if (targets.length === 0) return;
+      const defenderId = targets[rng.nextInt(0, targets.length - 1)];
+      const defender = states.get(defenderId)!;
+
+      const attack = blocStrength(attackerId);
+      const defense = blocStrength(topLiege(defenderId));
+      if (rng.next() >= attack / (attack + defense)) return;
+
+      // Seize the least defended border territory that leaves the defender in one piece
+      const lastStand = defender.territoryIds.size === 1;
+      const prize = Array.from(defender.territoryIds)
+        .filter(tid =>
+          byId.get(tid)!.neighbors?.some(nid => owners.get(nid) === attackerId) &&
+          (lastStand || (tid !== defender.capitalId && staysConnected(defender.territoryIds, tid, byId)))
+        )
+        .sort((a, b) =>
+          byId.get(a)!.metadata.resources.military - byId.get(b)!.metadata.resources.military || a.localeCompare(b)
+        )[0];
+      if (!prize) return;
+
+      defender.territoryIds.delete(prize);
+      attacker.territoryIds.add(prize);
+      owners.set(prize, attackerId);
+      populations.set(prize, populations.get(prize)! * 0.9);
+
+      if (lastStand) {
+        record('annexation', `The ${realmName(attackerId)} conquers the ${realmName(defenderId)}`,
+          [attackerId, defenderId], [prize]);
+        fall(defenderId);
+      } else {
+        record('conquest', `The ${realmName(attackerId)} seizes ${territoryName(prize)} from the ${realmName(defenderId)}`,
+          [attackerId, defenderId], [prize]);
+      }
+    });
+  };
+
+  const simulateSuccessions = () => {
+    Array.from(states.keys()).forEach(id => {
+      const state = states.get(id)!;
+      const realm = realmById.get(id)!;
+      if (rng.next() >= RULER_DEATH_CHANCE) return;
+      if (realm.type === 'free-city' || state.territoryIds.size < PARTITION_SIZE || rng.next() >= PARTITION_CHANCE) return;
+
+      // The younger heir is seated as far from the old capital as possible
+      const domain = subgraph(graph, state.territoryIds);
+      const { costs } = findShortestPaths(domain, state.capitalId);
+      const heirSeat = Array.from(costs.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0];
+      if (heirSeat === state.capitalId) return;
+
+      const shares = growRegions(domain, [state.capitalId, heirSeat]);
+      const heirIds = Array.from(state.territoryIds).filter(tid => shares.get(tid)?.source === heirSeat);
+      const seat = byId.get(heirSeat)!;
+      const type = heirIds.length >= KINGDOM_SIZE ? 'kingdom' : 'duchy';
+      const taken = new Set(
+        [id, ...neighboringRealms(id)].map(other => realmById.get(other)!.colors.primary)
+      );
+
+      const heir: HistoricalRealm = {
+        id: `realm-${historicalRealms.length}`,
+        name: nameRealm(type, seat),
+        type,
+        rulerTitle: getRulerTitle(type, seat.metadata.culture),
+        colors: chooseHeraldry(rng, taken),
+        foundedYear: year
+      };
+      historicalRealms.push(heir);
+      realmById.set(heir.id, heir);
+
+      heirIds.forEach(tid => {
+        state.territoryIds.delete(tid);
+        owners.set(tid, heir.id);
+      });
+      states.set(heir.id, { capitalId: heirSeat, liegeId: state.liegeId, territoryIds: new Set(heirIds) });
+
+      record('partition',
+        `On the death of its ${realm.rulerTitle}, the ${realm.name} is divided; the ${heir.name} is founded`,
+        [id, heir.id], heirIds);
+    });
+  };
+
+  const simulateIndependence = () => {
+    states.forEach((state, id) => {
+      if (!state.liegeId || rng.next() >= INDEPENDENCE_CHANCE) return;
+      if (realmStrength(id) < realmStrength(state.liegeId) * 0.5) return;
+      record('independence', `The ${realmName(id)} breaks free of the ${realmName(state.liegeId)}`,
+        [id, state.liegeId], []);
+      delete state.liegeId;
+    });
+  };
+
+  takeSnapshot();
+  for (let k = 0; k < config.years; k++) {
+    year++;
+    simulatePopulation();
+    simulateWars();
+    simulateSuccessions();
+    simulateIndependence();
+    takeSnapshot();
+  }
+
+  return {
+    startYear,
+    endYear: year,
+    realms: historicalRealms,
+    events,
+    snapshots
+  };
+}
+
+/**
+ * Snapshot for a calendar year, clamped to the simulated range
+ */
+export function getSnapshot(history: History, year: number): HistorySnapshot {
+  const index = Math.round(year - history.startYear);
+  return history.snapshots[Math.min(Math.max(index, 0), history.snapshots.length - 1)];
+}
+
+/**
+ * Realms standing in a given year, with their holdings at the end of that year
+ */
+export function realmsAtYear(history: History, year: number): Realm[] {
+  const snapshot = getSnapshot(history, year);
+  const holdings = new Map<string, string[]>();
+  Object.entries(snapshot.owners).forEach(([territoryId, realmId]) => {
+    if (!holdings.has(realmId)) holdings.set(realmId, []);
+    holdings.get(realmId)!.push(territoryId);
+  });
+
+  return history.realms
+    .filter(realm => snapshot.capitals[realm.id])
+    .map(realm => ({
+      id: realm.id,
+      name: realm.name,
+      type: realm.type,
+      capitalId: snapshot.capitals[realm.id],
+      rulerTitle: realm.rulerTitle,
+      territoryIds: holdings.get(realm.id) ?? [],
+      colors: realm.colors,
+      ...(snapshot.lieges[realm.id] && { liegeId: snapshot.lieges[realm.id] })
+    }));
+}
+
+/**
+ * Territories with their populations in a given year
+ */
+export function territoriesAtYear(territories: Territory[], history: History, year: number): Territory[] {
+  const { populations } = getSnapshot(history, year);
+  return territories.map(territory => {
+    const population = populations[territory.id];
+    if (population === undefined || population === territory.metadata.population) return territory;
+    return { ...territory, metadata: { ...territory.metadata, population } };
+  });
+}
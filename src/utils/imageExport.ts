@@ -0,0 +1,103 @@
+/**
+ * Browser helpers for saving rendered maps and reading images
+ */
+
+/**
+ * Rasterize an SVG document to a PNG at a chosen size
+ * The SVG is scaled to fit, so the output does not depend on the on-screen canvas
+ * @param svg - SVG markup (e.g. from renderMapSvg)
+ * @param width - Output width in pixels
+ * @param height - Output height in pixels
+ * @returns PNG image data
+ */
+export function rasterizeSvg(svg: string, width: number, height: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context unavailable'));
+        return;
+      }
+      ctx.drawImage(image, 0, 0, width, height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('SVG could not be loaded as an image'));
+    };
+
+    image.src = url;
+  });
+}
+
+/**
+ * Offer a blob to the user as a file download
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a blob as a data URL, e.g. to store a thumbnail as text
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Blob could not be read'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Read an image as a map shape mask: dark, opaque pixels are inside
+ * The image is scaled down to the given width, keeping its aspect ratio
+ * @param columns - Mask width in cells
+ * @returns One string per row, '1' inside and '0' outside
+ */
+export function readImageMask(file: Blob, columns: number = 96): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const rows = Math.max(1, Math.round(columns * image.height / image.width));
+      const canvas = document.createElement('canvas');
+      canvas.width = columns;
+      canvas.height = rows;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context unavailable'));
+        return;
+      }
+      ctx.drawImage(image, 0, 0, columns, rows);
+      const { data } = ctx.getImageData(0, 0, columns, rows);
+      resolve(Array.from({ length: rows }, (_, r) =>
+        Array.from({ length: columns }, (_, c) => {
+          const i = (r * columns + c) * 4;
+          const luminance = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+          return data[i + 3] >= 128 && luminance < 128 ? '1' : '0';
+        }).join('')
+      ));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The file could not be read as an image'));
+    };
+
+    image.src = url;
+  });
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { generateWorld } from './mapGenerator';
+import { MapDocumentError, parseMapDocument } from './mapDocument';
+
+const map = generateWorld({ width: 400, height: 300, territoryCount: 12, seed: 7 });
+
+describe('parseMapDocument', () => {
+  it('reads a version 0 file without borders or neighbors', () => {
+    const bare = map.territories.map(t => ({ ...t, borders: undefined, neighbors: undefined }));
+    const document = parseMapDocument(JSON.stringify(bare));
+
+    expect(document.version).toBe(1);
+    document.territories.forEach((t, i) => {
+      expect(t.neighbors).toEqual(map.territories[i].neighbors);
+      expect(t.borders?.map(b => b.neighborId)).toEqual(t.neighbors);
+    });
+    expect(document.roads.segments.length).toBeGreaterThan(0);
+  });
+
+  it('rejects a version 0 file that is not a list', () => {
+    expect(() => parseMapDocument('{"version":0}')).toThrow(MapDocumentError);
+    expect(() => parseMapDocument('{"version":0}')).toThrow('A version 0 map is a list of territories, got an object');
+  });
+});
@@ -0,0 +1,503 @@
+import { GeneratedMap, TerrainType } from '../types/Territory';
+import { MapDocument, MapDocumentIssue } from '../types/MapDocument';
+import { findSharedBorders } from './geometry';
+import { GENERATOR_VERSION } from './mapGenerator';
+import { isWaterTerrain } from './metadataGenerator';
+import { generateRoads } from './roadGenerator';
+import { generateRealms } from './politicalGenerator';
+import { MAP_SHAPE_KINDS, MAX_ISLANDS } from './mapShape';
+import { MAX_SUBDIVISIONS } from './subdivisionGenerator';
+
+/**
+ * Versioned map files
+ *
+ * Reading a file:
+ * 1. Parse the JSON and detect the document version (a bare array is version 0)
+ * 2. Run migrations one version at a time up to the current version
+ * 3. Validate the result against the current schema, collecting every problem
+ * 4. Rebuild layers that older versions did not store
+ *
+ * Adding a version: bump CURRENT_DOCUMENT_VERSION, add a migration from the
+ * previous version to MIGRATIONS, and extend validateMapDocument.
+ */
+
+export const CURRENT_DOCUMENT_VERSION = 1;
+
+// Stop collecting after this many problems; a wrong file would otherwise list thousands
+const MAX_ISSUES = 50;
+
+/**
+ * Map file that cannot be read: not JSON, from a newer version, or failing validation
+ */
+export class MapDocumentError extends Error {
+  issues: MapDocumentIssue[];
+
+  constructor(message: string, issues: MapDocumentIssue[] = []) {
+    super(issues.length > 0
+      ? `${message}\n${issues.map(issue => `- ${issue.path || 'document'}: ${issue.message}`).join('\n')}`
+      : message);
+    this.name = 'MapDocumentError';
+    this.issues = issues;
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Migrations keyed by the version they upgrade from
+ * They run before validation, so they must tolerate malformed input
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  // Version 0: a bare Territory[] array, possibly saved before climate fields existed
+  0: data => {
+    if (!Array.isArray(data)) {
+      throw new MapDocumentError(`A version 0 map is a list of territories, got ${describe(data)}`);
+    }
+    const territories = data.map(item => {
+      if (!isObject(item) || !isObject(item.metadata)) return item;
+      const metadata = item.metadata;
+      const water = Object.values(TerrainType).includes(metadata.terrain as TerrainType) &&
+        isWaterTerrain(metadata.terrain as TerrainType);
+      return {
+        ...item,
+        metadata: {
+          elevation: water ? 0.15 : 0.5,
+          moisture: 0.5,
+          temperature: 0.5,
+          ...metadata
+        }
+      };
+    });
+
+    // Map size was not saved: use the extent of the territories
+    let width = 0;
+    let height = 0;
+    territories.forEach(item => {
+      if (!isObject(item) || !Array.isArray(item.borderPoints)) return;
+      item.borderPoints.forEach(point => {
+        if (Array.isArray(point) && typeof point[0] === 'number' && typeof point[1] === 'number') {
+          width = Math.max(width, point[0]);
+          height = Math.max(height, point[1]);
+        }
+      });
+    });
+
+    return {
+      format: 'hierophant-map',
+      version: 1,
+      generatorVersion: 'unknown',
+      savedAt: new Date(0).toISOString(),
+      config: { width: Math.ceil(width), height: Math.ceil(height), territoryCount: territories.length },
+      territories,
+      // Rivers were not saved; borders, roads and realms are rebuilt after validation
+      rivers: [],
+      roads: { nodes: [], segments: [] },
+      realms: []
+    };
+  }
+};
+
+/**
+ * Describe a value for an error message
+ */
+function describe(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'string') return `"${value.length > 30 ? value.slice(0, 30) + '…' : value}"`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+/**
+ * Collects problems under a path prefix
+ */
+class Checker {
+  constructor(private issues: MapDocumentIssue[], private path: string) {}
+
+  at(key: string | number): Checker {
+    const path = typeof key === 'number' ? `${this.path}[${key}]` : this.path ? `${this.path}.${key}` : key;
+    return new Checker(this.issues, path);
+  }
+
+  fail(message: string): false {
+    if (this.issues.length < MAX_ISSUES) this.issues.push({ path: this.path, message });
+    return false;
+  }
+
+  object(value: unknown): value is Raw {
+    return isObject(value) || this.fail(`expected an object, got ${describe(value)}`);
+  }
+
+  array(value: unknown): value is unknown[] {
+    return Array.isArray(value) || this.fail(`expected a list, got ${describe(value)}`);
+  }
+
+  string(value: unknown): value is string {
+    return typeof value === 'string' || this.fail(`expected text, got ${describe(value)}`);
+  }
+
+  number(value: unknown, min = -Infinity, max = Infinity): value is number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return this.fail(`expected a number, got ${describe(value)}`);
+    }
+    if (value < min || value > max) {
+      const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+      return this.fail(`must be ${range}, got ${value}`);
+    }
+    return true;
+  }
+
+  oneOf<T extends string>(value: unknown, options: readonly T[]): value is T {
+    return options.includes(value as T) || this.fail(`expected one of ${options.join(', ')}, got ${describe(value)}`);
+  }
+
+  point(value: unknown): boolean {
+    return (Array.isArray(value) && value.length === 2 &&
+      value.every(n => typeof n === 'number' && Number.isFinite(n))) ||
+      this.fail(`expected an [x, y] point, got ${describe(value)}`);
+  }
+
+  // Id that must refer to something in the document
+  reference(value: unknown, known: Set<string>, what: string): boolean {
+    if (!this.string(value)) return false;
+    return known.has(value) || this.fail(`refers to unknown ${what} "${value}"`);
+  }
+}
+
+function checkShape(check: Checker, value: unknown): void {
+  if (!check.object(value)) return;
+  if (value.outside !== undefined) check.at('outside').oneOf(value.outside, ['sea', 'void'] as const);
+  if (!check.at('kind').oneOf(value.kind, MAP_SHAPE_KINDS)) return;
+
+  if (value.kind === 'archipelago' && value.islands !== undefined) {
+    if (check.at('islands').number(value.islands, 1, MAX_ISLANDS) && !Number.isInteger(value.islands)) {
+      check.at('islands').fail(`expected a whole number, got ${value.islands}`);
+    }
+  }
+  if (value.kind === 'polygon') {
+    const points = check.at('points');
+    if (points.array(value.points)) {
+      if (value.points.length < 3) points.fail(`a polygon needs at least 3 points, got ${value.points.length}`);
+      value.points.forEach((point, i) => points.at(i).point(point));
+    }
+  }
+  if (value.kind === 'mask') {
+    const rows = check.at('rows');
+    if (rows.array(value.rows)) {
+      if (value.rows.length === 0) rows.fail('a mask needs at least one row');
+      const columns = typeof value.rows[0] === 'string' ? value.rows[0].length : 0;
+      value.rows.forEach((row, i) => {
+        if (!rows.at(i).string(row)) return;
+        if (/[^01]/.test(row)) rows.at(i).fail("expected only '0' and '1'");
+        else if (row.length !== columns) rows.at(i).fail(`expected ${columns} cells like the first row, got ${row.length}`);
+      });
+    }
+  }
+}
+
+function checkConfig(check: Checker, value: unknown): void {
+  if (!check.object(value)) return;
+  check.at('width').number(value.width, 1);
+  check.at('height').number(value.height, 1);
+  check.at('territoryCount').number(value.territoryCount, 1);
+  if (value.seed !== undefined) check.at('seed').number(value.seed);
+  if (value.seaLevel !== undefined) check.at('seaLevel').number(value.seaLevel, 0, 1);
+  if (value.climate !== undefined && check.at('climate').object(value.climate)) {
+    check.at('climate').at('band').oneOf(value.climate.band, ['northern', 'equatorial', 'southern'] as const);
+    if (value.climate.temperatureOffset !== undefined) {
+      check.at('climate').at('temperatureOffset').number(value.climate.temperatureOffset, -1, 1);
+    }
+  }
+  if (value.shape !== undefined) checkShape(check.at('shape'), value.shape);
+  if (value.subdivisions !== undefined && check.at('subdivisions').object(value.subdivisions)) {
+    const subdivisions = value.subdivisions;
+    (['provinces', 'counties'] as const).forEach(key => {
+      const count = check.at('subdivisions').at(key);
+      if (count.number(subdivisions[key], 2, MAX_SUBDIVISIONS) && !Number.isInteger(subdivisions[key])) {
+        count.fail(`expected a whole number, got ${subdivisions[key]}`);
+      }
+    });
+  }
+}
+
+function checkTerritory(check: Checker, value: unknown, ids: Set<string>): void {
+  if (!check.object(value)) return;
+  check.at('id').string(value.id);
+  check.at('name').string(value.name);
+  check.at('color').string(value.color);
+  check.at('centerX').number(value.centerX);
+  check.at('centerY').number(value.centerY);
+  if (value.area !== undefined) check.at('area').number(value.area, 0);
+
+  const points = check.at('borderPoints');
+  if (points.array(value.borderPoints)) {
+    if (value.borderPoints.length < 3) points.fail(`a polygon needs at least 3 points, got ${value.borderPoints.length}`);
+    value.borderPoints.forEach((point, i) => points.at(i).point(point));
+  }
+  if (value.locked !== undefined && typeof value.locked !== 'boolean') {
+    check.at('locked').fail(`expected true or false, got ${describe(value.locked)}`);
+  }
+
+  const metadata = check.at('metadata');
+  if (metadata.object(value.metadata)) {
+    const m = value.metadata;
+    metadata.at('terrain').oneOf(m.terrain, Object.values(TerrainType));
+    metadata.at('population').number(m.population, 0);
+    metadata.at('culture').string(m.culture);
+    if (m.minorityCulture !== undefined) metadata.at('minorityCulture').string(m.minorityCulture);
+    metadata.at('development').number(m.development, 0, 100);
+    metadata.at('elevation').number(m.elevation, 0, 1);
+    metadata.at('moisture').number(m.moisture, 0, 1);
+    metadata.at('temperature').number(m.temperature, 0, 1);
+    if (m.riverine !== undefined && typeof m.riverine !== 'boolean') {
+      metadata.at('riverine').fail(`expected true or false, got ${describe(m.riverine)}`);
+    }
+    const resources = metadata.at('resources');
+    if (resources.object(m.resources)) {
+      const r = m.resources;
+      (['food', 'gold', 'military'] as const).forEach(key => resources.at(key).number(r[key], 0, 100));
+    }
+  }
+
+  if (value.neighbors !== undefined && check.at('neighbors').array(value.neighbors)) {
+    value.neighbors.forEach((id, i) => check.at('neighbors').at(i).reference(id, ids, 'territory'));
+  }
+  if (value.borders !== undefined && check.at('borders').array(value.borders)) {
+    value.borders.forEach((border, i) => {
+      const b = check.at('borders').at(i);
+      if (!b.object(border)) return;
+      b.at('neighborId').reference(border.neighborId, ids, 'territory');
+      b.at('length').number(border.length, 0);
+      if (b.at('segments').array(border.segments)) {
+        border.segments.forEach((segment, k) => {
+          const s = b.at('segments').at(k);
+          if (!s.object(segment)) return;
+          s.at('start').point(segment.start);
+          s.at('end').point(segment.end);
+        });
+      }
+    });
+  }
+}
+
+/**
+ * Validate a map document against the current schema
+ * @param data - Parsed JSON, already migrated to the current version
+ * @returns Every problem found (up to a limit); empty when the document is valid
+ */
+export function validateMapDocument(data: unknown): MapDocumentIssue[] {
+  const issues: MapDocumentIssue[] = [];
+  const root = new Checker(issues, '');
+  if (!root.object(data)) return issues;
+
+  if (data.format !== 'hierophant-map') root.at('format').fail('not a Hierophant map file');
+  if (data.version !== CURRENT_DOCUMENT_VERSION) {
+    root.at('version').fail(`expected version ${CURRENT_DOCUMENT_VERSION}, got ${describe(data.version)}`);
+  }
+  root.at('generatorVersion').string(data.generatorVersion);
+  root.at('savedAt').string(data.savedAt);
+
+  checkConfig(root.at('config'), data.config);
+
+  // Territories first: the other layers refer to their ids
+  const territoryIds = new Set<string>();
+  const territories = root.at('territories');
+  if (territories.array(data.territories)) {
+    if (data.territories.length === 0) territories.fail('the map has no territories');
+    data.territories.forEach((t, i) => {
+      if (!isObject(t) || typeof t.id !== 'string') return;
+      if (territoryIds.has(t.id)) territories.at(i).at('id').fail(`duplicate territory id "${t.id}"`);
+      territoryIds.add(t.id);
+    });
+    data.territories.forEach((t, i) => checkTerritory(territories.at(i), t, territoryIds));
+  }
+
+  // Provinces inside territories, counties inside provinces; each level has its own ids
+  const subdivisions = root.at('subdivisions');
+  const hierarchy = data.subdivisions;
+  if (hierarchy !== undefined && subdivisions.object(hierarchy)) {
+    let parentIds = territoryIds;
+    (['provinces', 'counties'] as const).forEach(level => {
+      const list = subdivisions.at(level);
+      const ids = new Set<string>();
+      const pieces = hierarchy[level];
+      if (list.array(pieces)) {
+        pieces.forEach((t, i) => {
+          if (!isObject(t) || typeof t.id !== 'string') return;
+          if (ids.has(t.id)) list.at(i).at('id').fail(`duplicate ${level.slice(0, -1)} id "${t.id}"`);
+          ids.add(t.id);
+        });
+        pieces.forEach((t, i) => {
+          checkTerritory(list.at(i), t, ids);
+          if (isObject(t)) list.at(i).at('parentId').reference(t.parentId, parentIds, level === 'provinces' ? 'territory' : 'province');
+        });
+      }
+      parentIds = ids;
+    });
+  }
+
+  const rivers = root.at('rivers');
+  if (rivers.array(data.rivers)) {
+    data.rivers.forEach((river, i) => {
+      const r = rivers.at(i);
+      if (!r.object(river)) return;
+      r.at('id').string(river.id);
+      r.at('name').string(river.name);
+      if (r.at('points').array(river.points)) river.points.forEach((p, k) => r.at('points').at(k).point(p));
+      if (r.at('widths').array(river.widths) && Array.isArray(river.points) &&
+        river.widths.length !== river.points.length) {
+        r.at('widths').fail(`expected one width per point (${river.points.length}), got ${river.widths.length}`);
+      }
+      if (r.at('territoryIds').array(river.territoryIds)) {
+        river.territoryIds.forEach((id, k) => r.at('territoryIds').at(k).reference(id, territoryIds, 'territory'));
+      }
+    });
+  }
+
+  const roads = root.at('roads');
+  if (roads.object(data.roads)) {
+    roads.at('nodes').array(data.roads.nodes);
+    if (roads.at('segments').array(data.roads.segments)) {
+      data.roads.segments.forEach((segment, i) => {
+        const s = roads.at('segments').at(i);
+        if (!s.object(segment)) return;
+        s.at('id').string(segment.id);
+        s.at('from').reference(segment.from, territoryIds, 'territory');
+        s.at('to').reference(segment.to, territoryIds, 'territory');
+        s.at('quality').oneOf(segment.quality, ['major', 'minor'] as const);
+        if (s.at('points').array(segment.points)) segment.points.forEach((p, k) => s.at('points').at(k).point(p));
+      });
+    }
+  }
+
+  const realms = root.at('realms');
+  if (realms.array(data.realms)) {
+    const realmIds = new Set(data.realms.flatMap(r => (isObject(r) && typeof r.id === 'string' ? [r.id] : [])));
+    data.realms.forEach((realm, i) => {
+      const r = realms.at(i);
+      if (!r.object(realm)) return;
+      r.at('id').string(realm.id);
+      r.at('name').string(realm.name);
+      r.at('type').oneOf(realm.type, ['kingdom', 'duchy', 'free-city'] as const);
+      r.at('rulerTitle').string(realm.rulerTitle);
+      r.at('capitalId').reference(realm.capitalId, territoryIds, 'territory');
+      if (r.at('territoryIds').array(realm.territoryIds)) {
+        realm.territoryIds.forEach((id, k) => r.at('territoryIds').at(k).reference(id, territoryIds, 'territory'));
+      }
+      if (r.at('colors').object(realm.colors)) {
+        r.at('colors').at('primary').string(realm.colors.primary);
+        r.at('colors').at('secondary').string(realm.colors.secondary);
+      }
+      if (realm.liegeId !== undefined) r.at('liegeId').reference(realm.liegeId, realmIds, 'realm');
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a map configuration on its own, e.g. one read from a map link
+ * @returns Every problem found, with paths under "config"
+ */
+export function validateMapConfig(config: unknown): MapDocumentIssue[] {
+  const issues: MapDocumentIssue[] = [];
+  checkConfig(new Checker(issues, 'config'), config);
+  return issues;
+}
+
+/**
+ * Validate territories on their own, e.g. after applying edits from a map link
+ * @returns Every problem found, with paths under "territories"
+ */
+export function validateTerritories(territories: unknown[]): MapDocumentIssue[] {
+  const issues: MapDocumentIssue[] = [];
+  const list = new Checker(issues, 'territories');
+  const ids = new Set(territories.flatMap(t => (isObject(t) && typeof t.id === 'string' ? [t.id] : [])));
+  territories.forEach((t, i) => checkTerritory(list.at(i), t, ids));
+  return issues;
+}
+
+/**
+ * Wrap a generated map in a document for saving
+ */
+export function createMapDocument(map: GeneratedMap): MapDocument {
+  return {
+    format: 'hierophant-map',
+    version: CURRENT_DOCUMENT_VERSION,
+    generatorVersion: GENERATOR_VERSION,
+    savedAt: new Date().toISOString(),
+    ...map
+  };
+}
+
+/**
+ * Read a saved map file of any supported version
+ * @param text - File contents
+ * @returns The document, migrated to the current version and validated
+ * @throws MapDocumentError listing every problem found
+ */
+export function parseMapDocument(text: string): MapDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new MapDocumentError(`The file is not valid JSON (${(error as Error).message})`);
+  }
+
+  let version: number;
+  if (Array.isArray(data)) {
+    version = 0;
+  } else if (isObject(data) && typeof data.version === 'number') {
+    version = data.version;
+  } else {
+    throw new MapDocumentError('The file is not a Hierophant map: it has no document version');
+  }
+
+  if (version > CURRENT_DOCUMENT_VERSION) {
+    throw new MapDocumentError(
+      `The map was saved by a newer version of Hierophant (document version ${version}); ` +
+      `this version reads up to ${CURRENT_DOCUMENT_VERSION}`
+    );
+  }
+
+  const fromVersion = version;
+  while (version < CURRENT_DOCUMENT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new MapDocumentError(`Document version ${version} is not supported`);
+    data = migrate(data);
+    version++;
+  }
+
+  const issues = validateMapDocument(data);
+  if (issues.length > 0) {
+    const count = issues.length >= MAX_ISSUES ? `${MAX_ISSUES}+` : String(issues.length);
+    throw new MapDocumentError(`The map file has ${count} problem${issues.length === 1 ? '' : 's'}:`, issues);
+  }
+
+  const document = data as MapDocument;
+  if (fromVersion === 0) {
+    // Saved borders may be missing or stale; neighbors and roads follow from the polygons
+    const tolerance = Math.max(document.config.width, document.config.height) * 1e-6;
+    const borders = findSharedBorders(document.territories.map(t => ({ id: t.id, points: t.borderPoints })), tolerance);
+    document.territories = document.territories.map(t => {
+      const territoryBorders = borders.get(t.id)!;
+      return { ...t, borders: territoryBorders, neighbors: territoryBorders.map(b => b.neighborId) };
+    });
+    document.roads = generateRoads(document.territories);
+    document.realms = generateRealms(document.territories, document.config.seed ?? 0);
+  }
+  return document;
+}
+
+/**
+ * Take the map layers out of a document
+ */
+export function documentToMap(document: MapDocument): GeneratedMap {
+  const { config, territories, rivers, roads, realms, subdivisions } = document;
+  return { config, territories, rivers, roads, realms, ...(subdivisions && { subdivisions }) };
+}
@@ -1,9 +1,23 @@
-import { Delaunay } from 'd3-delaunay';
-import { Territory, MapConfig } from '../types/Territory';
+import { Delaunay, Voronoi } from 'd3-delaunay';
+import { Territory, MapConfig, TerritoryBorder, TerrainType, GeneratedMap } from '../types/Territory';
 import { generateTerritoryNames } from './nameGenerator';
 import { generateTerrainColor } from './colorGenerator';
-import { generateMetadata, calculateArea } from './metadataGenerator';
+import {
+  generateMetadata,
+  generateTerrain,
+  calculateArea,
+  createEnvironmentSampler,
+  isWaterTerrain,
+  CellEnvironment
+} from './metadataGenerator';
 import { SeededRandom } from './seededRandom';
+import { generateRivers } from './riverGenerator';
+import { generateRoads } from './roadGenerator';
+import { assignCultures } from './cultureGenerator';
+import { generateRealms } from './politicalGenerator';
+import { createMapOutline, getOutsideColor, MapOutline, MapShapeError } from './mapShape';
+import { snapVertices } from './geometry';
+import { generateSubdivisions } from './subdivisionGenerator';
 
 /**
  * Core map generator using Voronoi diagrams
@@ -11,10 +25,21 @@ import { SeededRandom } from './seededRandom';
  * Architecture:
  * 1. Generate random seed points (Lloyd's relaxation for better distribution)
  * 2. Create Voronoi diagram using Delaunay triangulation
- * 3. Clip polygons to map bounds
- * 4. Generate names and colors for each territory
+ * 3. Clip polygons to map bounds (and to the map shape, when it is not a rectangle)
+ * 4. Extract shared borders between neighboring cells
+ * 5. Sample elevation/moisture and flood cells below sea level
+ * 6. Trace rivers from highlands down to water
+ * 7. Grow culture regions from hearths across the land
+ * 8. Generate culture- and terrain-aware names, metadata and colors for each territory
+ * 9. Connect territory centers with a road network
+ * 10. Group territories into realms
+ * 11. Optionally subdivide land territories into provinces and counties
  */
 
+// Version of the generation algorithm, saved with maps
+// Bump whenever the same config and seed would produce a different map
+export const GENERATOR_VERSION = '0.2.0';
+
 /**
  * Generate random points with Lloyd's relaxation for better distribution
  * Lloyd's algorithm iteratively moves points toward the centroid of their Voronoi cell
@@ -71,40 +96,307 @@ function generateRelaxedPoints(
 }
 
 /**
- * Generate a complete map with territories
+ * Seed points inside a map outline, relaxed like generateRelaxedPoints
+ * Cells are clipped to the outline before taking their centroid, and a point that
+ * would leave the outline stays where it is.
+ * @throws MapShapeError when the outline is too small to place the points
+ */
+function generateShapedPoints(
+  count: number,
+  width: number,
+  height: number,
+  seed: number,
+  outline: MapOutline,
+  relaxationIterations: number = 3
+): [number, number][] {
+  const rng = new SeededRandom(seed);
+  const xs = outline.rings.flat().map(p => p[0]);
+  const ys = outline.rings.flat().map(p => p[1]);
+  const minX = Math.max(0, Math.min(...xs));
+  const minY = Math.max(0, Math.min(...ys));
+  const maxX = Math.min(width, Math.max(...xs));
+  const maxY = Math.min(height, Math.max(...ys));
+
+  // Random points inside the outline
+  let points: [number, number][] = [];
+  for (let attempt = 0; points.length < count && attempt < count * 1000; attempt++) {
+    const x = minX + rng.next() * (maxX - minX);
+    const y = minY + rng.next() * (maxY - minY);
+    if (outline.contains(x, y)) points.push([x, y]);
+  }
+  if (points.length < count) {
+    throw new MapShapeError('The map shape is too small to place the territories');
+  }
+
+  // Apply Lloyd's relaxation within the outline
+  for (let iteration = 0; iteration < relaxationIterations; iteration++) {
+    const voronoi = Delaunay.from(points).voronoi([0, 0, width, height]);
+    points = points.map((point, i) => {
+      const cell = voronoi.cellPolygon(i);
+      const clipped = cell ? outline.clip(cell.slice(0, -1) as [number, number][]) : [];
+      if (clipped.length === 0) return point;
+      const cx = clipped.reduce((sum, p) => sum + p[0], 0) / clipped.length;
+      const cy = clipped.reduce((sum, p) => sum + p[1], 0) / clipped.length;
+      return outline.contains(cx, cy) ? [cx, cy] : point;
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Find the border segments shared between neighboring Voronoi cells
+ * Every cell edge lies on the perpendicular bisector between its own site and one
+ * neighboring site, so the edge midpoint is equidistant from both. Edges on the map
+ * bounds have no such neighbor and are skipped.
+ * @returns Borders and neighbor indices, both keyed by cell index
+ */
+function computeSharedBorders(
+  points: [number, number][],
+  cells: Map<number, [number, number][]>,
+  voronoi: Voronoi<[number, number]>,
+  tolerance: number
+): { borders: Map<number, TerritoryBorder[]>; neighbors: Map<number, number[]> } {
+  const borders = new Map<number, TerritoryBorder[]>();
+  const neighbors = new Map<number, number[]>();
+  cells.forEach((_, i) => {
+    borders.set(i, []);
+    neighbors.set(i, []);
+  });
+
+  const addSegment = (i: number, j: number, start: [number, number], end: [number, number], length: number) => {
+    const list = borders.get(i)!;
+    let border = list.find(b => b.neighborId === `territory-${j}`);
+    if (!border) {
+      border = { neighborId: `territory-${j}`, segments: [], length: 0 };
+      list.push(border);
+      neighbors.get(i)!.push(j);
+    }
+    border.segments.push({ start, end, length });
+    border.length += length;
+  };
+
+  cells.forEach((cell, i) => {
+    const neighborIndices = Array.from(voronoi.neighbors(i)).filter(j => j > i && cells.has(j));
+    if (neighborIndices.length === 0) return;
+
+    for (let k = 0; k < cell.length; k++) {
+      const start = cell[k];
+      const end = cell[(k + 1) % cell.length];
+      const length = Math.hypot(end[0] - start[0], end[1] - start[1]);
+      if (length < tolerance) continue;
+
+      const mx = (start[0] + end[0]) / 2;
+      const my = (start[1] + end[1]) / 2;
+      const ownDist = Math.hypot(mx - points[i][0], my - points[i][1]);
+
+      // Pick the neighbor whose site is (almost) exactly as far away as our own
+      let match = -1;
+      let bestDiff = tolerance;
+      for (const j of neighborIndices) {
+        const diff = Math.abs(Math.hypot(mx - points[j][0], my - points[j][1]) - ownDist);
+        if (diff < bestDiff) {
+          bestDiff = diff;
+          match = j;
+        }
+      }
+
+      if (match !== -1) {
+        // Store the same segment on both sides so the two views agree exactly
+        addSegment(i, match, start, end, length);
+        addSegment(match, i, end, start, length);
+      }
+    }
+  });
+
+  return { borders, neighbors };
+}
+
+/**
+ * Flood the cells below sea level and classify each connected water body
+ * - Bodies touching the map edge (or the edge of the map shape) are ocean
+ * - Enclosed bodies of three or more cells are inland seas
+ * - Smaller enclosed bodies are lakes
+ * Land cells next to any water are marked coastal, as are land cells on the edge
+ * when the sea lies beyond it
+ */
+function classifyWater(
+  cells: Map<number, [number, number][]>,
+  neighbors: Map<number, number[]>,
+  environments: Map<number, CellEnvironment>,
+  seaLevel: number,
+  touchesEdge: (i: number) => boolean,
+  seaBeyondEdge: boolean
+): void {
+  const isBelowSea = (i: number) => environments.get(i)!.elevation < seaLevel;
+
+  const visited = new Set<number>();
+  cells.forEach((_, start) => {
+    if (visited.has(start) || !isBelowSea(start)) return;
+
+    // Collect the connected water body
+    const body: number[] = [];
+    const queue = [start];
+    visited.add(start);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      body.push(current);
+      neighbors.get(current)!.forEach(n => {
+        if (!visited.has(n) && isBelowSea(n)) {
+          visited.add(n);
+          queue.push(n);
+        }
+      });
+    }
+
+    const water = body.some(touchesEdge)
+      ? TerrainType.OCEAN
+      : body.length >= 3 ? TerrainType.SEA : TerrainType.LAKE;
+    body.forEach(i => {
+      environments.get(i)!.water = water;
+    });
+  });
+
+  environments.forEach((environment, i) => {
+    if (!environment.water) {
+      environment.coastal = neighbors.get(i)!.some(n => environments.get(n)!.water !== undefined) ||
+        (seaBeyondEdge && touchesEdge(i));
+    }
+  });
+}
+
+/**
+ * Generate a complete map with territories, rivers, roads and realms
  * @param config - Map configuration
- * @returns Array of territories with names, colors, and borders
+ * @returns Map layers and the configuration used (seed resolved)
  */
-export function generateMap(config: MapConfig): Territory[] {
-  const { width, height, territoryCount, seed = Date.now() } = config;
+export function generateWorld(config: MapConfig): GeneratedMap {
+  const { width, height, territoryCount, seed = Date.now(), seaLevel = 0.3 } = config;
+  const tolerance = Math.max(width, height) * 1e-6;
 
-  // Generate well-distributed seed points
-  const points = generateRelaxedPoints(territoryCount, width, height, seed);
+  // Generate well-distributed seed points, inside the map shape if there is one
+  const outline = createMapOutline(config.shape, width, height, seed);
+  const points = outline
+    ? generateShapedPoints(territoryCount, width, height, seed, outline)
+    : generateRelaxedPoints(territoryCount, width, height, seed);
 
   // Create Voronoi diagram
   const delaunay = Delaunay.from(points);
   const voronoi = delaunay.voronoi([0, 0, width, height]);
 
-  // Generate names
-  const names = generateTerritoryNames(territoryCount, seed);
+  // Collect cell polygons
+  const cells = new Map<number, [number, number][]>();
+  for (let i = 0; i < territoryCount; i++) {
+    const cell = voronoi.cellPolygon(i);
+    if (cell) {
+      // Remove duplicate closing point if present
+      const polygon = cell.slice(0, -1) as [number, number][];
+      const clipped = outline ? outline.clip(polygon) : polygon;
+      if (clipped.length >= 3) cells.set(i, clipped);
+    }
+  }
+
+  // Clipping computes shared corners separately for each cell; make them identical again
+  if (outline) {
+    const indices = Array.from(cells.keys());
+    const snapped = snapVertices(indices.map(i => cells.get(i)!), tolerance);
+    indices.forEach((i, k) => cells.set(i, snapped[k]));
+  }
+
+  // Shared borders between neighboring cells
+  const { borders, neighbors } = computeSharedBorders(points, cells, voronoi, tolerance);
+
+  // Sample the map-wide elevation, moisture and temperature at each cell
+  const sampleEnvironment = createEnvironmentSampler(width, height, seed, config.climate);
+  const environments = new Map<number, CellEnvironment>();
+  cells.forEach((_, i) => environments.set(i, sampleEnvironment(points[i][0], points[i][1])));
+
+  // Oceans, seas, lakes and coastlines
+  // On shaped maps the edge is wherever a cell has no neighbor across its outline
+  const touchesEdge = outline
+    ? (i: number) => {
+      const polygon = cells.get(i)!;
+      const perimeter = polygon.reduce((sum, p, k) => {
+        const next = polygon[(k + 1) % polygon.length];
+        return sum + Math.hypot(next[0] - p[0], next[1] - p[1]);
+      }, 0);
+      const shared = borders.get(i)!.reduce((sum, b) => sum + b.length, 0);
+      return perimeter - shared > tolerance * polygon.length;
+    }
+    : (i: number) => cells.get(i)!.some(([x, y]) =>
+      x <= tolerance || y <= tolerance || x >= width - tolerance || y >= height - tolerance
+    );
+  classifyWater(cells, neighbors, environments, seaLevel, touchesEdge, getOutsideColor(config.shape) !== null);
+
+  // Rivers follow the borders between cells
+  const rivers = generateRivers(
+    Array.from(cells.entries()).map(([i, polygon]) => ({
+      id: `territory-${i}`,
+      polygon,
+      elevation: environments.get(i)!.elevation,
+      isWater: environments.get(i)!.water !== undefined
+    })),
+    width,
+    height,
+    seed
+  );
+  const riverineIds = new Set(rivers.flatMap(r => r.territoryIds));
+  environments.forEach((environment, i) => {
+    environment.riverine = riverineIds.has(`territory-${i}`);
+  });
+
+  // Cultures spread from hearths over land, slowed by difficult terrain
+  const terrains = new Map<number, TerrainType>();
+  environments.forEach((environment, i) => terrains.set(i, generateTerrain(environment)));
+  const cultures = assignCultures(
+    Array.from(cells.keys())
+      .filter(i => !isWaterTerrain(terrains.get(i)!))
+      .map(i => ({
+        id: `territory-${i}`,
+        centerX: points[i][0],
+        centerY: points[i][1],
+        terrain: terrains.get(i)!,
+        neighbors: neighbors.get(i)!.map(j => `territory-${j}`)
+      })),
+    seed
+  );
+  environments.forEach((environment, i) => {
+    const assignment = cultures.get(`territory-${i}`);
+    if (assignment) {
+      environment.culture = assignment.culture;
+      environment.minorityCulture = assignment.minorityCulture;
+    }
+  });
+
+  // Generate names in each territory's own language
+  const names = generateTerritoryNames(
+    territoryCount,
+    seed,
+    Array.from({ length: territoryCount }, (_, i) => {
+      const environment = environments.get(i);
+      return environment ? {
+        culture: environment.culture,
+        terrain: terrains.get(i),
+        riverine: environment.riverine,
+        borderland: environment.minorityCulture !== undefined
+      } : {};
+    })
+  );
 
   // Build territory objects
   const territories: Territory[] = [];
 
   for (let i = 0; i < territoryCount; i++) {
-    const cell = voronoi.cellPolygon(i);
+    const borderPoints = cells.get(i);
 
-    if (cell) {
-      // Remove duplicate closing point if present
-      const borderPoints: [number, number][] = cell.slice(0, -1);
+    if (borderPoints) {
 
       // Calculate territory area
       const area = calculateArea(borderPoints);
 
-      // Generate metadata based on position and area
+      // Generate metadata from the environment at the cell's center
       const metadata = generateMetadata(
-        points[i][0],
-        points[i][1],
+        environments.get(i)!,
         width,
         height,
         area,
@@ -114,6 +406,9 @@ export function generateMap(config: MapConfig): Territory[] {
       // Generate terrain-aware color
       const color = generateTerrainColor(metadata.terrain, i, seed);
 
+      const territoryBorders = borders.get(i)!
+        .sort((a, b) => a.neighborId.localeCompare(b.neighborId, undefined, { numeric: true }));
+
       territories.push({
         id: `territory-${i}`,
         name: names[i],
@@ -122,12 +417,36 @@ export function generateMap(config: MapConfig): Territory[] {
         centerY: points[i][1],
         borderPoints,
         area,
-        metadata
+        metadata,
+        neighbors: territoryBorders.map(b => b.neighborId),
+        borders: territoryBorders
       });
     }
   }
 
-  return territories;
+  // Provinces and counties; territory metadata is then recomputed from them
+  const subdivided = config.subdivisions
+    ? generateSubdivisions(territories, config.subdivisions, width, height, seed)
+    : null;
+  const finalTerritories = subdivided?.territories ?? territories;
+
+  return {
+    config: { ...config, seed },
+    territories: finalTerritories,
+    rivers,
+    roads: generateRoads(finalTerritories),
+    realms: generateRealms(finalTerritories, seed),
+    ...(subdivided && { subdivisions: subdivided.subdivisions })
+  };
+}
+
+/**
+ * Generate a complete map with territories
+ * @param config - Map configuration
+ * @returns Array of territories with names, colors, and borders
+ */
+export function generateMap(config: MapConfig): Territory[] {
+  return generateWorld(config).territories;
 }
 
 /**
@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MapRecipe } from '../types/MapRecipe';
+import { generateWorld, GENERATOR_VERSION } from './mapGenerator';
+import { BUILT_IN_PRESETS, listLibrary, listPresets, loadLibraryEntry, saveToLibrary } from './mapLibrary';
+
+const map = generateWorld({ width: 400, height: 300, territoryCount: 12, seed: 7 });
+
+beforeEach(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); }
+  });
+});
+
+describe('map library', () => {
+  it('leaves out stored entries of the wrong shape', () => {
+    const saved = saveToLibrary('Saved', map);
+    const stored = JSON.parse(localStorage.getItem('hierophant.library')!);
+    localStorage.setItem('hierophant.library', JSON.stringify([
+      ...stored,
+      null,
+      { id: 'map-1', name: 'No dates', data: saved.data },
+      { ...saved, id: 'map-2', updatedAt: 5 },
+      { ...saved, id: 'map-3', data: { kind: 'recipe', recipe: { ...stored[0].data.recipe, config: { width: 'wide' } } } }
+    ]));
+    localStorage.setItem('hierophant.presets', JSON.stringify([
+      { id: 'preset-1', name: 'Fine', config: { territoryCount: 10 } },
+      { id: 'preset-2', name: 'Flooded', config: { territoryCount: 10, seaLevel: 3 } },
+      'not a preset'
+    ]));
+
+    expect(listLibrary().map(entry => entry.id)).toEqual([saved.id]);
+    expect(listPresets().map(preset => preset.id)).toEqual([...BUILT_IN_PRESETS.map(p => p.id), 'preset-1']);
+  });
+
+  it('warns when a recipe was saved by another generator version', () => {
+    const entry = saveToLibrary('Saved', map);
+    expect(entry.data.kind).toBe('recipe');
+    expect(loadLibraryEntry(entry).warning).toBeNull();
+
+    const { recipe } = entry.data as { kind: 'recipe'; recipe: MapRecipe };
+    const old = { ...entry, data: { kind: 'recipe' as const, recipe: { ...recipe, generatorVersion: '0.0.1' } } };
+    const { map: loaded, warning } = loadLibraryEntry(old);
+    expect(loaded.territories).toEqual(map.territories);
+    expect(warning).toBe(`"Saved" was saved with generator 0.0.1; this is ${GENERATOR_VERSION}, so the map may differ`);
+  });
+});
@@ -0,0 +1,211 @@
+import { GeneratedMap } from '../types/Territory';
+import { GenerationPreset, LibraryEntry, SavedMapData } from '../types/Library';
+import { createRecipe, mapFromRecipe, RecipeError } from './mapRecipe';
+import { createMapDocument, documentToMap, parseMapDocument, validateMapConfig } from './mapDocument';
+import { GENERATOR_VERSION } from './mapGenerator';
+
+/**
+ * Map library and generation presets, persisted in localStorage
+ *
+ * Maps are stored as recipes when their seed reproduces them and as full map
+ * documents otherwise; documents are read back through parseMapDocument, so
+ * saved maps are validated and migrated like imported files. Stored lists can be
+ * edited or damaged outside the app, so entries of the wrong shape are left out.
+ */
+
+const LIBRARY_KEY = 'hierophant.library';
+const PRESETS_KEY = 'hierophant.presets';
+
+export const BUILT_IN_PRESETS: GenerationPreset[] = [
+  {
+    id: 'preset-island-kingdom',
+    name: 'Small island kingdom, 12 territories',
+    config: { territoryCount: 12, seaLevel: 0.25, climate: { band: 'northern' }, shape: { kind: 'continent' } },
+    builtIn: true
+  },
+  {
+    id: 'preset-continent',
+    name: 'Sprawling continent, 50 territories',
+    config: { territoryCount: 50, seaLevel: 0.2, climate: { band: 'northern' } },
+    builtIn: true
+  },
+  {
+    id: 'preset-tropical-archipelago',
+    name: 'Tropical archipelago, 35 territories',
+    config: { territoryCount: 35, seaLevel: 0.25, climate: { band: 'equatorial' }, shape: { kind: 'archipelago' } },
+    builtIn: true
+  },
+  {
+    id: 'preset-southern-frontier',
+    name: 'Southern frontier, 25 territories',
+    config: { territoryCount: 25, seaLevel: 0.3, climate: { band: 'southern' } },
+    builtIn: true
+  },
+  {
+    id: 'preset-strategy-campaign',
+    name: 'Strategy campaign, 30 territories with provinces and counties',
+    config: { territoryCount: 30, seaLevel: 0.3, climate: { band: 'northern' }, subdivisions: { provinces: 3, counties: 3 } },
+    builtIn: true
+  }
+];
+
+/**
+ * Library or preset storage that cannot be written (usually because it is full)
+ */
+export class LibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LibraryError';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isLibraryEntry(value: unknown): value is LibraryEntry {
+  if (!isObject(value) || !isObject(value.data)) return false;
+  if (!['id', 'name', 'createdAt', 'updatedAt'].every(key => typeof value[key] === 'string')) return false;
+  if (value.thumbnail !== undefined && typeof value.thumbnail !== 'string') return false;
+  const { data } = value;
+  if (data.kind === 'document') return isObject(data.document);
+  return data.kind === 'recipe' && isObject(data.recipe) &&
+    typeof data.recipe.generatorVersion === 'string' &&
+    Array.isArray(data.recipe.edits) &&
+    validateMapConfig(data.recipe.config).length === 0;
+}
+
+function isPreset(value: unknown): value is GenerationPreset {
+  return isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' &&
+    isObject(value.config) &&
+    // Presets leave the size to the app; any valid size passes the config check
+    validateMapConfig({ width: 1, height: 1, ...value.config }).length === 0;
+}
+
+/**
+ * Stored list, without items that fail the shape check
+ */
+function readList<T>(key: string, isValid: (value: unknown) => value is T): T[] {
+  try {
+    const value = JSON.parse(localStorage.getItem(key) ?? '[]');
+    return Array.isArray(value) ? value.filter(isValid) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeList<T>(key: string, items: T[]): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(items));
+  } catch {
+    throw new LibraryError('Browser storage is full; delete some saved maps and try again');
+  }
+}
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Saved maps, most recently changed first
+ */
+export function listLibrary(): LibraryEntry[] {
+  return readList(LIBRARY_KEY, isLibraryEntry).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Save a map to the library
+ * @param name - Display name
+ * @param map - Map to save, as shown (edits included)
+ * @param thumbnail - Optional preview data URL
+ * @returns The new entry
+ */
+export function saveToLibrary(name: string, map: GeneratedMap, thumbnail?: string): LibraryEntry {
+  let data: SavedMapData;
+  try {
+    data = { kind: 'recipe', recipe: createRecipe(map) };
+  } catch (error) {
+    if (!(error instanceof RecipeError)) throw error;
+    data = { kind: 'document', document: createMapDocument(map) };
+  }
+
+  const now = new Date().toISOString();
+  const entry: LibraryEntry = { id: createId('map'), name, createdAt: now, updatedAt: now, thumbnail, data };
+  writeList(LIBRARY_KEY, [entry, ...readList(LIBRARY_KEY, isLibraryEntry)]);
+  return entry;
+}
+
+/**
+ * Rename a saved map
+ */
+export function renameLibraryEntry(id: string, name: string): void {
+  const now = new Date().toISOString();
+  writeList(LIBRARY_KEY, readList(LIBRARY_KEY, isLibraryEntry).map(entry =>
+    entry.id === id ? { ...entry, name, updatedAt: now } : entry
+  ));
+}
+
+/**
+ * Copy a saved map under a new name
+ * @returns The copy, or null when the id is unknown
+ */
+export function duplicateLibraryEntry(id: string): LibraryEntry | null {
+  const entries = readList(LIBRARY_KEY, isLibraryEntry);
+  const original = entries.find(entry => entry.id === id);
+  if (!original) return null;
+
+  const now = new Date().toISOString();
+  const copy: LibraryEntry = { ...original, id: createId('map'), name: `${original.name} (copy)`, createdAt: now, updatedAt: now };
+  writeList(LIBRARY_KEY, [copy, ...entries]);
+  return copy;
+}
+
+/**
+ * Remove a saved map
+ */
+export function deleteLibraryEntry(id: string): void {
+  writeList(LIBRARY_KEY, readList(LIBRARY_KEY, isLibraryEntry).filter(entry => entry.id !== id));
+}
+
+/**
+ * Rebuild a saved map
+ * @returns The map, and a warning when it was saved as a recipe by another generator
+ *          version (regenerating it may not give the same map)
+ * @throws MapDocumentError when a stored document no longer validates
+ * @throws RecipeError when a stored recipe's edits no longer validate
+ */
+export function loadLibraryEntry(entry: LibraryEntry): { map: GeneratedMap; warning: string | null } {
+  if (entry.data.kind === 'document') {
+    return { map: documentToMap(parseMapDocument(JSON.stringify(entry.data.document))), warning: null };
+  }
+  const { recipe } = entry.data;
+  return {
+    map: mapFromRecipe(recipe),
+    warning: recipe.generatorVersion !== GENERATOR_VERSION
+      ? `"${entry.name}" was saved with generator ${recipe.generatorVersion}; this is ${GENERATOR_VERSION}, so the map may differ`
+      : null
+  };
+}
+
+/**
+ * Built-in presets followed by the user's own
+ */
+export function listPresets(): GenerationPreset[] {
+  return [...BUILT_IN_PRESETS, ...readList(PRESETS_KEY, isPreset)];
+}
+
+/**
+ * Save generation settings as a named preset
+ */
+export function savePreset(name: string, config: GenerationPreset['config']): GenerationPreset {
+  const preset: GenerationPreset = { id: createId('preset'), name, config };
+  writeList(PRESETS_KEY, [...readList(PRESETS_KEY, isPreset), preset]);
+  return preset;
+}
+
+/**
+ * Remove a user preset; built-in presets are not stored and cannot be deleted
+ */
+export function deletePreset(id: string): void {
+  writeList(PRESETS_KEY, readList(PRESETS_KEY, isPreset).filter(preset => preset.id !== id));
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { Territory, TerrainType } from '../types/Territory';
+import { NumericMapMode } from '../types/MapMode';
+import { computeChoropleth, getMapMode, interpolateRamp, MapModeError, registerMapMode } from './mapModes';
+
+function territory(id: string, development: number): Territory {
+  return {
+    id,
+    name: id,
+    color: '#888888',
+    centerX: 0,
+    centerY: 0,
+    borderPoints: [[0, 0], [10, 0], [10, 10]],
+    metadata: {
+      terrain: TerrainType.PLAINS,
+      population: 1000,
+      culture: 'norse',
+      development,
+      resources: { food: 50, gold: 50, military: 50 },
+      elevation: 0.5,
+      moisture: 0.5,
+      temperature: 0.5
+    }
+  };
+}
+
+const territories = [territory('low', 0), territory('high', 100)];
+
+const mode = (ramp: string[]): NumericMapMode => ({
+  kind: 'numeric',
+  id: 'test-mode',
+  label: 'Test',
+  value: t => t.metadata.development,
+  ramp
+});
+
+describe('color ramps', () => {
+  it('interpolates between stops', () => {
+    expect(interpolateRamp(['#000000', '#ffffff'], 0.5)).toBe('#808080');
+    expect(interpolateRamp(['#000000', '#ffffff'], 2)).toBe('#ffffff');
+    expect(interpolateRamp(['#123456'], 0.7)).toBe('#123456');
+  });
+
+  it('draws one-color ramps flat, from the mode or an override', () => {
+    const development = getMapMode('development')!;
+    const choropleth = computeChoropleth(development, territories, ['#123456']);
+    expect(Array.from(choropleth.colors.values())).toEqual(['#123456', '#123456']);
+    expect(choropleth.legend).toMatchObject({ ramp: ['#123456', '#123456'] });
+
+    expect(computeChoropleth(mode(['#abcdef']), territories).legend).toMatchObject({ ramp: ['#abcdef', '#abcdef'] });
+  });
+
+  it('uses the mode ramp when the override is empty', () => {
+    const development = getMapMode('development')!;
+    expect(computeChoropleth(development, territories, []).colors)
+      .toEqual(computeChoropleth(development, territories).colors);
+  });
+
+  it('rejects overrides with colors it cannot blend', () => {
+    expect(() => computeChoropleth(getMapMode('development')!, territories, ['red', '#ffffff'])).toThrow(MapModeError);
+  });
+});
+
+describe('registerMapMode', () => {
+  it('rejects empty ramps and colors that are not #rrggbb', () => {
+    expect(() => registerMapMode(mode([]))).toThrow('empty color ramp');
+    expect(() => registerMapMode(mode(['#fff', '#000000']))).toThrow('invalid color "#fff"');
+    expect(() => registerMapMode({
+      kind: 'categorical',
+      id: 'test-categories',
+      label: 'Test',
+      category: t => t.metadata.culture,
+      colors: { norse: 'blue' }
+    })).toThrow(MapModeError);
+    expect(getMapMode('test-mode')).toBeUndefined();
+  });
+
+  it('registers valid modes by id', () => {
+    registerMapMode(mode(['#000000', '#ffffff']));
+    expect(getMapMode('test-mode')?.label).toBe('Test');
+  });
+});
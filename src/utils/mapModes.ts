@@ -0,0 +1,207 @@
+import { Territory } from '../types/Territory';
+import { Choropleth, ChoroplethMode, ColorRamp } from '../types/MapMode';
+import { isWaterTerrain } from './metadataGenerator';
+import { CULTURES } from './cultureGenerator';
+import { generateColorPalette } from './colorGenerator';
+
+/**
+ * Data-driven (choropleth) map modes
+ * Built-in modes cover population, density, development, resources and culture;
+ * tools can register their own and select them by id, or pass a mode object directly.
+ */
+
+// Colors in ramps and palettes: ramps are interpolated channel by channel
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Map mode or color ramp that cannot be used
+ */
+export class MapModeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MapModeError';
+  }
+}
+
+/**
+ * Preset color ramps, low to high
+ */
+export const COLOR_RAMPS: Record<string, ColorRamp> = {
+  viridis: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'],
+  heat: ['#fff5eb', '#fdae6b', '#e6550d', '#7f2704'],
+  blues: ['#f7fbff', '#6baed6', '#08306b'],
+  greens: ['#f7fcf5', '#74c476', '#00441b'],
+  gold: ['#fffbe6', '#f2c94c', '#8a6d00'],
+  reds: ['#fff5f0', '#fb6a4a', '#67000d'],
+  purples: ['#fcfbfd', '#9e9ac8', '#3f007d']
+};
+
+// Palette for cultures, fixed by their order in CULTURES so colors stay put between maps
+const CULTURE_COLORS: Record<string, string> = Object.fromEntries(
+  generateColorPalette(CULTURES.length, 7).map((color, i) => [CULTURES[i], color])
+);
+
+const mapModes: Record<string, ChoroplethMode> = {
+  population: {
+    kind: 'numeric',
+    id: 'population',
+    label: 'Population',
+    value: t => t.metadata.population,
+    ramp: COLOR_RAMPS.purples
+  },
+  density: {
+    kind: 'numeric',
+    id: 'density',
+    label: 'Population Density',
+    value: t => (t.area ? t.metadata.population / t.area : 0),
+    ramp: COLOR_RAMPS.heat,
+    format: value => `${value.toFixed(2)}/km²`
+  },
+  development: {
+    kind: 'numeric',
+    id: 'development',
+    label: 'Development',
+    value: t => t.metadata.development,
+    ramp: COLOR_RAMPS.viridis,
+    domain: [0, 100],
+    format: value => `${Math.round(value)}%`
+  },
+  food: {
+    kind: 'numeric',
+    id: 'food',
+    label: 'Food',
+    value: t => t.metadata.resources.food,
+    ramp: COLOR_RAMPS.greens,
+    domain: [1, 100]
+  },
+  gold: {
+    kind: 'numeric',
+    id: 'gold',
+    label: 'Gold',
+    value: t => t.metadata.resources.gold,
+    ramp: COLOR_RAMPS.gold,
+    domain: [1, 100]
+  },
+  military: {
+    kind: 'numeric',
+    id: 'military',
+    label: 'Military',
+    value: t => t.metadata.resources.military,
+    ramp: COLOR_RAMPS.reds,
+    domain: [1, 100]
+  },
+  culture: {
+    kind: 'categorical',
+    id: 'culture',
+    label: 'Culture',
+    category: t => t.metadata.culture,
+    colors: CULTURE_COLORS
+  }
+};
+
+function checkColors(colors: string[], what: string): void {
+  const invalid = colors.find(color => !HEX_COLOR.test(color));
+  if (invalid !== undefined) throw new MapModeError(`${what} has an invalid color "${invalid}" (expected #rrggbb)`);
+}
+
+function checkRamp(ramp: ColorRamp, what: string): void {
+  if (ramp.length === 0) throw new MapModeError(`${what} has an empty color ramp`);
+  checkColors(ramp, what);
+}
+
+/**
+ * Register (or replace) a map mode under its id
+ * @throws MapModeError when its ramp is empty or a color is not #rrggbb
+ */
+export function registerMapMode(mode: ChoroplethMode): void {
+  if (mode.kind === 'numeric') {
+    checkRamp(mode.ramp, `Map mode "${mode.id}"`);
+  } else if (mode.colors) {
+    checkColors(Object.values(mode.colors), `Map mode "${mode.id}"`);
+  }
+  mapModes[mode.id] = mode;
+}
+
+/**
+ * Map mode registered under an id
+ */
+export function getMapMode(id: string): ChoroplethMode | undefined {
+  return mapModes[id];
+}
+
+/**
+ * All registered map modes, built-ins first
+ */
+export function listMapModes(): ChoroplethMode[] {
+  return Object.values(mapModes);
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * Color at a position along a ramp
+ * A ramp with a single color is that color everywhere.
+ * @param position - 0 (first color) to 1 (last color); clamped
+ */
+export function interpolateRamp(ramp: ColorRamp, position: number): string {
+  if (ramp.length === 1) return ramp[0];
+  const scaled = Math.min(Math.max(position, 0), 1) * (ramp.length - 1);
+  const index = Math.min(Math.floor(scaled), ramp.length - 2);
+  const from = hexToRgb(ramp[index]);
+  const to = hexToRgb(ramp[index + 1]);
+  const blend = scaled - index;
+  const rgb = from.map((c, k) => Math.round(c + (to[k] - c) * blend));
+  return `#${rgb.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Color land territories by a map mode
+ * @param mode - Mode to apply
+ * @param territories - Territories to color (water is skipped)
+ * @param ramp - Overrides the mode's own ramp (numeric modes only); an empty one is ignored
+ * @returns Fill color per land territory and a legend
+ * @throws MapModeError when the override has a color that is not #rrggbb
+ */
+export function computeChoropleth(mode: ChoroplethMode, territories: Territory[], ramp?: ColorRamp): Choropleth {
+  const land = territories.filter(t => !isWaterTerrain(t.metadata.terrain));
+  const colors = new Map<string, string>();
+
+  if (mode.kind === 'categorical') {
+    const categories = Array.from(new Set(land.map(mode.category))).sort();
+    const palette = generateColorPalette(categories.length);
+    const colorFor = (category: string) => mode.colors?.[category] ?? palette[categories.indexOf(category)];
+    land.forEach(t => colors.set(t.id, colorFor(mode.category(t))));
+    return {
+      colors,
+      legend: {
+        kind: 'categorical',
+        label: mode.label,
+        entries: categories.map(category => ({ label: category, color: colorFor(category) }))
+      }
+    };
+  }
+
+  if (ramp && ramp.length > 0) checkColors(ramp, 'The color ramp');
+  const chosen = ramp && ramp.length > 0 ? ramp : mode.ramp;
+  // A one-color ramp becomes two equal stops, so legends can draw it as a gradient
+  const activeRamp = chosen.length === 1 ? [chosen[0], chosen[0]] : chosen;
+  const values = land.map(mode.value);
+  const [min, max] = mode.domain ?? [Math.min(...values), Math.max(...values)];
+  const span = max - min || 1;
+  land.forEach((t, i) => colors.set(t.id, interpolateRamp(activeRamp, (values[i] - min) / span)));
+
+  const format = mode.format ?? ((value: number) => Math.round(value).toLocaleString());
+  return {
+    colors,
+    legend: {
+      kind: 'numeric',
+      label: mode.label,
+      ramp: activeRamp,
+      min: land.length > 0 ? format(min) : '',
+      max: land.length > 0 ? format(max) : ''
+    }
+  };
+}
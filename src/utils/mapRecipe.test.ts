@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { MapRecipe, TerritoryEdit } from '../types/MapRecipe';
+import { applyEdits, createRecipe, decodeRecipe, encodeRecipe, mapFromRecipe, RecipeError } from './mapRecipe';
+import { generateWorld, GENERATOR_VERSION } from './mapGenerator';
+
+const config = { width: 400, height: 300, territoryCount: 12, seed: 7 };
+
+function edit(changes: Record<string, unknown>): TerritoryEdit {
+  return { id: 'territory-0', changes } as TerritoryEdit;
+}
+
+/**
+ * A recipe string with hand-written changes to the first territory, as a crafted link would carry
+ */
+function link(changes?: Record<string, unknown>, recipeConfig: object = config): string {
+  const edits = changes ? [edit(changes)] : [];
+  return encodeRecipe({ generatorVersion: GENERATOR_VERSION, config: recipeConfig, edits } as MapRecipe);
+}
+
+describe('map recipes', () => {
+  it('rebuilds an edited map from its link', () => {
+    const base = generateWorld(config);
+    const edited = {
+      ...base,
+      territories: base.territories.map((t, i) => (i === 2
+        ? { ...t, name: 'Renamed', metadata: { ...t.metadata, resources: { ...t.metadata.resources, gold: 99 } } }
+        : t))
+    };
+    const recipe = decodeRecipe(encodeRecipe(createRecipe(edited, base)));
+
+    expect(recipe.edits).toEqual([{ id: 'territory-2', changes: { name: 'Renamed', 'metadata.resources.gold': 99 } }]);
+    expect(mapFromRecipe(recipe).territories).toEqual(edited.territories);
+  });
+
+  it('rejects edits to paths diffTerritories never writes', () => {
+    ['__proto__.polluted', 'metadata.__proto__.polluted', 'metadata.constructor.prototype.polluted', 'borderPoints', 'metadata']
+      .forEach(path => {
+        expect(() => decodeRecipe(link({ [path]: 1 }))).toThrow(`unknown field "${path}"`);
+      });
+    expect(() => decodeRecipe(link(JSON.parse('{"__proto__":{"polluted":1}}')))).toThrow(RecipeError);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('skips unsafe paths when applying edits directly', () => {
+    const territories = generateWorld(config).territories;
+    const result = applyEdits(territories, [edit({ '__proto__.polluted': 1, 'metadata.constructor.prototype.polluted': 1 })]);
+
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(result[0]).toEqual(territories[0]);
+  });
+
+  it('rejects edit values that fail map file validation', () => {
+    expect(() => mapFromRecipe(decodeRecipe(link({ 'metadata.population': 'lots' }))))
+      .toThrow('territories[0].metadata.population: expected a number, got "lots"');
+    expect(() => mapFromRecipe(decodeRecipe(link({ 'metadata.terrain': 'lava' })))).toThrow(RecipeError);
+    expect(() => decodeRecipe(link({ name: { first: 'A' } }))).toThrow(RecipeError);
+  });
+
+  it('rejects invalid or oversized configs before generating', () => {
+    expect(() => decodeRecipe(link(undefined, { ...config, seaLevel: 4 }))).toThrow('config.seaLevel');
+    expect(() => decodeRecipe(link(undefined, { ...config, territoryCount: 1e9 }))).toThrow(RecipeError);
+    expect(() => decodeRecipe(link(undefined, { ...config, width: 1e9 }))).toThrow(RecipeError);
+  });
+});
@@ -0,0 +1,287 @@
+import { GeneratedMap, Territory } from '../types/Territory';
+import { MapRecipe, RecipeValue, TerritoryEdit } from '../types/MapRecipe';
+import { MapDocumentIssue } from '../types/MapDocument';
+import { validateMapConfig, validateTerritories } from './mapDocument';
+import { generateWorld, GENERATOR_VERSION } from './mapGenerator';
+import { reconcileSubdivisions } from './subdivisionGenerator';
+
+/**
+ * Map recipes: a map shared as config, seed and edits instead of its full data
+ *
+ * Encoding: compact JSON, UTF-8, base64url, prefixed with the recipe format version
+ * ("1.eyJnIjoi..."), so it fits in a URL hash. Only territory attributes are diffed;
+ * geometry, rivers, roads and realms come from regenerating with the same seed.
+ */
+
+// Recipe string format; bump when the encoded shape changes
+const RECIPE_FORMAT = '1';
+
+// URL hash key holding the recipe: #map=<recipe>
+const HASH_KEY = 'map';
+
+// Territory fields compared when diffing, besides everything under metadata
+const TOP_LEVEL_FIELDS = ['name', 'color', 'locked'] as const;
+
+// Path segments that would reach Object.prototype when an edit is written
+const UNSAFE_KEYS = new Set(['__proto__', 'prototype', 'constructor']);
+
+// Largest map a link may ask for: links open without asking, so they must not freeze the page
+const MAX_TERRITORY_COUNT = 500;
+const MAX_MAP_SIZE = 10000;
+
+/**
+ * Recipe that cannot be decoded
+ */
+export class RecipeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeError';
+  }
+}
+
+/**
+ * Whether a dotted path is one diffTerritories can produce
+ */
+function isEditablePath(path: string): boolean {
+  const keys = path.split('.');
+  if (keys.some(key => !key || UNSAFE_KEYS.has(key))) return false;
+  return keys.length === 1
+    ? (TOP_LEVEL_FIELDS as readonly string[]).includes(path)
+    : keys[0] === 'metadata';
+}
+
+function describeIssues(issues: MapDocumentIssue[]): string {
+  return issues.slice(0, 3).map(issue => `${issue.path}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Primitive leaves of an object as dotted paths
+ */
+function flattenValues(value: unknown, prefix: string, out: Map<string, RecipeValue>): void {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value).forEach(([key, child]) => flattenValues(child, `${prefix}.${key}`, out));
+  } else if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+    out.set(prefix, value as RecipeValue);
+  }
+}
+
+function territoryValues(territory: Territory): Map<string, RecipeValue> {
+  const values = new Map<string, RecipeValue>();
+  TOP_LEVEL_FIELDS.forEach(field => {
+    if (territory[field] !== undefined) values.set(field, territory[field]!);
+  });
+  flattenValues(territory.metadata, 'metadata', values);
+  return values;
+}
+
+/**
+ * Attribute changes between generated territories and edited ones
+ * Territories are matched by id; ones missing on either side are ignored
+ * @param base - Territories as generated
+ * @param edited - The same territories after manual edits
+ * @returns One edit per changed territory
+ */
+export function diffTerritories(base: Territory[], edited: Territory[]): TerritoryEdit[] {
+  const baseById = new Map(base.map(t => [t.id, t]));
+  const edits: TerritoryEdit[] = [];
+
+  edited.forEach(territory => {
+    const original = baseById.get(territory.id);
+    if (!original) return;
+
+    const before = territoryValues(original);
+    const after = territoryValues(territory);
+    const changes: Record<string, RecipeValue> = {};
+    after.forEach((value, path) => {
+      if (before.get(path) !== value) changes[path] = value;
+    });
+    // Optional fields that were removed
+    before.forEach((_, path) => {
+      if (!after.has(path)) changes[path] = null;
+    });
+
+    if (Object.keys(changes).length > 0) edits.push({ id: territory.id, changes });
+  });
+
+  return edits;
+}
+
+/**
+ * Apply recorded edits to territories
+ * @returns New territory objects; edits for unknown ids and paths are skipped
+ */
+export function applyEdits(territories: Territory[], edits: TerritoryEdit[]): Territory[] {
+  const editsById = new Map(edits.map(edit => [edit.id, edit]));
+
+  return territories.map(territory => {
+    const edit = editsById.get(territory.id);
+    if (!edit) return territory;
+
+    // Deep copy so generated data is never mutated
+    const copy: Territory = JSON.parse(JSON.stringify(territory));
+    Object.entries(edit.changes).forEach(([path, value]) => {
+      if (!isEditablePath(path)) return;
+      const keys = path.split('.');
+      const last = keys.pop()!;
+      let target = copy as unknown as Record<string, unknown>;
+      for (const key of keys) {
+        if (typeof target[key] !== 'object' || target[key] === null) target[key] = {};
+        target = target[key] as Record<string, unknown>;
+      }
+      if (value === null) {
+        delete target[last];
+      } else {
+        target[last] = value;
+      }
+    });
+    return copy;
+  });
+}
+
+/**
+ * Describe a map as a recipe
+ * @param map - Current map, possibly edited
+ * @param base - The map as generated from map.config (regenerated when omitted)
+ * @throws RecipeError when the map has no seed or its seed no longer produces its territories
+ */
+export function createRecipe(map: GeneratedMap, base?: GeneratedMap): MapRecipe {
+  if (map.config.seed === undefined) {
+    throw new RecipeError('This map has no seed, so it cannot be shared as a link');
+  }
+  const generated = base ?? generateWorld(map.config);
+  // Edits only cover attributes, so the seed must still produce the same cells
+  const sameGeometry = generated.territories.length === map.territories.length &&
+    generated.territories.every((t, i) =>
+      t.id === map.territories[i].id &&
+      JSON.stringify(t.borderPoints) === JSON.stringify(map.territories[i].borderPoints)
+    );
+  if (!sameGeometry) {
+    throw new RecipeError('This map no longer matches its seed (made by another generator version or reshaped), so it cannot be shared as a link');
+  }
+  return {
+    generatorVersion: GENERATOR_VERSION,
+    config: map.config,
+    edits: diffTerritories(generated.territories, map.territories)
+  };
+}
+
+/**
+ * Rebuild the map a recipe describes
+ * Edited territories pass their changes down to their provinces and counties.
+ * @throws RecipeError when the edits leave a territory invalid (e.g. a negative population)
+ */
+export function mapFromRecipe(recipe: MapRecipe): GeneratedMap {
+  const map = generateWorld(recipe.config);
+  const territories = applyEdits(map.territories, recipe.edits);
+  const issues = validateTerritories(territories);
+  if (issues.length > 0) {
+    throw new RecipeError(`The map link has invalid edits (${describeIssues(issues)})`);
+  }
+  return map.subdivisions
+    ? { ...map, ...reconcileSubdivisions(territories, map.subdivisions) }
+    : { ...map, territories };
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): string {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * Encode a recipe as a short URL-safe string
+ * Generated territory ids ("territory-12") are stored as their number
+ */
+export function encodeRecipe(recipe: MapRecipe): string {
+  const edits = recipe.edits.map(edit => {
+    const match = /^territory-(\d+)$/.exec(edit.id);
+    return [match ? Number(match[1]) : edit.id, edit.changes];
+  });
+  const payload = {
+    g: recipe.generatorVersion,
+    c: recipe.config,
+    ...(edits.length > 0 && { e: edits })
+  };
+  return `${RECIPE_FORMAT}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+/**
+ * Decode a string made by encodeRecipe
+ * The config is validated as in a map file; edit values are checked by mapFromRecipe.
+ * @throws RecipeError when the string is damaged, from an unknown format or asks for an invalid map
+ */
+export function decodeRecipe(text: string): MapRecipe {
+  const [format, body] = text.split('.', 2);
+  if (format !== RECIPE_FORMAT || !body) {
+    throw new RecipeError(`Unknown map link format "${format}"`);
+  }
+
+  let payload: { g?: unknown; c?: unknown; e?: unknown };
+  try {
+    payload = JSON.parse(fromBase64Url(body));
+  } catch {
+    throw new RecipeError('The map link is damaged or incomplete');
+  }
+
+  const config = payload.c as GeneratedMap['config'] | undefined;
+  if (
+    typeof config !== 'object' || config === null ||
+    typeof config.width !== 'number' || typeof config.height !== 'number' ||
+    typeof config.territoryCount !== 'number' || typeof config.seed !== 'number'
+  ) {
+    throw new RecipeError('The map link has no valid size, territory count and seed');
+  }
+  const issues = validateMapConfig(config);
+  if (issues.length > 0) {
+    throw new RecipeError(`The map link has an invalid configuration (${describeIssues(issues)})`);
+  }
+  if (config.territoryCount > MAX_TERRITORY_COUNT || Math.max(config.width, config.height) > MAX_MAP_SIZE) {
+    throw new RecipeError(
+      `The map link asks for a map larger than ${MAX_TERRITORY_COUNT} territories or ${MAX_MAP_SIZE} units across`
+    );
+  }
+
+  const edits: TerritoryEdit[] = [];
+  if (Array.isArray(payload.e)) {
+    payload.e.forEach(entry => {
+      if (!Array.isArray(entry) || typeof entry[1] !== 'object' || entry[1] === null) return;
+      const id = typeof entry[0] === 'number' ? `territory-${entry[0]}` : String(entry[0]);
+      const changes = entry[1] as Record<string, unknown>;
+      Object.entries(changes).forEach(([path, value]) => {
+        if (!isEditablePath(path)) throw new RecipeError(`The map link edits an unknown field "${path}"`);
+        if (value !== null && !['string', 'number', 'boolean'].includes(typeof value)) {
+          throw new RecipeError(`The map link sets "${path}" to something other than a single value`);
+        }
+      });
+      edits.push({ id, changes: changes as Record<string, RecipeValue> });
+    });
+  }
+
+  return {
+    generatorVersion: typeof payload.g === 'string' ? payload.g : 'unknown',
+    config,
+    edits
+  };
+}
+
+/**
+ * Recipe held in a URL hash, or null when the hash has none
+ * @throws RecipeError when the hash holds a recipe that cannot be decoded
+ */
+export function readRecipeHash(hash: string): MapRecipe | null {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+  return value ? decodeRecipe(value) : null;
+}
+
+/**
+ * URL hash for a recipe, including the leading "#"
+ */
+export function recipeHash(recipe: MapRecipe): string {
+  return `#${HASH_KEY}=${encodeRecipe(recipe)}`;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { isPointInPolygon, Point } from './geometry';
+import { MapShapeError, parseOutline, traceMask } from './mapShape';
+
+const inside = (rings: Point[][], point: Point) => rings.some(ring => isPointInPolygon(point, ring));
+
+describe('traceMask', () => {
+  it('traces a blob stretched over the map', () => {
+    const rings = traceMask(['0000', '0110', '0110', '0000'], 400, 400);
+    expect(rings).toHaveLength(1);
+    expect(inside(rings, [200, 200])).toBe(true);
+    expect(inside(rings, [20, 20])).toBe(false);
+    rings[0].forEach(([x, y]) => {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThanOrEqual(400);
+      expect(y).toBeGreaterThanOrEqual(0);
+      expect(y).toBeLessThanOrEqual(400);
+    });
+  });
+
+  it('gives separate blobs separate rings and fills holes', () => {
+    expect(traceMask(['1100011', '1100011'], 700, 200)).toHaveLength(2);
+
+    const ring = traceMask(['000000', '011110', '010010', '011110', '000000'], 600, 500);
+    expect(ring).toHaveLength(1);
+    expect(inside(ring, [300, 250])).toBe(true);
+  });
+
+  it('finds nothing in an empty mask', () => {
+    expect(traceMask(['000', '000'], 300, 200)).toEqual([]);
+  });
+});
+
+describe('parseOutline', () => {
+  const square = [[0, 0], [10, 0], [10, 10], [0, 10]];
+
+  it('reads a plain list of points', () => {
+    expect(parseOutline(square)).toEqual(square);
+  });
+
+  it('reads GeoJSON polygons, features and collections without the closing point', () => {
+    const polygon = { type: 'Polygon', coordinates: [[...square, [0, 0]], [[2, 2], [3, 2], [3, 3]]] };
+    expect(parseOutline(polygon)).toEqual(square);
+    expect(parseOutline({ type: 'Feature', geometry: polygon })).toEqual(square);
+    expect(parseOutline({ type: 'FeatureCollection', features: [{ type: 'Feature', geometry: polygon }] })).toEqual(square);
+  });
+
+  it('rejects anything that is not an outline', () => {
+    expect(() => parseOutline({ type: 'Point', coordinates: [1, 2] })).toThrow(MapShapeError);
+    expect(() => parseOutline([[0, 0], ['a', 1], [2, 2]])).toThrow(MapShapeError);
+    expect(() => parseOutline([[0, 0], [1, 1], [0, 0]])).toThrow('at least 3 points');
+    expect(() => parseOutline(null)).toThrow(MapShapeError);
+  });
+});
@@ -0,0 +1,285 @@
+import { MapShape } from '../types/Territory';
+import { clipPolygon, isPointInPolygon, Point, signedArea } from './geometry';
+import { NoiseField } from './noise';
+import { SeededRandom } from './seededRandom';
+
+/**
+ * Map outlines: the area territories are generated inside
+ *
+ * Every shape becomes a list of simple polygons (rings) in map units. Seed points
+ * are only placed inside a ring, and each Voronoi cell is clipped to the ring it
+ * overlaps most, so the territories fill the outline exactly.
+ */
+
+export const MAP_SHAPE_KINDS = ['rectangle', 'circle', 'ellipse', 'continent', 'archipelago', 'polygon', 'mask'] as const;
+
+// Drawn outside the outline when the outside is sea
+export const OUTSIDE_SEA_COLOR = '#2b5577';
+
+// Most islands an archipelago can have
+export const MAX_ISLANDS = 20;
+
+// Vertices on curved outlines
+const CURVE_SEGMENTS = 96;
+
+// How far irregular coastlines stray from their base radius (fraction of it)
+const COASTLINE_ROUGHNESS = 0.35;
+
+/**
+ * Shape that cannot be built (e.g. an empty mask)
+ */
+export class MapShapeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MapShapeError';
+  }
+}
+
+/**
+ * Outline of a map: rings plus the tests generation needs
+ */
+export interface MapOutline {
+  rings: Point[][];
+  // Whether a point lies inside any ring
+  contains: (x: number, y: number) => boolean;
+  // Part of a convex cell inside the outline, wound like the cell (empty when outside)
+  clip: (cell: Point[]) => Point[];
+}
+
+function ellipseRing(cx: number, cy: number, rx: number, ry: number): Point[] {
+  return Array.from({ length: CURVE_SEGMENTS }, (_, k) => {
+    const angle = (k / CURVE_SEGMENTS) * Math.PI * 2;
+    return [cx + Math.cos(angle) * rx, cy + Math.sin(angle) * ry] as Point;
+  });
+}
+
+/**
+ * Ellipse with a coastline roughened by noise sampled around a circle, so it closes seamlessly
+ * @param offset - Where on the noise field to sample, so islands differ
+ */
+function irregularRing(cx: number, cy: number, rx: number, ry: number, noise: NoiseField, offset: number): Point[] {
+  return Array.from({ length: CURVE_SEGMENTS }, (_, k) => {
+    const angle = (k / CURVE_SEGMENTS) * Math.PI * 2;
+    const n = noise.fractal(offset + Math.cos(angle) * 1.5, offset + Math.sin(angle) * 1.5);
+    const radius = 1 + COASTLINE_ROUGHNESS * Math.min(Math.max((n - 0.5) * 4, -1), 1);
+    return [cx + Math.cos(angle) * rx * radius, cy + Math.sin(angle) * ry * radius] as Point;
+  });
+}
+
+/**
+ * Islands of varied size, kept apart and inside the map
+ */
+function archipelagoRings(width: number, height: number, seed: number, islands?: number): Point[][] {
+  const rng = new SeededRandom(seed + 4099);
+  const noise = new NoiseField(seed + 4099);
+  const count = islands ?? rng.nextInt(5, 8);
+  const size = Math.min(width, height);
+  const gap = size * 0.03;
+  const placed: { x: number; y: number; reach: number }[] = [];
+
+  for (let attempt = 0; placed.length < count && attempt < count * 200; attempt++) {
+    // Islands shrink as placement gets harder
+    const radius = size * (0.08 + rng.next() * 0.1) * (1 - attempt / (count * 400));
+    const reach = radius * (1 + COASTLINE_ROUGHNESS);
+    const x = reach + rng.next() * (width - 2 * reach);
+    const y = reach + rng.next() * (height - 2 * reach);
+    if (placed.every(p => Math.hypot(p.x - x, p.y - y) > p.reach + reach + gap)) {
+      placed.push({ x, y, reach });
+    }
+  }
+
+  return placed.map((island, k) => {
+    const radius = island.reach / (1 + COASTLINE_ROUGHNESS);
+    return irregularRing(island.x, island.y, radius, radius, noise, k * 37.7);
+  });
+}
+
+// Marching squares: edge pairs crossed by the outline for each corner pattern
+// Corners: 8 top-left, 4 top-right, 2 bottom-right, 1 bottom-left; edges: t, r, b, l
+const MARCHING_SEGMENTS: Record<number, [string, string][]> = {
+  1: [['l', 'b']], 2: [['b', 'r']], 3: [['l', 'r']], 4: [['t', 'r']],
+  5: [['l', 'b'], ['t', 'r']], 6: [['t', 'b']], 7: [['l', 't']], 8: [['l', 't']],
+  9: [['t', 'b']], 10: [['l', 't'], ['b', 'r']], 11: [['t', 'r']], 12: [['l', 'r']],
+  13: [['b', 'r']], 14: [['l', 'b']]
+};
+
+/**
+ * Trace the outer outlines of a bitmap mask stretched over the map
+ * Holes inside the mask are filled in.
+ * @param rows - One string per row, '1' for inside
+ */
+export function traceMask(rows: string[], width: number, height: number): Point[][] {
+  const columns = rows[0]?.length ?? 0;
+  const inside = (c: number, r: number) => rows[r]?.[c] === '1' ? 1 : 0;
+
+  // Edge midpoints in half-pixel units, so keys and collinearity checks are exact
+  const edgePoint = (edge: string, c: number, r: number): Point => {
+    switch (edge) {
+      case 't': return [2 * c + 2, 2 * r + 1];
+      case 'r': return [2 * c + 3, 2 * r + 2];
+      case 'b': return [2 * c + 2, 2 * r + 3];
+      default: return [2 * c + 1, 2 * r + 2];
+    }
+  };
+
+  // Squares between pixel centers, padded by one so every outline closes
+  const links = new Map<string, Point[]>();
+  const link = (a: Point, b: Point) => {
+    links.set(`${a}`, [...(links.get(`${a}`) ?? []), b]);
+    links.set(`${b}`, [...(links.get(`${b}`) ?? []), a]);
+  };
+  for (let r = -1; r < rows.length; r++) {
+    for (let c = -1; c < columns; c++) {
+      const pattern = inside(c, r) * 8 + inside(c + 1, r) * 4 + inside(c + 1, r + 1) * 2 + inside(c, r + 1);
+      MARCHING_SEGMENTS[pattern]?.forEach(([from, to]) => link(edgePoint(from, c, r), edgePoint(to, c, r)));
+    }
+  }
+
+  // Chain the segments into rings
+  const visited = new Set<string>();
+  const rings: Point[][] = [];
+  links.forEach((_, startKey) => {
+    if (visited.has(startKey)) return;
+    const ring: Point[] = [];
+    let previous: Point | null = null;
+    let current = startKey.split(',').map(Number) as Point;
+    while (!visited.has(`${current}`)) {
+      visited.add(`${current}`);
+      ring.push(current);
+      const next: Point | undefined = links.get(`${current}`)!.find(p => !previous || `${p}` !== `${previous}`);
+      if (!next) break;
+      previous = current;
+      current = next;
+    }
+    // Drop points in the middle of straight runs
+    const corners = ring.filter((p, i) => {
+      const a = ring[(i + ring.length - 1) % ring.length];
+      const b = ring[(i + 1) % ring.length];
+      return (p[0] - a[0]) * (b[1] - p[1]) !== (p[1] - a[1]) * (b[0] - p[0]);
+    });
+    if (corners.length >= 3) rings.push(corners);
+  });
+
+  // Rings inside an odd number of others are holes
+  const outer = rings.filter(ring =>
+    rings.filter(other => other !== ring && isPointInPolygon(ring[0], other)).length % 2 === 0
+  );
+
+  const sx = width / columns / 2;
+  const sy = height / rows.length / 2;
+  return outer.map(ring => ring.map(([x, y]) => [x * sx, y * sy] as Point));
+}
+
+/**
+ * Rings of a shape in map units
+ * @throws MapShapeError when a user-supplied shape is unusable
+ */
+export function buildShapeRings(shape: MapShape, width: number, height: number, seed: number): Point[][] {
+  switch (shape.kind) {
+    case 'rectangle':
+      return [[[0, 0], [width, 0], [width, height], [0, height]]];
+    case 'circle': {
+      const radius = Math.min(width, height) * 0.48;
+      return [ellipseRing(width / 2, height / 2, radius, radius)];
+    }
+    case 'ellipse':
+      return [ellipseRing(width / 2, height / 2, width * 0.48, height * 0.48)];
+    case 'continent':
+      return [irregularRing(width / 2, height / 2, width * 0.36, height * 0.36, new NoiseField(seed + 4099), 0)];
+    case 'archipelago':
+      if (shape.islands !== undefined && !(Number.isInteger(shape.islands) && shape.islands >= 1 && shape.islands <= MAX_ISLANDS)) {
+        throw new MapShapeError(`An archipelago needs 1 to ${MAX_ISLANDS} islands`);
+      }
+      return archipelagoRings(width, height, seed, shape.islands);
+    case 'polygon':
+      if (shape.points.length < 3 || Math.abs(signedArea(shape.points)) === 0) {
+        throw new MapShapeError('A map outline needs at least 3 points enclosing an area');
+      }
+      return [shape.points];
+    case 'mask': {
+      const columns = shape.rows[0]?.length ?? 0;
+      if (columns === 0 || shape.rows.some(row => row.length !== columns || /[^01]/.test(row))) {
+        throw new MapShapeError("A mask needs rows of equal length made of '0' and '1'");
+      }
+      const rings = traceMask(shape.rows, width, height);
+      if (rings.length === 0) throw new MapShapeError('The mask is empty');
+      return rings;
+    }
+  }
+}
+
+/**
+ * Outline for a map configuration
+ * @returns null for rectangular maps, which need no clipping
+ */
+export function createMapOutline(shape: MapShape | undefined, width: number, height: number, seed: number): MapOutline | null {
+  if (!shape || shape.kind === 'rectangle') return null;
+
+  const rings = buildShapeRings(shape, width, height, seed);
+  const bounds = rings.map(ring => {
+    const xs = ring.map(p => p[0]);
+    const ys = ring.map(p => p[1]);
+    return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+  });
+
+  return {
+    rings,
+    contains: (x, y) => rings.some((ring, k) => {
+      const [minX, minY, maxX, maxY] = bounds[k];
+      return x >= minX && x <= maxX && y >= minY && y <= maxY && isPointInPolygon([x, y], ring);
+    }),
+    clip: cell => {
+      const xs = cell.map(p => p[0]);
+      const ys = cell.map(p => p[1]);
+      let best: Point[] = [];
+      let bestArea = 0;
+      rings.forEach((ring, k) => {
+        const [minX, minY, maxX, maxY] = bounds[k];
+        if (maxX < Math.min(...xs) || minX > Math.max(...xs) || maxY < Math.min(...ys) || minY > Math.max(...ys)) return;
+        const piece = clipPolygon(ring, cell);
+        const area = Math.abs(signedArea(piece));
+        if (piece.length >= 3 && area > bestArea) {
+          best = piece;
+          bestArea = area;
+        }
+      });
+      return Math.sign(signedArea(best)) === Math.sign(signedArea(cell)) ? best : best.reverse();
+    }
+  };
+}
+
+/**
+ * Fill for the area outside the outline
+ * @returns A color for sea, null when there is no outside or it is left empty
+ */
+export function getOutsideColor(shape?: MapShape): string | null {
+  if (!shape || shape.kind === 'rectangle' || shape.outside === 'void') return null;
+  return OUTSIDE_SEA_COLOR;
+}
+
+/**
+ * Read a map outline from JSON: a list of [x, y] points, or a GeoJSON Polygon
+ * (bare, as a Feature, or the first feature of a FeatureCollection; holes are ignored)
+ * @throws MapShapeError when no usable outline is found
+ */
+export function parseOutline(data: unknown): [number, number][] {
+  let value = data as Record<string, unknown> | unknown[] | null;
+  if (value && !Array.isArray(value) && value.type === 'FeatureCollection') {
+    value = (value.features as unknown[] | undefined)?.[0] as Record<string, unknown> ?? null;
+  }
+  if (value && !Array.isArray(value) && value.type === 'Feature') value = value.geometry as Record<string, unknown>;
+  if (value && !Array.isArray(value) && value.type === 'Polygon') value = (value.coordinates as unknown[] | undefined)?.[0] as unknown[];
+
+  const isPoint = (p: unknown): p is [number, number] =>
+    Array.isArray(p) && p.length >= 2 && Number.isFinite(p[0]) && Number.isFinite(p[1]);
+  if (!Array.isArray(value) || !value.every(isPoint)) {
+    throw new MapShapeError('Expected a list of [x, y] points or a GeoJSON Polygon');
+  }
+
+  const points = value.map(([x, y]) => [x, y] as [number, number]);
+  // GeoJSON rings repeat the first point at the end
+  const [first, last] = [points[0], points[points.length - 1]];
+  if (points.length > 1 && first[0] === last[0] && first[1] === last[1]) points.pop();
+  if (points.length < 3) throw new MapShapeError('A map outline needs at least 3 points');
+  return points;
+}
@@ -1,75 +1,90 @@
-import { TerrainType, TerritoryMetadata } from '../types/Territory';
+import { TerrainType, TerritoryMetadata, ClimateConfig } from '../types/Territory';
 import { SeededRandom } from './seededRandom';
+import { NoiseField } from './noise';
+import { computeLatitude, computeTemperature, classifyBiome, DEFAULT_CLIMATE } from './climate';
+import { CULTURES } from './cultureGenerator';
 
 /**
- * Medieval culture names
+ * Environmental values sampled at a territory's center
  */
-const cultures = [
-  'Gothic', 'Norman', 'Saxon', 'Celtic', 'Frankish', 'Byzantine',
-  'Slavic', 'Norse', 'Iberian', 'Lombard', 'Moorish', 'Venetian'
-];
+export interface CellEnvironment {
+  elevation: number;   // 0-1
+  moisture: number;    // 0-1, used as rainfall
+  temperature: number; // 0-1
+  // Water body type when the cell lies below sea level
+  water?: TerrainType.OCEAN | TerrainType.SEA | TerrainType.LAKE;
+  // Land cell bordering water
+  coastal?: boolean;
+  // Land cell bordering a river
+  riverine?: boolean;
+  // Culture grown from a hearth (random when absent)
+  culture?: string;
+  minorityCulture?: string;
+}
 
 /**
- * Determine terrain type based on position and seed
- * Uses distance from center and edges to create natural terrain distribution
+ * Check whether a terrain type is a (non-playable) water cell
  */
-export function generateTerrain(
-  x: number,
-  y: number,
+export function isWaterTerrain(terrain: TerrainType): boolean {
+  return terrain === TerrainType.OCEAN || terrain === TerrainType.SEA || terrain === TerrainType.LAKE;
+}
+
+/**
+ * Create a sampler for the map's elevation, moisture and temperature
+ * Elevation and moisture are fractal noise spanning the whole map, so mountain ranges,
+ * basins and dry regions cover several neighboring territories. Temperature follows
+ * latitude within the configured climate band.
+ * @param seed - Map seed (shared by all territories)
+ */
+export function createEnvironmentSampler(
   width: number,
   height: number,
-  seed: number
-): TerrainType {
-  const rng = new SeededRandom(seed);
-
-  // Calculate distance from center
-  const centerX = width / 2;
-  const centerY = height / 2;
-  const distFromCenter = Math.sqrt(
-    Math.pow(x - centerX, 2) + Math.pow(y - centerY, 2)
-  );
-  const maxDist = Math.sqrt(Math.pow(width / 2, 2) + Math.pow(height / 2, 2));
-  const normalizedDist = distFromCenter / maxDist;
-
-  // Calculate distance from edges
-  const distFromEdge = Math.min(x, y, width - x, height - y);
-  const normalizedEdgeDist = distFromEdge / Math.min(width, height);
+  seed: number,
+  climate: ClimateConfig = DEFAULT_CLIMATE
+): (x: number, y: number) => CellEnvironment {
+  const elevationField = new NoiseField(seed);
+  const moistureField = new NoiseField(seed + 7919);
+
+  // Roughly three large features across the longest side of the map
+  const scale = 3 / Math.max(width, height);
+
+  return (x, y) => {
+    const elevation = stretchContrast(elevationField.fractal(x * scale, y * scale));
+    return {
+      elevation,
+      moisture: stretchContrast(moistureField.fractal(x * scale + 50, y * scale + 50)),
+      temperature: computeTemperature(computeLatitude(y, height, climate), elevation, climate)
+    };
+  };
+}
 
-  // Terrain probabilities based on position
-  const rand = rng.next();
+/**
+ * Spread fractal noise (which clusters around 0.5) over the full 0-1 range
+ */
+function stretchContrast(value: number): number {
+  const stretched = (value - 0.5) * 2 + 0.5;
+  return Math.round(Math.min(Math.max(stretched, 0), 1) * 1000) / 1000;
+}
 
-  // Mountains more likely near edges
-  if (normalizedEdgeDist < 0.15 && rand < 0.6) {
-    return TerrainType.MOUNTAINS;
+/**
+ * Determine terrain type for a cell
+ * Water and coastline decide first, then the climate model picks relief or biome
+ */
+export function generateTerrain(environment: CellEnvironment): TerrainType {
+  if (environment.water) {
+    return environment.water;
   }
 
-  // Coastal near edges but not in corners
-  if (normalizedEdgeDist < 0.2 && normalizedDist < 0.7 && rand < 0.7) {
+  if (environment.coastal) {
     return TerrainType.COASTAL;
   }
 
-  // Hills transition between mountains and plains
-  if (normalizedEdgeDist < 0.3 && rand < 0.5) {
-    return TerrainType.HILLS;
-  }
-
-  // Plains more common in center
-  if (normalizedDist < 0.5 && rand < 0.6) {
-    return TerrainType.PLAINS;
-  }
-
-  // Forest scattered throughout
-  if (rand < 0.25) {
-    return TerrainType.FOREST;
-  }
-
-  // Desert in specific regions
-  if (normalizedDist > 0.6 && rand < 0.3) {
-    return TerrainType.DESERT;
-  }
-
-  // Default to plains
-  return TerrainType.PLAINS;
+  return classifyBiome(
+    environment.temperature,
+    environment.moisture,
+    environment.elevation,
+    environment.riverine
+  );
 }
 
 /**
@@ -121,6 +136,55 @@ function generateResources(terrain: TerrainType, seed: number): {
       military = rng.nextInt(45, 65);
       break;
 
+    case TerrainType.TUNDRA:
+      food = rng.nextInt(10, 25);
+      gold = rng.nextInt(20, 45);
+      military = rng.nextInt(30, 50);
+      break;
+
+    case TerrainType.MARSH:
+      food = rng.nextInt(35, 55);
+      gold = rng.nextInt(15, 35);
+      military = rng.nextInt(20, 40);
+      break;
+
+    case TerrainType.STEPPE:
+      food = rng.nextInt(40, 60);
+      gold = rng.nextInt(25, 45);
+      military = rng.nextInt(65, 90); // Horse country
+      break;
+
+    case TerrainType.JUNGLE:
+      food = rng.nextInt(50, 70);
+      gold = rng.nextInt(45, 70);
+      military = rng.nextInt(25, 45);
+      break;
+
+    case TerrainType.FARMLAND:
+      food = rng.nextInt(85, 100);
+      gold = rng.nextInt(45, 65);
+      military = rng.nextInt(45, 65);
+      break;
+
+    // Water: fishing and sea trade only
+    case TerrainType.OCEAN:
+      food = rng.nextInt(30, 50);
+      gold = rng.nextInt(20, 40);
+      military = rng.nextInt(1, 10);
+      break;
+
+    case TerrainType.SEA:
+      food = rng.nextInt(40, 60);
+      gold = rng.nextInt(20, 40);
+      military = rng.nextInt(1, 10);
+      break;
+
+    case TerrainType.LAKE:
+      food = rng.nextInt(40, 60);
+      gold = rng.nextInt(5, 20);
+      military = rng.nextInt(1, 10);
+      break;
+
     default:
       food = 50;
       gold = 50;
@@ -150,8 +214,7 @@ export function calculateArea(borderPoints: [number, number][]): number {
  * Generate complete metadata for a territory
  */
 export function generateMetadata(
-  x: number,
-  y: number,
+  environment: CellEnvironment,
   width: number,
   height: number,
   area: number,
@@ -160,11 +223,16 @@ export function generateMetadata(
   const rng = new SeededRandom(seed);
 
   // Determine terrain
-  const terrain = generateTerrain(x, y, width, height, seed);
+  const terrain = generateTerrain(environment);
 
   // Generate resources
   const resources = generateResources(terrain, seed + 1000);
 
+  // Rivers water the fields
+  if (environment.riverine) {
+    resources.food = Math.min(100, resources.food + 15);
+  }
+
   // Calculate population based on terrain and area
   let basePopulation: number;
   switch (terrain) {
@@ -186,6 +254,26 @@ export function generateMetadata(
     case TerrainType.COASTAL:
       basePopulation = rng.nextInt(10000, 18000);
       break;
+    case TerrainType.TUNDRA:
+      basePopulation = rng.nextInt(800, 2500);
+      break;
+    case TerrainType.MARSH:
+      basePopulation = rng.nextInt(2000, 5000);
+      break;
+    case TerrainType.STEPPE:
+      basePopulation = rng.nextInt(3000, 7000);
+      break;
+    case TerrainType.JUNGLE:
+      basePopulation = rng.nextInt(3000, 8000);
+      break;
+    case TerrainType.FARMLAND:
+      basePopulation = rng.nextInt(14000, 22000);
+      break;
+    case TerrainType.OCEAN:
+    case TerrainType.SEA:
+    case TerrainType.LAKE:
+      basePopulation = 0;
+      break;
     default:
       basePopulation = 5000;
   }
@@ -193,21 +281,30 @@ export function generateMetadata(
   // Scale population by area (larger territories = more people)
   const avgArea = (width * height) / 30; // Assuming ~30 territories average
   const areaMultiplier = Math.sqrt(area / avgArea);
-  const population = Math.round(basePopulation * areaMultiplier);
+  // Settlements cluster along rivers
+  const riverMultiplier = environment.riverine ? 1.25 : 1;
+  const population = Math.round(basePopulation * areaMultiplier * riverMultiplier);
 
-  // Development level based on terrain and resources
-  const development = Math.round(
+  // Development level based on terrain and resources (water is never developed)
+  const development = isWaterTerrain(terrain) ? 0 : Math.round(
     (resources.gold * 0.4 + resources.food * 0.3 + resources.military * 0.3)
   );
 
-  // Assign culture
-  const culture = cultures[rng.nextInt(0, cultures.length - 1)];
+  // Assign culture (nobody lives on water)
+  const culture = isWaterTerrain(terrain)
+    ? ''
+    : environment.culture ?? CULTURES[rng.nextInt(0, CULTURES.length - 1)];
 
   return {
     population,
     terrain,
     resources,
     culture,
-    development
+    ...(environment.minorityCulture ? { minorityCulture: environment.minorityCulture } : {}),
+    development,
+    elevation: environment.elevation,
+    moisture: environment.moisture,
+    temperature: environment.temperature,
+    riverine: environment.riverine ?? false
   };
 }
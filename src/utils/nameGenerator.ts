@@ -1,69 +1,391 @@
 /**
  * Medieval territory name generator
- * Creates realistic-sounding medieval names using syllable combinations
+ * Creates realistic-sounding medieval names using syllable combinations.
+ * Each culture names places in its own language (phonology), and names can pick up
+ * terrain suffixes such as -ford for river crossings or -peak for mountains.
  */
 
+import { TerrainType } from '../types/Territory';
 import { SeededRandom } from './seededRandom';
 
-const prefixes = [
-  'Ald', 'Bal', 'Cor', 'Dun', 'Eld', 'Fal', 'Gar', 'Hil', 'Kal', 'Lor',
-  'Mor', 'Nor', 'Ost', 'Pel', 'Quen', 'Rav', 'Sil', 'Thal', 'Val', 'Wel',
-  'Wyn', 'Xer', 'Yor', 'Zar', 'Bran', 'Crim', 'Drak', 'Eber', 'Frey', 'Glen'
-];
+/**
+ * Place features that can replace a name's suffix
+ */
+export type NameFeature = 'river' | 'border' | 'mountain' | 'forest' | 'coast' | 'marsh';
+
+/**
+ * Syllable tables and word shapes for one naming language
+ */
+export interface Phonology {
+  prefixes: string[];
+  middles: string[];
+  suffixes: string[];
+  // Relative weights of name structures
+  structureWeights: {
+    full: number;     // prefix + middle + suffix
+    short: number;    // prefix + suffix
+    compound: number; // prefix + middle
+  };
+  // Letter clusters a name must not contain (case-insensitive, checked across syllable joins)
+  forbiddenClusters: string[];
+  // Suffixes used for territories with a notable feature
+  featureSuffixes: Record<NameFeature, string[]>;
+}
+
+/**
+ * Context for naming a single territory
+ */
+export interface NameContext {
+  culture?: string;
+  terrain?: TerrainType;
+  riverine?: boolean;
+  // Mixed borderland between two cultures
+  borderland?: boolean;
+}
+
+/**
+ * English-flavored default language, used by Saxons and by unknown cultures
+ */
+const anglo: Phonology = {
+  prefixes: [
+    'Ald', 'Bal', 'Cor', 'Dun', 'Eld', 'Fal', 'Gar', 'Hil', 'Kal', 'Lor',
+    'Mor', 'Nor', 'Ost', 'Pel', 'Quen', 'Rav', 'Sil', 'Thal', 'Val', 'Wel',
+    'Wyn', 'Xer', 'Yor', 'Zar', 'Bran', 'Crim', 'Drak', 'Eber', 'Frey', 'Glen'
+  ],
+  middles: [
+    'dor', 'mar', 'wen', 'thor', 'var', 'len', 'dan', 'kel', 'rin', 'mor',
+    'wyn', 'dal', 'gar', 'ven', 'ton', 'burg', 'ham', 'shire', 'dale', 'wood',
+    'mer', 'son', 'ter', 'den', 'ford', 'mont', 'vale', 'ridge', 'stone', 'haven'
+  ],
+  suffixes: [
+    'ia', 'or', 'en', 'ar', 'on', 'us', 'um', 'land', 'mark', 'reich',
+    'dom', 'hold', 'stead', 'ton', 'field', 'mere', 'moor', 'crest', 'peak', 'watch'
+  ],
+  structureWeights: { full: 0.6, short: 0.3, compound: 0.1 },
+  forbiddenClusters: [],
+  featureSuffixes: {
+    river: ['ford', 'bridge', 'wick'],
+    border: ['mark', 'march'],
+    mountain: ['peak', 'crag'],
+    forest: ['wood', 'holt'],
+    coast: ['haven', 'mouth'],
+    marsh: ['fen', 'moss']
+  }
+};
+
+const germanic: Phonology = {
+  prefixes: [
+    'Ald', 'Brun', 'Eber', 'Frid', 'Gund', 'Hart', 'Lind', 'Os', 'Wil', 'Rad',
+    'Sieg', 'Theud', 'Wulf', 'Ans', 'Adal', 'Hild', 'Konr', 'Erm', 'Gisel', 'Rein'
+  ],
+  middles: ['en', 'har', 'ric', 'mund', 'wald', 'helm', 'bert', 'ing', 'stein', 'olf'],
+  suffixes: ['burg', 'heim', 'stadt', 'feld', 'hausen', 'dorf', 'ingen', 'bach', 'au', 'rode'],
+  structureWeights: { full: 0.45, short: 0.45, compound: 0.1 },
+  forbiddenClusters: ['aa', 'ii', 'uu', 'hh', 'ww', 'nnn', 'dtd'],
+  featureSuffixes: {
+    river: ['furt', 'bruck'],
+    border: ['mark'],
+    mountain: ['berg', 'stein'],
+    forest: ['wald', 'holz'],
+    coast: ['hafen'],
+    marsh: ['moor', 'bruch']
+  }
+};
+
+const norse: Phonology = {
+  prefixes: [
+    'Bjorn', 'Sig', 'Thor', 'Ulf', 'Hald', 'Ragn', 'Skar', 'Vik', 'Grim', 'Ey',
+    'Hrafn', 'Kol', 'Sten', 'Frey', 'Ask', 'Orm', 'Tyr', 'Hel', 'Gunn', 'Ing'
+  ],
+  middles: ['a', 'e', 'vald', 'mund', 'gar', 'heim', 'stad', 'rik', 'ulf'],
+  suffixes: ['vik', 'by', 'heim', 'dal', 'nes', 'fjord', 'stad', 'holm', 'gard', 'vang'],
+  structureWeights: { full: 0.3, short: 0.6, compound: 0.1 },
+  forbiddenClusters: ['aa', 'jj', 'hrh', 'vv', 'ee'],
+  featureSuffixes: {
+    river: ['os', 'ford'],
+    border: ['mark'],
+    mountain: ['fjell', 'berg'],
+    forest: ['skog', 'lund'],
+    coast: ['vik', 'nes'],
+    marsh: ['myr']
+  }
+};
 
-const middles = [
-  'dor', 'mar', 'wen', 'thor', 'var', 'len', 'dan', 'kel', 'rin', 'mor',
-  'wyn', 'dal', 'gar', 'ven', 'ton', 'burg', 'ham', 'shire', 'dale', 'wood',
-  'mer', 'son', 'ter', 'den', 'ford', 'mont', 'vale', 'ridge', 'stone', 'haven'
+const celtic: Phonology = {
+  prefixes: [
+    'Aber', 'Bryn', 'Caer', 'Dun', 'Glen', 'Kil', 'Llan', 'Pen', 'Tre', 'Ros',
+    'Inver', 'Bal', 'Cul', 'Ard', 'Mor', 'Dol', 'Lis', 'Tor', 'Cill', 'Rath'
+  ],
+  middles: ['an', 'dair', 'mor', 'gwyn', 'ach', 'ell', 'wen', 'ith', 'rhos'],
+  suffixes: ['ach', 'wyn', 'more', 'ane', 'dun', 'dell', 'ith', 'ogue', 'ey', 'an'],
+  structureWeights: { full: 0.4, short: 0.5, compound: 0.1 },
+  forbiddenClusters: ['yy', 'ww', 'aa', 'hh', 'nnn'],
+  featureSuffixes: {
+    river: ['avon', 'rith'],
+    border: ['march'],
+    mountain: ['ben', 'bryn'],
+    forest: ['coed', 'derry'],
+    coast: ['port', 'ros'],
+    marsh: ['moss', 'corrie']
+  }
+};
+
+const romance: Phonology = {
+  prefixes: [
+    'Mont', 'Bel', 'Val', 'Ros', 'Castel', 'Ver', 'Lor', 'Sant', 'Ar', 'Mar',
+    'Fior', 'Bor', 'Cal', 'Vil', 'Pla', 'Sera', 'Alba', 'Cor', 'Tor', 'Lun'
+  ],
+  middles: ['a', 'e', 'i', 'en', 'ar', 'ill', 'or', 'ass', 'er'],
+  suffixes: ['ille', 'ac', 'ency', 'ano', 'ona', 'ela', 'ez', 'ino', 'ia', 'elle'],
+  structureWeights: { full: 0.5, short: 0.45, compound: 0.05 },
+  forbiddenClusters: ['aa', 'ii', 'ee', 'uu', 'oo', 'ae', 'lll'],
+  featureSuffixes: {
+    river: ['pont', 'vado'],
+    border: ['marca', 'marche'],
+    mountain: ['monte', 'pic'],
+    forest: ['bosc', 'selva'],
+    coast: ['porto', 'mar'],
+    marsh: ['palude', 'marais']
+  }
+};
+
+const hellenic: Phonology = {
+  prefixes: [
+    'Ach', 'Kal', 'Theo', 'Nik', 'Pol', 'Mel', 'Ast', 'Kor', 'Ther', 'Ly',
+    'Pel', 'Aeg', 'Dor', 'Chry', 'Ky', 'Phil', 'Thes', 'Eph', 'Sm', 'Ar'
+  ],
+  middles: ['a', 'o', 'e', 'ik', 'an', 'op', 'ist', 'era'],
+  suffixes: ['ia', 'os', 'on', 'polis', 'ikon', 'ene', 'ai', 'is', 'ara', 'essa'],
+  structureWeights: { full: 0.55, short: 0.4, compound: 0.05 },
+  forbiddenClusters: ['oo', 'aa', 'ii', 'yy', 'hh', 'smn'],
+  featureSuffixes: {
+    river: ['potamos'],
+    border: ['akra'],
+    mountain: ['oros'],
+    forest: ['dasos'],
+    coast: ['limen'],
+    marsh: ['limne']
+  }
+};
+
+const slavic: Phonology = {
+  prefixes: [
+    'Vol', 'Bor', 'Rad', 'Mir', 'Zvon', 'Kras', 'Dob', 'Stan', 'Vy', 'Gor',
+    'Lub', 'Pre', 'Sve', 'Jar', 'Bel', 'Vlad', 'Zlat', 'Tver', 'Nov', 'Ost'
+  ],
+  middles: ['o', 'e', 'i', 'an', 'en', 'ov', 'sk', 'ol'],
+  suffixes: ['grad', 'ov', 'ava', 'sk', 'nica', 'ice', 'in', 'ovo', 'ec', 'ino'],
+  structureWeights: { full: 0.35, short: 0.6, compound: 0.05 },
+  forbiddenClusters: ['aa', 'ii', 'skk', 'vv', 'oo', 'kskn'],
+  featureSuffixes: {
+    river: ['brod'],
+    border: ['krajina'],
+    mountain: ['gora', 'vrh'],
+    forest: ['les', 'dub'],
+    coast: ['primorje'],
+    marsh: ['blato']
+  }
+};
+
+const arabic: Phonology = {
+  prefixes: [
+    'Al', 'Ben', 'Cal', 'Med', 'Qas', 'Jaz', 'Zah', 'Mur', 'Sal', 'Tar',
+    'Gib', 'Alh', 'Rab', 'Mar', 'Bad', 'Sar', 'Kair', 'Hams', 'Dar', 'Zar'
+  ],
+  middles: ['a', 'i', 'ar', 'ib', 'am', 'ul', 'ah'],
+  suffixes: ['ira', 'ara', 'ayda', 'un', 'iya', 'at', 'ab', 'ad', 'ina', 'em'],
+  structureWeights: { full: 0.4, short: 0.55, compound: 0.05 },
+  forbiddenClusters: ['aa', 'ii', 'uu', 'hh', 'ahh'],
+  featureSuffixes: {
+    river: ['wadi'],
+    border: ['thagr'],
+    mountain: ['jabal'],
+    forest: ['ghaba'],
+    coast: ['marsa'],
+    marsh: ['batiha']
+  }
+};
+
+/**
+ * Naming language per culture
+ * Extend with registerPhonology; unknown cultures fall back to the default language
+ */
+const phonologies: Record<string, Phonology> = {
+  Saxon: anglo,
+  Gothic: germanic,
+  Frankish: germanic,
+  Lombard: germanic,
+  Norse: norse,
+  Celtic: celtic,
+  Norman: romance,
+  Iberian: romance,
+  Venetian: romance,
+  Byzantine: hellenic,
+  Slavic: slavic,
+  Moorish: arabic
+};
+
+/**
+ * Register (or replace) the naming language for a culture
+ */
+export function registerPhonology(culture: string, phonology: Phonology): void {
+  phonologies[culture] = phonology;
+}
+
+/**
+ * Naming language for a culture
+ */
+export function getPhonology(culture?: string): Phonology {
+  return (culture && phonologies[culture]) || anglo;
+}
+
+/**
+ * Most notable feature of a territory, if any
+ * Rivers and borderlands outrank terrain
+ */
+function featureFor(context: NameContext): NameFeature | null {
+  if (context.riverine) return 'river';
+  if (context.borderland) return 'border';
+
+  switch (context.terrain) {
+    case TerrainType.MOUNTAINS:
+    case TerrainType.HILLS:
+      return 'mountain';
+    case TerrainType.FOREST:
+    case TerrainType.JUNGLE:
+      return 'forest';
+    case TerrainType.COASTAL:
+      return 'coast';
+    case TerrainType.MARSH:
+      return 'marsh';
+    default:
+      return null;
+  }
+}
+
+const riverRoots = [
+  'Aven', 'Tam', 'Sev', 'Der', 'Wen', 'Isl', 'Cald', 'Tre', 'Ous', 'Lod',
+  'Mer', 'Glas', 'Rhen', 'Dov', 'Tyn', 'Ure', 'Kel', 'Esk', 'Wye', 'Nid'
 ];
 
-const suffixes = [
-  'ia', 'or', 'en', 'ar', 'on', 'us', 'um', 'land', 'mark', 'reich',
-  'dom', 'hold', 'stead', 'ton', 'field', 'mere', 'moor', 'crest', 'peak', 'watch'
+const riverEndings = [
+  'a', 'er', 'wy', 'ent', 'ell', 'ay', 'ern', 'ine', 'ash', 'on',
+  'bourne', 'brook', 'water', 'rill'
 ];
 
+// Chance that a territory with a notable feature is named after it
+const FEATURE_NAME_CHANCE = 0.5;
+// Rerolls allowed when a name contains a forbidden cluster
+const MAX_REROLLS = 10;
+
 /**
  * Generate a medieval-sounding territory name
  * @param seed - Seed for reproducible generation
- * @returns A unique territory name
+ * @param context - Culture and terrain of the territory (optional)
+ * @returns A territory name in the culture's language
  */
-export function generateTerritoryName(seed: number): string {
+export function generateTerritoryName(seed: number, context: NameContext = {}): string {
   const rng = new SeededRandom(seed);
+  const phonology = getPhonology(context.culture);
+  const { full, short, compound } = phonology.structureWeights;
+  const totalWeight = full + short + compound;
+
+  let name = '';
+  for (let attempt = 0; attempt <= MAX_REROLLS; attempt++) {
+    // Randomly decide name structure from the language's weights
+    const rand = rng.next() * totalWeight;
+
+    const prefix = phonology.prefixes[Math.floor(rng.next() * phonology.prefixes.length)];
+    const middle = phonology.middles[Math.floor(rng.next() * phonology.middles.length)];
+    let suffix = phonology.suffixes[Math.floor(rng.next() * phonology.suffixes.length)];
+
+    // Named after a river crossing, border march, peak...
+    const feature = featureFor(context);
+    const useFeature = feature !== null && rng.next() < FEATURE_NAME_CHANCE;
+    if (useFeature) {
+      const options = phonology.featureSuffixes[feature];
+      suffix = options[Math.floor(rng.next() * options.length)];
+    }
+
+    if (rand < full) {
+      name = prefix + middle + suffix;
+    } else if (rand < full + short || useFeature) {
+      name = prefix + suffix;
+    } else {
+      name = prefix + middle;
+    }
 
-  // Randomly decide name structure:
-  // 60% chance: prefix + middle + suffix
-  // 30% chance: prefix + suffix
-  // 10% chance: prefix + middle
-  const rand = rng.next();
-
-  const prefix = prefixes[Math.floor(rng.next() * prefixes.length)];
-  const middle = middles[Math.floor(rng.next() * middles.length)];
-  const suffix = suffixes[Math.floor(rng.next() * suffixes.length)];
-
-  if (rand < 0.6) {
-    return prefix + middle + suffix;
-  } else if (rand < 0.9) {
-    return prefix + suffix;
-  } else {
-    return prefix + middle;
+    const lower = name.toLowerCase();
+    if (!phonology.forbiddenClusters.some(cluster => lower.includes(cluster))) {
+      break;
+    }
   }
+
+  return name;
 }
 
 /**
  * Generate a set of unique territory names
  * @param count - Number of names to generate
  * @param baseSeed - Base seed for generation
+ * @param contexts - Per-territory culture and terrain (optional, same order as the names)
  * @returns Array of unique territory names
  */
-export function generateTerritoryNames(count: number, baseSeed: number = Date.now()): string[] {
+export function generateTerritoryNames(
+  count: number,
+  baseSeed: number = Date.now(),
+  contexts: NameContext[] = []
+): string[] {
   const names = new Set<string>();
   let seed = baseSeed;
 
-  while (names.size < count) {
-    const name = generateTerritoryName(seed);
+  for (let i = 0; i < count; i++) {
+    let name = generateTerritoryName(seed, contexts[i]);
+    let attempts = 0;
+    while (names.has(name)) {
+      seed++;
+      attempts++;
+      // Small languages can run out of combinations; number the rare leftovers
+      name = attempts > 200
+        ? `${generateTerritoryName(seed, contexts[i])} ${attempts}`
+        : generateTerritoryName(seed, contexts[i]);
+    }
     names.add(name);
     seed++;
   }
 
   return Array.from(names);
 }
+
+/**
+ * Generate a river name
+ * @param seed - Seed for reproducible generation
+ * @returns A name such as "River Tamwy"
+ */
+export function generateRiverName(seed: number): string {
+  const rng = new SeededRandom(seed);
+
+  const root = riverRoots[Math.floor(rng.next() * riverRoots.length)];
+  const ending = riverEndings[Math.floor(rng.next() * riverEndings.length)];
+
+  return `River ${root}${ending}`;
+}
+
+/**
+ * Generate a set of unique river names
+ * @param count - Number of names to generate
+ * @param baseSeed - Base seed for generation
+ * @returns Array of unique river names
+ */
+export function generateRiverNames(count: number, baseSeed: number = Date.now()): string[] {
+  const names = new Set<string>();
+  let seed = baseSeed;
+
+  // riverRoots × riverEndings bounds the number of distinct names
+  while (names.size < Math.min(count, riverRoots.length * riverEndings.length)) {
+    names.add(generateRiverName(seed));
+    seed++;
+  }
+
+  return Array.from(names);
+}
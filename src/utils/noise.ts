@@ -0,0 +1,82 @@
+import { SeededRandom } from './seededRandom';
+
+/**
+ * Seeded 2D value noise with fractal layering
+ * Produces smoothly varying fields (elevation, moisture) so that neighboring
+ * territories sample similar values and features form coherent regions
+ */
+export class NoiseField {
+  private permutation: number[];
+  private values: number[];
+
+  constructor(seed: number) {
+    const rng = new SeededRandom(seed);
+
+    // Random lattice values
+    this.values = Array.from({ length: 256 }, () => rng.next());
+
+    // Shuffled permutation table for hashing lattice coordinates
+    this.permutation = Array.from({ length: 256 }, (_, i) => i);
+    for (let i = 255; i > 0; i--) {
+      const j = rng.nextInt(0, i);
+      [this.permutation[i], this.permutation[j]] = [this.permutation[j], this.permutation[i]];
+    }
+  }
+
+  /**
+   * Sample a single octave of noise
+   * @returns Value between 0 and 1
+   */
+  sample(x: number, y: number): number {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const tx = smoothstep(x - x0);
+    const ty = smoothstep(y - y0);
+
+    const v00 = this.lattice(x0, y0);
+    const v10 = this.lattice(x0 + 1, y0);
+    const v01 = this.lattice(x0, y0 + 1);
+    const v11 = this.lattice(x0 + 1, y0 + 1);
+
+    const top = v00 + (v10 - v00) * tx;
+    const bottom = v01 + (v11 - v01) * tx;
+    return top + (bottom - top) * ty;
+  }
+
+  /**
+   * Sample fractal noise (several octaves of decreasing amplitude)
+   * Large octaves shape ranges and basins, small ones add local variation
+   * @param octaves - Number of layers
+   * @param persistence - Amplitude multiplier per octave
+   * @param lacunarity - Frequency multiplier per octave
+   * @returns Value between 0 and 1
+   */
+  fractal(x: number, y: number, octaves: number = 4, persistence: number = 0.5, lacunarity: number = 2): number {
+    let total = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let maxAmplitude = 0;
+
+    for (let i = 0; i < octaves; i++) {
+      // Offset each octave so their lattices don't line up
+      total += this.sample(x * frequency + i * 17.31, y * frequency + i * 9.17) * amplitude;
+      maxAmplitude += amplitude;
+      amplitude *= persistence;
+      frequency *= lacunarity;
+    }
+
+    return total / maxAmplitude;
+  }
+
+  private lattice(x: number, y: number): number {
+    const hash = this.permutation[(this.permutation[x & 255] + y) & 255];
+    return this.values[hash];
+  }
+}
+
+/**
+ * Smooth interpolation curve (3t² - 2t³)
+ */
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
@@ -0,0 +1,182 @@
+import { Territory, TerrainType } from '../types/Territory';
+
+/**
+ * Pathfinding over the territory adjacency graph
+ * Shared by road and trade route generation
+ */
+
+/**
+ * Weighted edge from one graph node to another
+ */
+export interface WeightedEdge {
+  to: string;
+  cost: number;
+}
+
+export type WeightedGraph = Map<string, WeightedEdge[]>;
+
+/**
+ * Relative cost of moving through a territory of the given terrain
+ * Water is impassable overland
+ */
+export function terrainMovementCost(terrain: TerrainType): number {
+  switch (terrain) {
+    case TerrainType.FARMLAND:
+      return 0.9;
+    case TerrainType.PLAINS:
+    case TerrainType.COASTAL:
+      return 1;
+    case TerrainType.STEPPE:
+      return 1.2;
+    case TerrainType.FOREST:
+      return 1.6;
+    case TerrainType.HILLS:
+      return 2;
+    case TerrainType.TUNDRA:
+      return 2.2;
+    case TerrainType.DESERT:
+      return 2.8;
+    case TerrainType.MARSH:
+    case TerrainType.JUNGLE:
+      return 3;
+    case TerrainType.MOUNTAINS:
+      return 4;
+    case TerrainType.OCEAN:
+    case TerrainType.SEA:
+    case TerrainType.LAKE:
+      return Infinity;
+    default:
+      return 1.5;
+  }
+}
+
+/**
+ * Build an overland travel graph between neighboring territories
+ * Moving into a territory costs the distance between centers times its terrain cost,
+ * so water (infinite cost) is left out entirely
+ */
+export function buildTerrainGraph(territories: Territory[]): WeightedGraph {
+  const byId = new Map(territories.map(t => [t.id, t]));
+  const graph: WeightedGraph = new Map();
+
+  territories.forEach(territory => {
+    const edges: WeightedEdge[] = [];
+    graph.set(territory.id, edges);
+    if (!isFinite(terrainMovementCost(territory.metadata.terrain))) return;
+
+    (territory.neighbors ?? []).forEach(id => {
+      const neighbor = byId.get(id);
+      if (!neighbor) return;
+      const cost = Math.hypot(neighbor.centerX - territory.centerX, neighbor.centerY - territory.centerY) *
+        terrainMovementCost(neighbor.metadata.terrain);
+      if (isFinite(cost)) edges.push({ to: id, cost });
+    });
+  });
+
+  return graph;
+}
+
+/**
+ * Dijkstra's algorithm from a single source
+ * Graphs here have at most a few hundred nodes, so a linear scan beats a heap
+ * @returns Cost to reach each node and the previous node on its cheapest path
+ */
+export function findShortestPaths(
+  graph: WeightedGraph,
+  source: string
+): { costs: Map<string, number>; previous: Map<string, string> } {
+  const costs = new Map<string, number>([[source, 0]]);
+  const previous = new Map<string, string>();
+  const open = new Set([source]);
+  const closed = new Set<string>();
+
+  while (open.size > 0) {
+    let current = '';
+    let currentCost = Infinity;
+    open.forEach(node => {
+      const cost = costs.get(node)!;
+      if (cost < currentCost) {
+        currentCost = cost;
+        current = node;
+      }
+    });
+
+    open.delete(current);
+    closed.add(current);
+
+    (graph.get(current) ?? []).forEach(edge => {
+      if (closed.has(edge.to) || !isFinite(edge.cost)) return;
+      const cost = currentCost + edge.cost;
+      if (cost < (costs.get(edge.to) ?? Infinity)) {
+        costs.set(edge.to, cost);
+        previous.set(edge.to, current);
+        open.add(edge.to);
+      }
+    });
+  }
+
+  return { costs, previous };
+}
+
+/**
+ * Rebuild the node sequence from source to target
+ * @returns Path including both ends, or an empty array if the target is unreachable
+ */
+export function reconstructPath(previous: Map<string, string>, source: string, target: string): string[] {
+  if (source === target) return [source];
+  if (!previous.has(target)) return [];
+
+  const path = [target];
+  let current = target;
+  while (current !== source) {
+    current = previous.get(current)!;
+    path.unshift(current);
+  }
+  return path;
+}
+
+/**
+ * Multi-source Dijkstra: assign every reachable node to its cheapest source
+ * Regions are contiguous because each node inherits its source from its predecessor
+ * @param sources - Region seeds
+ * @param costScale - Per-source multiplier on travel costs (lower reaches further)
+ * @returns Owning source and cost for each reachable node
+ */
+export function growRegions(
+  graph: WeightedGraph,
+  sources: string[],
+  costScale: (source: string) => number = () => 1
+): Map<string, { source: string; cost: number }> {
+  const owners = new Map<string, { source: string; cost: number }>();
+  sources.forEach(source => owners.set(source, { source, cost: 0 }));
+  const open = new Set(sources);
+  const closed = new Set<string>();
+
+  while (open.size > 0) {
+    let current = '';
+    let currentCost = Infinity;
+    open.forEach(node => {
+      const cost = owners.get(node)!.cost;
+      if (cost < currentCost) {
+        currentCost = cost;
+        current = node;
+      }
+    });
+
+    open.delete(current);
+    closed.add(current);
+    const { source } = owners.get(current)!;
+    const scale = costScale(source);
+
+    (graph.get(current) ?? []).forEach(edge => {
+      if (closed.has(edge.to) || !isFinite(edge.cost)) return;
+      const cost = currentCost + edge.cost * scale;
+      if (cost < (owners.get(edge.to)?.cost ?? Infinity)) {
+        owners.set(edge.to, { source, cost });
+        open.add(edge.to);
+      }
+    });
+  }
+
+  return owners;
+}
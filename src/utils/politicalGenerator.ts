@@ -0,0 +1,266 @@
+import { Territory, TerrainType } from '../types/Territory';
+import { Realm, RealmType, HeraldicColors } from '../types/Realm';
+import { SeededRandom } from './seededRandom';
+import { isWaterTerrain } from './metadataGenerator';
+import { buildTerrainGraph, growRegions, WeightedGraph } from './pathfinding';
+
+/**
+ * Political map generation
+ *
+ * 1. Wealthy coastal or riverine territories become free cities
+ * 2. Well-developed, well-spaced territories become capitals
+ * 3. Realms grow from their capitals over land (contiguous by construction)
+ * 4. Small realms next to a much larger kingdom may become its vassals
+ * 5. Heraldic colors are chosen so that neighboring realms differ
+ */
+
+// One free city per this many land territories
+const TERRITORIES_PER_FREE_CITY = 15;
+// One realm capital per this many land territories
+const TERRITORIES_PER_REALM = 5;
+// Realms at least this large are kingdoms
+export const KINGDOM_SIZE = 5;
+// Chance that a duchy next to a much larger kingdom swears fealty to it
+const VASSAL_CHANCE = 0.7;
+
+/**
+ * Heraldic colors (fields) and metals (charges)
+ */
+const TINCTURES = [
+  '#b22222', // Gules
+  '#1f4e9c', // Azure
+  '#2e7d32', // Vert
+  '#6a1b9a', // Purpure
+  '#37474f', // Sable
+  '#cc6600', // Tenné
+  '#8c004b', // Murrey
+  '#00838f'  // Bleu celeste
+];
+const METALS = ['#d4af37', '#e0e0e0'];
+
+/**
+ * Ruler titles per culture; cultures not listed use the default
+ */
+const RULER_TITLES: Record<string, Partial<Record<RealmType, string>>> = {
+  default: { kingdom: 'King', duchy: 'Duke', 'free-city': 'Burgomaster' },
+  Norse: { duchy: 'Jarl', 'free-city': 'Lawspeaker' },
+  Celtic: { kingdom: 'High King', duchy: 'Chieftain' },
+  Byzantine: { kingdom: 'Basileus', duchy: 'Despot', 'free-city': 'Eparch' },
+  Slavic: { kingdom: 'Tsar', duchy: 'Knyaz', 'free-city': 'Posadnik' },
+  Moorish: { kingdom: 'Sultan', duchy: 'Emir', 'free-city': 'Qadi' },
+  Venetian: { 'free-city': 'Doge' },
+  Iberian: { duchy: 'Count' }
+};
+
+const REALM_LABELS: Record<RealmType, string> = {
+  kingdom: 'Kingdom',
+  duchy: 'Duchy',
+  'free-city': 'Free City'
+};
+
+/**
+ * Title of a realm's ruler in the capital's culture
+ */
+export function getRulerTitle(type: RealmType, culture: string): string {
+  return RULER_TITLES[culture]?.[type] ?? RULER_TITLES.default[type]!;
+}
+
+/**
+ * Realm name from its type and capital (e.g. "Duchy of Ashford")
+ */
+export function nameRealm(type: RealmType, capital: Territory): string {
+  return `${REALM_LABELS[type]} of ${capital.name}`;
+}
+
+/**
+ * Pick a field color not in use by any neighbor, plus a metal
+ * @param taken - Primary colors of neighboring realms
+ */
+export function chooseHeraldry(rng: SeededRandom, taken: Set<string>): HeraldicColors {
+  const offset = rng.nextInt(0, TINCTURES.length - 1);
+  const free = TINCTURES
+    .map((_, k) => TINCTURES[(k + offset) % TINCTURES.length])
+    .find(color => !taken.has(color));
+  return {
+    primary: free ?? TINCTURES[offset],
+    secondary: METALS[rng.nextInt(0, METALS.length - 1)]
+  };
+}
+
+/**
+ * Map each territory id to the realm that holds it
+ */
+export function buildRealmLookup(realms: Realm[]): Map<string, Realm> {
+  const lookup = new Map<string, Realm>();
+  realms.forEach(realm => realm.territoryIds.forEach(id => lookup.set(id, realm)));
+  return lookup;
+}
+
+/**
+ * Top of a realm's liege chain
+ */
+export function getTopLiege(realm: Realm, realms: Realm[]): Realm {
+  let current = realm;
+  const seen = new Set<string>();
+  while (current.liegeId && !seen.has(current.id)) {
+    seen.add(current.id);
+    const liege = realms.find(r => r.id === current.liegeId);
+    if (!liege) break;
+    current = liege;
+  }
+  return current;
+}
+
+/**
+ * Realms sharing a border with each realm
+ */
+function findRealmNeighbors(realms: Realm[], territories: Territory[]): Map<string, Set<string>> {
+  const lookup = buildRealmLookup(realms);
+  const neighbors = new Map(realms.map(r => [r.id, new Set<string>()]));
+
+  territories.forEach(territory => {
+    const realm = lookup.get(territory.id);
+    if (!realm) return;
+    territory.neighbors?.forEach(id => {
+      const other = lookup.get(id);
+      if (other && other.id !== realm.id) {
+        neighbors.get(realm.id)!.add(other.id);
+      }
+    });
+  });
+
+  return neighbors;
+}
+
+/**
+ * Pick free cities: the most developed coastal or riverine territories, never adjacent
+ */
+function pickFreeCities(land: Territory[], graph: WeightedGraph): Territory[] {
+  const count = Math.floor(land.length / TERRITORIES_PER_FREE_CITY);
+  const freeCities: Territory[] = [];
+
+  [...land]
+    .filter(t => t.metadata.terrain === TerrainType.COASTAL || t.metadata.riverine)
+    .sort((a, b) => b.metadata.development - a.metadata.development)
+    .forEach(t => {
+      if (freeCities.length >= count) return;
+      const touchesCity = freeCities.some(city => graph.get(city.id)!.some(e => e.to === t.id));
+      if (!touchesCity) freeCities.push(t);
+    });
+
+  return freeCities;
+}
+
+/**
+ * Generate realms for a map
+ * @param territories - Territories with neighbors (water is skipped)
+ * @param seed - Seed for capital choice, realm strength, vassalage and heraldry
+ * @returns Realms covering every land territory
+ */
+export function generateRealms(territories: Territory[], seed: number): Realm[] {
+  const rng = new SeededRandom(seed);
+  const land = territories.filter(t => !isWaterTerrain(t.metadata.terrain));
+  if (land.length === 0) return [];
+
+  const byId = new Map(land.map(t => [t.id, t]));
+  const graph = buildTerrainGraph(land);
+
+  const freeCities = pickFreeCities(land, graph);
+  const freeCityIds = new Set(freeCities.map(t => t.id));
+
+  // Free cities stand apart: realms grow around them, never through them
+  const growthGraph: WeightedGraph = new Map();
+  graph.forEach((edges, id) => {
+    if (!freeCityIds.has(id)) {
+      growthGraph.set(id, edges.filter(e => !freeCityIds.has(e.to)));
+    }
+  });
+
+  // Capitals: developed territories, spaced roughly one realm-width apart
+  const candidates = land.filter(t => !freeCityIds.has(t.id));
+  const capitalCount = Math.max(1, Math.round(candidates.length / TERRITORIES_PER_REALM));
+  const landArea = candidates.reduce((sum, t) => sum + (t.area ?? 0), 0);
+  const minSpacing = Math.sqrt(landArea / capitalCount) * 0.6;
+
+  const capitals: Territory[] = [];
+  candidates
+    .map(t => ({ t, score: t.metadata.development + rng.next() * 30 }))
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ t }) => {
+      if (capitals.length >= capitalCount) return;
+      const tooClose = capitals.some(c => Math.hypot(c.centerX - t.centerX, c.centerY - t.centerY) < minSpacing);
+      if (!tooClose) capitals.push(t);
+    });
+
+  // Stronger realms (lower scale) expand further
+  const strength = new Map(capitals.map(c => [c.id, 0.7 + rng.next() * 0.6]));
+  const owners = growRegions(growthGraph, capitals.map(c => c.id), id => strength.get(id)!);
+
+  // Land no capital could reach (islands): each cut-off region forms its own realm
+  candidates.forEach(start => {
+    if (owners.has(start.id)) return;
+    const component = [start.id];
+    const seen = new Set(component);
+    for (let k = 0; k < component.length; k++) {
+      growthGraph.get(component[k])!.forEach(e => {
+        if (!seen.has(e.to) && !owners.has(e.to)) {
+          seen.add(e.to);
+          component.push(e.to);
+        }
+      });
+    }
+    const capital = component
+      .map(id => byId.get(id)!)
+      .reduce((a, b) => (b.metadata.development > a.metadata.development ? b : a));
+    capitals.push(capital);
+    component.forEach(id => owners.set(id, { source: capital.id, cost: 0 }));
+  });
+
+  // Assemble realms
+  const realms: Realm[] = [];
+  const addRealm = (capital: Territory, territoryIds: string[], type: RealmType) => {
+    realms.push({
+      id: `realm-${realms.length}`,
+      name: nameRealm(type, capital),
+      type,
+      capitalId: capital.id,
+      rulerTitle: getRulerTitle(type, capital.metadata.culture),
+      territoryIds,
+      colors: { primary: '', secondary: '' }
+    });
+  };
+
+  capitals.forEach(capital => {
+    const territoryIds = candidates.filter(t => owners.get(t.id)?.source === capital.id).map(t => t.id);
+    addRealm(capital, territoryIds, territoryIds.length >= KINGDOM_SIZE ? 'kingdom' : 'duchy');
+  });
+  freeCities.forEach(city => addRealm(city, [city.id], 'free-city'));
+
+  const realmNeighbors = findRealmNeighbors(realms, land);
+  const population = (realm: Realm) =>
+    realm.territoryIds.reduce((sum, id) => sum + byId.get(id)!.metadata.population, 0);
+
+  // Vassals: duchies bordering a kingdom at least twice their size in people
+  realms
+    .filter(r => r.type === 'duchy')
+    .forEach(duchy => {
+      const liege = realms
+        .filter(r => r.type === 'kingdom' && realmNeighbors.get(duchy.id)!.has(r.id))
+        .sort((a, b) => population(b) - population(a))[0];
+      if (liege && population(liege) >= population(duchy) * 2 && rng.next() < VASSAL_CHANCE) {
+        duchy.liegeId = liege.id;
+      }
+    });
+
+  // Heraldry: largest realms choose first, avoiding their neighbors' fields
+  [...realms]
+    .sort((a, b) => b.territoryIds.length - a.territoryIds.length)
+    .forEach(realm => {
+      const taken = new Set(
+        Array.from(realmNeighbors.get(realm.id)!).map(id => realms.find(r => r.id === id)!.colors.primary)
+      );
+      realm.colors = chooseHeraldry(rng, taken);
+    });
+
+  return realms;
+}
@@ -0,0 +1,233 @@
+import { River } from '../types/River';
+import { SeededRandom } from './seededRandom';
+import { generateRiverNames } from './nameGenerator';
+
+/**
+ * River generation along terrain gradients
+ *
+ * Rivers flow along Voronoi edges (the borders between territories):
+ * 1. Build a graph of cell vertices, each with the mean elevation of its cells
+ * 2. Pick high, dry vertices as sources
+ * 3. Walk downhill until the river reaches water, the map edge or another river
+ */
+
+/**
+ * The parts of a generated cell that river tracing needs
+ */
+export interface RiverCell {
+  id: string;
+  polygon: [number, number][];
+  elevation: number;
+  isWater: boolean;
+}
+
+interface RiverVertex {
+  x: number;
+  y: number;
+  elevation: number;
+  cells: number[];
+  neighbors: Set<string>;
+  wet: boolean;
+  onEdge: boolean;
+}
+
+// Sources must be at least this high
+const SOURCE_ELEVATION = 0.55;
+// Steps a river may climb to escape a local basin before it is abandoned
+const MAX_UPHILL_STEPS = 2;
+
+/**
+ * Key for a vertex shared by neighboring cells
+ * Shared vertices come from the same circumcenter, so rounding only absorbs clipping noise
+ */
+function vertexKey(point: [number, number]): string {
+  return `${point[0].toFixed(2)},${point[1].toFixed(2)}`;
+}
+
+/**
+ * Build the vertex graph for all cell polygons
+ */
+function buildVertexGraph(cells: RiverCell[], width: number, height: number): Map<string, RiverVertex> {
+  const vertices = new Map<string, RiverVertex>();
+  const tolerance = Math.max(width, height) * 1e-6;
+  // Cells using each edge; an edge with one cell lies on the outline of a shaped map
+  const edgeUses = new Map<string, number>();
+
+  cells.forEach((cell, cellIndex) => {
+    const keys = cell.polygon.map(vertexKey);
+
+    cell.polygon.forEach((point, k) => {
+      let vertex = vertices.get(keys[k]);
+      if (!vertex) {
+        vertex = {
+          x: point[0],
+          y: point[1],
+          elevation: 0,
+          cells: [],
+          neighbors: new Set(),
+          wet: false,
+          onEdge: point[0] <= tolerance || point[1] <= tolerance ||
+            point[0] >= width - tolerance || point[1] >= height - tolerance
+        };
+        vertices.set(keys[k], vertex);
+      }
+      vertex.cells.push(cellIndex);
+
+      const next = keys[(k + 1) % keys.length];
+      const previous = keys[(k - 1 + keys.length) % keys.length];
+      if (next !== keys[k]) {
+        vertex.neighbors.add(next);
+        const edge = keys[k] < next ? `${keys[k]}|${next}` : `${next}|${keys[k]}`;
+        edgeUses.set(edge, (edgeUses.get(edge) ?? 0) + 1);
+      }
+      if (previous !== keys[k]) vertex.neighbors.add(previous);
+    });
+  });
+
+  edgeUses.forEach((uses, edge) => {
+    if (uses === 1) edge.split('|').forEach(key => { vertices.get(key)!.onEdge = true; });
+  });
+
+  vertices.forEach(vertex => {
+    vertex.elevation = vertex.cells.reduce((sum, i) => sum + cells[i].elevation, 0) / vertex.cells.length;
+    vertex.wet = vertex.cells.some(i => cells[i].isWater);
+  });
+
+  return vertices;
+}
+
+/**
+ * Walk downhill from a source vertex
+ * @returns Vertex keys from source to mouth, or null if the river dead-ends in a basin
+ */
+function traceRiver(
+  source: string,
+  vertices: Map<string, RiverVertex>,
+  riverVertices: Set<string>
+): { path: string[]; mouth: River['mouth'] } | null {
+  const path = [source];
+  const visited = new Set(path);
+  let uphillSteps = 0;
+
+  while (path.length < 500) {
+    const current = vertices.get(path[path.length - 1])!;
+
+    // Lowest unvisited neighbor
+    let nextKey: string | null = null;
+    let nextElevation = Infinity;
+    current.neighbors.forEach(key => {
+      const elevation = vertices.get(key)!.elevation;
+      if (!visited.has(key) && elevation < nextElevation) {
+        nextElevation = elevation;
+        nextKey = key;
+      }
+    });
+
+    if (nextKey === null) return null;
+
+    if (nextElevation >= current.elevation) {
+      uphillSteps++;
+      if (uphillSteps > MAX_UPHILL_STEPS) return null;
+    }
+
+    path.push(nextKey);
+    visited.add(nextKey);
+
+    const next = vertices.get(nextKey)!;
+    if (next.wet) return { path, mouth: 'water' };
+    if (riverVertices.has(nextKey)) return { path, mouth: 'river' };
+    if (next.onEdge) return { path, mouth: 'edge' };
+  }
+
+  return null;
+}
+
+/**
+ * Generate rivers for a set of cells
+ * @param cells - Cell polygons with elevation and water flags
+ * @param seed - Seed for source selection and names
+ * @returns Rivers, each bordering the cells along its path
+ */
+export function generateRivers(
+  cells: RiverCell[],
+  width: number,
+  height: number,
+  seed: number
+): River[] {
+  const rng = new SeededRandom(seed);
+  const vertices = buildVertexGraph(cells, width, height);
+
+  // One river per ~8 land cells
+  const landCount = cells.filter(c => !c.isWater).length;
+  const targetCount = Math.max(1, Math.round(landCount / 8));
+
+  // Candidate sources: high, dry, inland vertices; highest first with a little jitter
+  const candidates = Array.from(vertices.entries())
+    .filter(([, v]) => !v.wet && !v.onEdge && v.elevation >= SOURCE_ELEVATION)
+    .map(([key, v]) => ({ key, score: v.elevation + rng.next() * 0.15 }))
+    .sort((a, b) => b.score - a.score);
+
+  const paths: { path: string[]; mouth: River['mouth'] }[] = [];
+  const riverVertices = new Set<string>();
+  const usedCells = new Set<number>();
+
+  for (const candidate of candidates) {
+    if (paths.length >= targetCount) break;
+
+    // Keep sources apart: no two rivers rise in the same cell
+    const sourceCells = vertices.get(candidate.key)!.cells;
+    if (riverVertices.has(candidate.key) || sourceCells.some(i => usedCells.has(i))) continue;
+
+    const traced = traceRiver(candidate.key, vertices, riverVertices);
+    if (!traced || traced.path.length < 3) continue;
+
+    paths.push(traced);
+    traced.path.forEach(key => riverVertices.add(key));
+    sourceCells.forEach(i => usedCells.add(i));
+  }
+
+  // Downstream flow: each vertex counts how many rivers pass through it
+  const flow = new Map<string, number>();
+  const addFlow = (key: string, amount: number) => flow.set(key, (flow.get(key) ?? 0) + amount);
+  paths.forEach(({ path }) => path.forEach((key, k) => addFlow(key, k + 1)));
+
+  // Tributaries swell the river they join, from the confluence down to its mouth
+  paths.forEach(({ path, mouth }) => {
+    if (mouth !== 'river') return;
+    const confluence = path[path.length - 1];
+    const joined = paths.find(p => p.path !== path && p.path.includes(confluence));
+    if (!joined) return;
+    joined.path.slice(joined.path.indexOf(confluence) + 1).forEach(key => addFlow(key, path.length));
+  });
+
+  const names = generateRiverNames(paths.length, seed);
+
+  return paths.map(({ path, mouth }, riverIndex) => {
+    const points = path.map(key => {
+      const v = vertices.get(key)!;
+      return [v.x, v.y] as [number, number];
+    });
+    const widths = path.map(key => Math.min(1 + Math.sqrt(flow.get(key)!) * 0.6, 7));
+
+    // Cells on both sides of each edge the river follows
+    const territoryIds: string[] = [];
+    for (let k = 0; k < path.length - 1; k++) {
+      const from = vertices.get(path[k])!;
+      const to = vertices.get(path[k + 1])!;
+      from.cells
+        .filter(i => to.cells.includes(i) && !cells[i].isWater)
+        .forEach(i => {
+          if (!territoryIds.includes(cells[i].id)) territoryIds.push(cells[i].id);
+        });
+    }
+
+    return {
+      id: `river-${riverIndex}`,
+      name: names[riverIndex] ?? `River ${riverIndex + 1}`,
+      points,
+      widths,
+      territoryIds,
+      mouth
+    };
+  });
+}
@@ -0,0 +1,189 @@
+import { Territory } from '../types/Territory';
+import { RoadNetwork, RoadSegment, RoadQuality } from '../types/Road';
+import { isWaterTerrain } from './metadataGenerator';
+import { terrainMovementCost, findShortestPaths, reconstructPath, WeightedGraph } from './pathfinding';
+
+/**
+ * Road network generation between territory centers
+ *
+ * 1. Every pair of neighboring land territories is a candidate road, costed by
+ *    length, terrain (mountains and desert expensive, plains cheap) and development
+ * 2. Major roads: cheapest paths joining the most developed territories (hubs)
+ * 3. Minor roads: a minimum spanning tree that reaches every remaining territory
+ */
+
+interface CandidateRoad {
+  from: string;
+  to: string;
+  points: [number, number][];
+  length: number;
+  cost: number;
+}
+
+// Share of land territories that act as hubs for major roads
+const HUB_SHARE = 0.25;
+
+function edgeKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Minimal union-find for spanning tree construction
+ */
+function createUnionFind(ids: string[]) {
+  const parent = new Map(ids.map(id => [id, id]));
+  const find = (id: string): string => {
+    const p = parent.get(id)!;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+  const union = (a: string, b: string): boolean => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return false;
+    parent.set(rootA, rootB);
+    return true;
+  };
+  return { union };
+}
+
+/**
+ * Where travel between two neighbors crosses their border:
+ * the middle of the longest shared segment
+ * @returns Crossing point, or null if the territories share no border
+ */
+export function findBorderCrossing(territory: Territory, neighborId: string): [number, number] | null {
+  const border = territory.borders?.find(b => b.neighborId === neighborId);
+  if (!border || border.segments.length === 0) return null;
+  const crossing = border.segments.reduce((a, b) => (b.length > a.length ? b : a));
+  return [
+    (crossing.start[0] + crossing.end[0]) / 2,
+    (crossing.start[1] + crossing.end[1]) / 2
+  ];
+}
+
+/**
+ * Build candidate roads between neighboring land territories
+ */
+function buildCandidates(land: Map<string, Territory>): CandidateRoad[] {
+  const candidates: CandidateRoad[] = [];
+
+  land.forEach(territory => {
+    territory.borders?.forEach(border => {
+      const neighbor = land.get(border.neighborId);
+      if (!neighbor || territory.id > neighbor.id) return;
+
+      const mid = findBorderCrossing(territory, neighbor.id);
+      if (!mid) return;
+
+      const length =
+        Math.hypot(mid[0] - territory.centerX, mid[1] - territory.centerY) +
+        Math.hypot(neighbor.centerX - mid[0], neighbor.centerY - mid[1]);
+
+      const terrainCost = (
+        terrainMovementCost(territory.metadata.terrain) +
+        terrainMovementCost(neighbor.metadata.terrain)
+      ) / 2;
+
+      // Developed land already has tracks to build on: up to half price
+      const developmentDiscount = 1 - (territory.metadata.development + neighbor.metadata.development) / 400;
+
+      candidates.push({
+        from: territory.id,
+        to: neighbor.id,
+        points: [[territory.centerX, territory.centerY], mid, [neighbor.centerX, neighbor.centerY]],
+        length,
+        cost: length * terrainCost * developmentDiscount
+      });
+    });
+  });
+
+  return candidates;
+}
+
+/**
+ * Generate the road network for a map
+ * @param territories - Territories with borders (water is skipped)
+ * @returns Road segments tagged major or minor
+ */
+export function generateRoads(territories: Territory[]): RoadNetwork {
+  const land = new Map(
+    territories
+      .filter(t => !isWaterTerrain(t.metadata.terrain))
+      .map(t => [t.id, t])
+  );
+
+  const candidates = buildCandidates(land);
+  const candidateByKey = new Map(candidates.map(c => [edgeKey(c.from, c.to), c]));
+
+  const graph: WeightedGraph = new Map();
+  land.forEach((_, id) => graph.set(id, []));
+  candidates.forEach(c => {
+    graph.get(c.from)!.push({ to: c.to, cost: c.cost });
+    graph.get(c.to)!.push({ to: c.from, cost: c.cost });
+  });
+
+  const qualities = new Map<string, RoadQuality>();
+
+  // Major roads: spanning tree over hubs, using cheapest overland paths between them
+  const hubs = Array.from(land.values())
+    .sort((a, b) => b.metadata.development - a.metadata.development)
+    .slice(0, Math.max(2, Math.ceil(land.size * HUB_SHARE)))
+    .map(t => t.id);
+
+  const hubPaths = hubs.map(hub => findShortestPaths(graph, hub));
+  const hubLinks: { a: number; b: number; cost: number }[] = [];
+  hubs.forEach((_, a) => {
+    for (let b = a + 1; b < hubs.length; b++) {
+      const cost = hubPaths[a].costs.get(hubs[b]);
+      if (cost !== undefined) hubLinks.push({ a, b, cost });
+    }
+  });
+  hubLinks.sort((x, y) => x.cost - y.cost);
+
+  const hubForest = createUnionFind(hubs);
+  hubLinks.forEach(({ a, b }) => {
+    if (!hubForest.union(hubs[a], hubs[b])) return;
+    const path = reconstructPath(hubPaths[a].previous, hubs[a], hubs[b]);
+    for (let k = 0; k < path.length - 1; k++) {
+      qualities.set(edgeKey(path[k], path[k + 1]), 'major');
+    }
+  });
+
+  // Minor roads: spanning tree over everything, seeded with the major roads
+  const forest = createUnionFind(Array.from(land.keys()));
+  qualities.forEach((_, key) => {
+    const [a, b] = key.split('|');
+    forest.union(a, b);
+  });
+  [...candidates]
+    .sort((x, y) => x.cost - y.cost)
+    .forEach(c => {
+      if (forest.union(c.from, c.to)) {
+        qualities.set(edgeKey(c.from, c.to), 'minor');
+      }
+    });
+
+  const segments: RoadSegment[] = [];
+  qualities.forEach((quality, key) => {
+    const candidate = candidateByKey.get(key)!;
+    segments.push({
+      id: `road-${segments.length}`,
+      from: candidate.from,
+      to: candidate.to,
+      quality,
+      points: candidate.points,
+      length: candidate.length,
+      cost: candidate.cost
+    });
+  });
+
+  const nodes = new Set(segments.flatMap(s => [s.from, s.to]));
+
+  return {
+    nodes: Array.from(land.keys()).filter(id => nodes.has(id)),
+    segments
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { Territory } from '../types/Territory';
+import { generateWorld, GENERATOR_VERSION } from './mapGenerator';
+import { mapFromRecipe } from './mapRecipe';
+import { reconcileSubdivisions } from './subdivisionGenerator';
+
+const config = { width: 600, height: 400, territoryCount: 10, seed: 11, subdivisions: { provinces: 3, counties: 2 } };
+const map = generateWorld(config);
+const { provinces, counties } = map.subdivisions!;
+const target = map.territories.find(t => provinces.some(p => p.parentId === t.id))!;
+
+/**
+ * Check that every parent adds up from its children
+ */
+function expectConsistent(parents: Territory[], children: Territory[]): void {
+  parents.forEach(parent => {
+    const own = children.filter(c => c.parentId === parent.id);
+    if (own.length === 0) return;
+    expect(own.reduce((sum, c) => sum + c.metadata.population, 0)).toBe(parent.metadata.population);
+    const area = own.reduce((sum, c) => sum + c.area!, 0);
+    expect(Math.round(own.reduce((sum, c) => sum + c.metadata.development * c.area!, 0) / area))
+      .toBe(parent.metadata.development);
+  });
+}
+
+describe('reconcileSubdivisions', () => {
+  it('leaves a consistent map alone', () => {
+    const result = reconcileSubdivisions(map.territories, map.subdivisions!);
+    expect(result.territories).toBe(map.territories);
+    expect(result.subdivisions).toBe(map.subdivisions);
+  });
+
+  it('spreads an edited territory down to its provinces and counties', () => {
+    const development = target.metadata.development > 50 ? 30 : 70;
+    const edited = map.territories.map(t => (t.id === target.id
+      ? { ...t, metadata: { ...t.metadata, population: 123457, development } }
+      : t));
+    const result = reconcileSubdivisions(edited, map.subdivisions!);
+
+    const territory = result.territories.find(t => t.id === target.id)!;
+    expect(territory.metadata.population).toBe(123457);
+    expect(territory.metadata.development).toBe(development);
+    expectConsistent(result.territories, result.subdivisions.provinces);
+    expectConsistent(result.subdivisions.provinces, result.subdivisions.counties);
+
+    // Other territories keep their pieces
+    result.subdivisions.counties
+      .filter(c => !c.parentId!.startsWith(`${target.id}-`))
+      .forEach(c => expect(c).toBe(counties.find(original => original.id === c.id)));
+  });
+
+  it('is applied to edits from a map link', () => {
+    const rebuilt = mapFromRecipe({
+      generatorVersion: GENERATOR_VERSION,
+      config,
+      edits: [{ id: target.id, changes: { 'metadata.population': 5000 } }]
+    });
+
+    expect(rebuilt.territories.find(t => t.id === target.id)!.metadata.population).toBe(5000);
+    expectConsistent(rebuilt.territories, rebuilt.subdivisions!.provinces);
+    expectConsistent(rebuilt.subdivisions!.provinces, rebuilt.subdivisions!.counties);
+  });
+});
@@ -0,0 +1,377 @@
+import { SubdivisionConfig, Territory, TerritoryHierarchy } from '../types/Territory';
+import { findSharedBorders, insertVerticesOnEdges, Point, scatterSites, snapVertices, voronoiWithin } from './geometry';
+import { calculateArea, isWaterTerrain } from './metadataGenerator';
+import { generateTerrainColor } from './colorGenerator';
+import { generateTerritoryName } from './nameGenerator';
+import { SeededRandom } from './seededRandom';
+
+/**
+ * Administrative subdivisions: provinces inside territories, counties inside provinces
+ *
+ * Architecture:
+ * 1. Each land territory is cut into provinces with a local Voronoi diagram clipped
+ *    to its polygon (as when splitting a territory), and each province into counties
+ * 2. Corners cut into a shared border are inserted into the pieces on the other
+ *    side, so borders and neighbors on each level can be found by matching edges
+ * 3. Counties share out their territory's population by area, with some variation;
+ *    development and resources vary around the territory's values
+ * 4. Provinces and territories are recomputed from their children: population is
+ *    summed, development and resources are averaged by area
+ * 5. When a territory's metadata is edited, the change is spread down to its
+ *    provinces and counties (reconcileSubdivisions), so the levels keep adding up
+ *
+ * Ids follow the nesting: territory-3-p0 is a province of territory-3, and
+ * territory-3-p0-c1 a county of that province. Water is not subdivided.
+ */
+
+// Most provinces per territory, and counties per province
+export const MAX_SUBDIVISIONS = 8;
+
+// Lloyd iterations used to even out the pieces
+const RELAXATION = 2;
+
+// Smallest area (square map units) a piece may have
+const MIN_AREA = 1;
+
+// How far a piece's population share and development may stray from an even split
+const VARIATION = 0.3;
+
+/**
+ * Seed offset from an id, so a territory is cut the same way whenever it is regenerated
+ */
+function idSeed(id: string): number {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) % 1000003;
+  return hash;
+}
+
+/**
+ * Pieces grouped by their parent's id
+ */
+function groupByParent(pieces: Territory[]): Map<string, Territory[]> {
+  const groups = new Map<string, Territory[]>();
+  pieces.forEach(piece => {
+    const group = groups.get(piece.parentId ?? '');
+    if (group) {
+      group.push(piece);
+    } else {
+      groups.set(piece.parentId ?? '', [piece]);
+    }
+  });
+  return groups;
+}
+
+/**
+ * Cut a polygon into up to count Voronoi pieces
+ * Falls back to fewer pieces (down to the whole polygon) when it is too small.
+ */
+function cutPolygon(polygon: Point[], center: Point, count: number, rng: SeededRandom, tolerance: number) {
+  for (let parts = count; parts >= 2; parts--) {
+    const sites = scatterSites(polygon, parts, rng, RELAXATION);
+    if (!sites) continue;
+    const shapes = snapVertices(voronoiWithin(polygon, sites), tolerance, polygon);
+    if (shapes.every(shape => shape.length >= 3 && calculateArea(shape) >= MIN_AREA)) return { sites, shapes };
+  }
+  return { sites: [center], shapes: [polygon] };
+}
+
+/**
+ * Weighted values rounded to whole numbers that still add up to the total
+ * (largest remainder method)
+ */
+function apportion(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  const exact = weights.map(w => (sum > 0 ? total * w / sum : total / weights.length));
+  const result = exact.map(Math.floor);
+  let left = total - result.reduce((a, b) => a + b, 0);
+  exact
+    .map((value, i) => ({ i, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.i - b.i)
+    .forEach(({ i }) => {
+      if (left > 0) {
+        result[i]++;
+        left--;
+      }
+    });
+  return result;
+}
+
+/**
+ * A parent's metadata recomputed from its children
+ * Population is summed; development and resources are averaged by area.
+ */
+function aggregate(parent: Territory, children: Territory[]): Territory {
+  const areas = children.map(c => c.area ?? calculateArea(c.borderPoints));
+  const totalArea = areas.reduce((a, b) => a + b, 0);
+  const average = (value: (t: Territory) => number) =>
+    Math.round(children.reduce((sum, c, i) => sum + value(c) * areas[i], 0) / totalArea);
+
+  return {
+    ...parent,
+    metadata: {
+      ...parent.metadata,
+      population: children.reduce((sum, c) => sum + c.metadata.population, 0),
+      development: average(c => c.metadata.development),
+      resources: {
+        food: average(c => c.metadata.resources.food),
+        gold: average(c => c.metadata.resources.gold),
+        military: average(c => c.metadata.resources.military)
+      }
+    }
+  };
+}
+
+/**
+ * Whether two territories have the same population, development and resources
+ */
+function sameTotals(a: Territory, b: Territory): boolean {
+  const x = a.metadata;
+  const y = b.metadata;
+  return x.population === y.population && x.development === y.development &&
+    x.resources.food === y.resources.food && x.resources.gold === y.resources.gold &&
+    x.resources.military === y.resources.military;
+}
+
+/**
+ * Children moved to fit their parent's (edited) metadata
+ * Population is shared out in proportion to what the children had; development
+ * and resources move by as much as the parent's average changed, within 0-100.
+ */
+function spread(parent: Territory, children: Territory[]): Territory[] {
+  const current = aggregate(parent, children).metadata;
+  const { development, resources } = parent.metadata;
+  const shift = (value: number, from: number, to: number) => Math.min(100, Math.max(0, value + to - from));
+  const populations = apportion(parent.metadata.population, children.map(c => c.metadata.population));
+
+  return children.map((child, i) => ({
+    ...child,
+    metadata: {
+      ...child.metadata,
+      population: populations[i],
+      development: shift(child.metadata.development, current.development, development),
+      resources: {
+        food: shift(child.metadata.resources.food, current.resources.food, resources.food),
+        gold: shift(child.metadata.resources.gold, current.resources.gold, resources.gold),
+        military: shift(child.metadata.resources.military, current.resources.military, resources.military)
+      }
+    }
+  }));
+}
+
+/**
+ * Join up the pieces of neighboring parents, then find borders
+ * Cut points that nearly coincide across a parent border are merged, and the
+ * remaining ones are inserted into the pieces on the other side.
+ * @param groups - Pieces by parent id
+ * @param parents - The level above, with neighbors
+ */
+function connectPieces(groups: Map<string, Territory[]>, parents: Territory[], tolerance: number): Territory[] {
+  const parentById = new Map(parents.map(t => [t.id, t]));
+  const ids = Array.from(groups.keys());
+  const snapped = snapVertices(
+    ids.flatMap(id => groups.get(id)!.map(piece => piece.borderPoints)),
+    tolerance,
+    parents.flatMap(t => t.borderPoints)
+  );
+  let next = 0;
+  const joined = new Map(ids.map(id => [id, groups.get(id)!.map(piece => ({ ...piece, borderPoints: snapped[next++] }))]));
+
+  const repaired: Territory[] = [];
+  joined.forEach((pieces, parentId) => {
+    const nearby = [parentId, ...(parentById.get(parentId)?.neighbors ?? [])]
+      .flatMap(id => joined.get(id) ?? [])
+      .flatMap(piece => piece.borderPoints);
+    const points = Array.from(new Set(nearby));
+    pieces.forEach(piece => {
+      repaired.push({ ...piece, borderPoints: insertVerticesOnEdges(piece.borderPoints, points, tolerance) });
+    });
+  });
+
+  const borders = findSharedBorders(repaired.map(t => ({ id: t.id, points: t.borderPoints })), tolerance);
+  return repaired.map(t => {
+    const pieceBorders = borders.get(t.id)!;
+    return { ...t, borders: pieceBorders, neighbors: pieceBorders.map(b => b.neighborId) };
+  });
+}
+
+/**
+ * Subdivide every land territory into provinces and counties
+ * @param territories - Top-level territories (with neighbors)
+ * @param config - Provinces per territory and counties per province
+ * @param keep - Earlier subdivisions to reuse: territories that still have provinces
+ *               here keep them, their counties and their own metadata
+ * @returns The territories with metadata recomputed from their provinces, and the hierarchy
+ */
+export function generateSubdivisions(
+  territories: Territory[],
+  config: SubdivisionConfig,
+  width: number,
+  height: number,
+  seed: number,
+  keep?: TerritoryHierarchy
+): { territories: Territory[]; subdivisions: TerritoryHierarchy } {
+  const tolerance = Math.max(width, height) * 1e-6;
+  const names = new Set([
+    ...territories.map(t => t.name),
+    ...(keep ? [...keep.provinces, ...keep.counties].map(t => t.name) : [])
+  ]);
+  let colorIndex = territories.length;
+
+  // A new piece of a parent: its own name and color, the territory's culture and climate
+  const createPiece = (
+    territory: Territory,
+    parentId: string,
+    id: string,
+    site: Point,
+    shape: Point[],
+    nameSeed: number
+  ): Territory => {
+    const { metadata } = territory;
+    const context = { culture: metadata.culture, terrain: metadata.terrain };
+    let name = generateTerritoryName(nameSeed, context);
+    for (let attempts = 1; names.has(name); attempts++) {
+      // Small languages can run out of combinations; number the rare leftovers
+      name = attempts > 200
+        ? `${generateTerritoryName(++nameSeed, context)} ${attempts}`
+        : generateTerritoryName(++nameSeed, context);
+    }
+    names.add(name);
+    return {
+      id,
+      name,
+      color: generateTerrainColor(metadata.terrain, colorIndex++, seed),
+      centerX: site[0],
+      centerY: site[1],
+      borderPoints: shape,
+      area: calculateArea(shape),
+      metadata: { ...metadata, resources: { ...metadata.resources } },
+      parentId
+    };
+  };
+
+  const provinceGroups = new Map<string, Territory[]>();
+  const countyGroups = new Map<string, Territory[]>();
+  const fresh = new Set<string>();
+  const keptProvinces = groupByParent(keep?.provinces ?? []);
+  const keptCounties = groupByParent(keep?.counties ?? []);
+
+  territories.forEach(territory => {
+    if (isWaterTerrain(territory.metadata.terrain)) return;
+
+    const kept = keptProvinces.get(territory.id);
+    if (kept) {
+      provinceGroups.set(territory.id, kept);
+      kept.forEach(p => countyGroups.set(p.id, keptCounties.get(p.id) ?? []));
+      return;
+    }
+
+    fresh.add(territory.id);
+    const base = seed + idSeed(territory.id);
+    const rng = new SeededRandom(base);
+    const center: Point = [territory.centerX, territory.centerY];
+    const cut = cutPolygon(territory.borderPoints, center, config.provinces, rng, tolerance);
+    const provinces = cut.shapes.map((shape, k) =>
+      createPiece(territory, territory.id, `${territory.id}-p${k}`, cut.sites[k], shape, base + k * 101)
+    );
+    provinceGroups.set(territory.id, provinces);
+
+    provinces.forEach((province, k) => {
+      const inner = cutPolygon(province.borderPoints, [province.centerX, province.centerY], config.counties, rng, tolerance);
+      countyGroups.set(province.id, inner.shapes.map((shape, j) =>
+        createPiece(territory, province.id, `${province.id}-c${j}`, inner.sites[j], shape, base + k * 101 + (j + 1) * 7)
+      ));
+    });
+  });
+
+  // Corners and borders, level by level
+  const territoryById = new Map(territories.map(t => [t.id, t]));
+  let provinces = connectPieces(provinceGroups, territories, tolerance);
+  let counties = connectPieces(countyGroups, provinces, tolerance);
+
+  // Share out the metadata of freshly cut territories among their counties
+  let countiesOf = groupByParent(counties);
+  const countyUpdates = new Map<string, Territory>();
+  provinceGroups.forEach((group, territoryId) => {
+    if (!fresh.has(territoryId)) return;
+    const territory = territoryById.get(territoryId)!;
+    const rng = new SeededRandom(seed + idSeed(territoryId) + 1);
+    const vary = () => 1 + VARIATION * (rng.next() * 2 - 1);
+    const clamp = (value: number) => Math.min(100, Math.max(1, Math.round(value)));
+
+    const members = group.flatMap(province => {
+      const provinceFactor = vary();
+      return (countiesOf.get(province.id) ?? []).map(county => ({ county, factor: provinceFactor * vary() }));
+    });
+    const populations = apportion(
+      territory.metadata.population,
+      members.map(({ county, factor }) => (county.area ?? 0) * factor)
+    );
+    members.forEach(({ county, factor }, i) => {
+      const { development, resources } = territory.metadata;
+      countyUpdates.set(county.id, {
+        ...county,
+        metadata: {
+          ...county.metadata,
+          population: populations[i],
+          development: clamp(development * factor),
+          resources: {
+            food: clamp(resources.food * vary()),
+            gold: clamp(resources.gold * vary()),
+            military: clamp(resources.military * vary())
+          }
+        }
+      });
+    });
+  });
+  counties = counties.map(c => countyUpdates.get(c.id) ?? c);
+  countiesOf = groupByParent(counties);
+
+  // Parents add up from their children
+  provinces = provinces.map(p => (fresh.has(p.parentId!) ? aggregate(p, countiesOf.get(p.id)!) : p));
+  const provincesOf = groupByParent(provinces);
+  const result = territories.map(t => (fresh.has(t.id) ? aggregate(t, provincesOf.get(t.id)!) : t));
+
+  return { territories: result, subdivisions: { provinces, counties } };
+}
+
+/**
+ * Bring provinces and counties in line with edited territories
+ * Territories whose population, development or resources no longer match their
+ * provinces have the change spread down to provinces and counties; they are then
+ * recomputed from them (an edit past what the children can take, e.g. development
+ * above 100 in one county, is evened out).
+ * @returns The territories and hierarchy; the same objects when nothing had to change
+ */
+export function reconcileSubdivisions(
+  territories: Territory[],
+  subdivisions: TerritoryHierarchy
+): { territories: Territory[]; subdivisions: TerritoryHierarchy } {
+  const provincesOf = groupByParent(subdivisions.provinces);
+  const countiesOf = groupByParent(subdivisions.counties);
+  const provinceUpdates = new Map<string, Territory>();
+  const countyUpdates = new Map<string, Territory>();
+
+  const result = territories.map(territory => {
+    const provinces = provincesOf.get(territory.id);
+    if (!provinces || sameTotals(territory, aggregate(territory, provinces))) return territory;
+
+    const updated = spread(territory, provinces).map(province => {
+      const counties = countiesOf.get(province.id);
+      if (!counties) return province;
+      const spreadCounties = spread(province, counties);
+      spreadCounties.forEach(county => countyUpdates.set(county.id, county));
+      return aggregate(province, spreadCounties);
+    });
+    updated.forEach(province => provinceUpdates.set(province.id, province));
+    return aggregate(territory, updated);
+  });
+
+  if (provinceUpdates.size === 0) return { territories, subdivisions };
+  return {
+    territories: result,
+    subdivisions: {
+      provinces: subdivisions.provinces.map(p => provinceUpdates.get(p.id) ?? p),
+      counties: subdivisions.counties.map(c => countyUpdates.get(c.id) ?? c)
+    }
+  };
+}
@@ -0,0 +1,229 @@
+import { Territory } from '../types/Territory';
+import { River } from '../types/River';
+import { RoadNetwork } from '../types/Road';
+import { Realm } from '../types/Realm';
+import { ChoroplethLegend, ChoroplethMode, ColorRamp, MapMode } from '../types/MapMode';
+import { isWaterTerrain } from './metadataGenerator';
+import { buildRealmLookup } from './politicalGenerator';
+import { computeChoropleth, getMapMode } from './mapModes';
+
+/**
+ * Headless SVG rendering of a map
+ *
+ * Builds the SVG as a string from territory data alone (no DOM or canvas), so it runs
+ * in the browser, in Node scripts and in batch jobs. Layers are separate groups that
+ * can be restyled or hidden in an editor: background, territories, borders, rivers, roads, labels, legend.
+ */
+
+export interface SvgRenderOptions {
+  // Map size in world units (default: the extent of the territories)
+  width?: number;
+  height?: number;
+  // Output pixels per world unit (default: 1)
+  scale?: number;
+  // Coloring, as in MapCanvas; diplomacy has no hovered realm here and renders as political
+  mapMode?: MapMode | ChoroplethMode;
+  realms?: Realm[];
+  colorRamp?: ColorRamp;
+  rivers?: River[];
+  roads?: RoadNetwork;
+  showLabels?: boolean;
+  showLegend?: boolean;
+  // Fill behind the territories, e.g. the sea around a shaped map (default: none)
+  background?: string | null;
+}
+
+/**
+ * Escape text for use in SVG content and attributes
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function polygonPath(points: [number, number][]): string {
+  return points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${formatNumber(point[0])},${formatNumber(point[1])}`)
+    .join('') + 'Z';
+}
+
+function polylinePath(points: [number, number][]): string {
+  return points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${formatNumber(point[0])},${formatNumber(point[1])}`)
+    .join('');
+}
+
+/**
+ * Legend as an SVG group in the bottom-left corner, matching the on-canvas legend
+ */
+function renderLegend(legend: ChoroplethLegend, height: number): string {
+  const padding = 10;
+  const boxWidth = 180;
+  const rowHeight = 16;
+  const rows = legend.kind === 'numeric' ? 2 : legend.entries.length;
+  const boxHeight = padding * 2 + 18 + rows * rowHeight;
+  const x = padding;
+  const y = height - boxHeight - padding;
+  const top = y + padding + 18;
+
+  const parts = [
+    `<rect x="${x}" y="${y}" width="${boxWidth}" height="${boxHeight}" fill="#fff" fill-opacity="0.92" stroke="#000" stroke-opacity="0.2"/>`,
+    `<text x="${x + padding}" y="${y + padding + 10}" font-weight="bold" font-size="12">${escapeXml(legend.label)}</text>`
+  ];
+
+  if (legend.kind === 'numeric') {
+    const barWidth = boxWidth - padding * 2;
+    const stops = legend.ramp
+      .map((color, i) => `<stop offset="${formatNumber(i / (legend.ramp.length - 1))}" stop-color="${escapeXml(color)}"/>`)
+      .join('');
+    parts.push(
+      `<defs><linearGradient id="legend-ramp">${stops}</linearGradient></defs>`,
+      `<rect x="${x + padding}" y="${top}" width="${barWidth}" height="12" fill="url(#legend-ramp)" stroke="#000" stroke-opacity="0.2"/>`,
+      `<text x="${x + padding}" y="${top + rowHeight + 10}" font-size="11" fill="#444">${escapeXml(legend.min)}</text>`,
+      `<text x="${x + padding + barWidth}" y="${top + rowHeight + 10}" font-size="11" fill="#444" text-anchor="end">${escapeXml(legend.max)}</text>`
+    );
+  } else {
+    legend.entries.forEach((entry, i) => {
+      const rowY = top + i * rowHeight;
+      parts.push(
+        `<rect x="${x + padding}" y="${rowY}" width="12" height="12" fill="${escapeXml(entry.color)}" stroke="#000" stroke-opacity="0.2"/>`,
+        `<text x="${x + padding + 18}" y="${rowY + 10}" font-size="11" fill="#444">${escapeXml(entry.label)}</text>`
+      );
+    });
+  }
+
+  return `<g id="legend" font-family="sans-serif">${parts.join('')}</g>`;
+}
+
+/**
+ * Fill colors and legend for a map mode
+ */
+function resolveColoring(
+  territories: Territory[],
+  options: SvgRenderOptions
+): { fills: Map<string, string>; legend: ChoroplethLegend | null } {
+  const { mapMode = 'terrain', realms = [], colorRamp } = options;
+  const land = territories.filter(t => !isWaterTerrain(t.metadata.terrain));
+  const fills = new Map(territories.map(t => [t.id, t.color]));
+
+  if (mapMode === 'political' || mapMode === 'diplomacy') {
+    const lookup = buildRealmLookup(realms);
+    land.forEach(t => fills.set(t.id, lookup.get(t.id)?.colors.primary ?? t.color));
+    return {
+      fills,
+      legend: realms.length > 0
+        ? { kind: 'categorical', label: 'Realms', entries: realms.map(r => ({ label: r.name, color: r.colors.primary })) }
+        : null
+    };
+  }
+
+  const choroplethMode = typeof mapMode === 'string' ? getMapMode(mapMode) : mapMode;
+  if (choroplethMode) {
+    const choropleth = computeChoropleth(choroplethMode, territories, colorRamp);
+    choropleth.colors.forEach((color, id) => fills.set(id, color));
+    return { fills, legend: choropleth.legend };
+  }
+
+  // Terrain: one swatch per terrain, using the color of its first territory
+  const swatches = new Map<string, string>();
+  territories.forEach(t => {
+    if (!swatches.has(t.metadata.terrain)) swatches.set(t.metadata.terrain, t.color);
+  });
+  return {
+    fills,
+    legend: {
+      kind: 'categorical',
+      label: 'Terrain',
+      entries: Array.from(swatches, ([terrain, color]) => ({ label: terrain, color }))
+    }
+  };
+}
+
+/**
+ * Render a map as a standalone SVG document
+ * @param territories - Territories to draw
+ * @param options - Size, coloring and optional layers
+ * @returns SVG markup
+ */
+export function renderMapSvg(territories: Territory[], options: SvgRenderOptions = {}): string {
+  const { scale = 1, rivers = [], roads, realms = [], showLabels = true, showLegend = true } = options;
+  const allPoints = territories.flatMap(t => t.borderPoints);
+  const width = options.width ?? Math.max(0, ...allPoints.map(p => p[0]));
+  const height = options.height ?? Math.max(0, ...allPoints.map(p => p[1]));
+
+  const { fills, legend } = resolveColoring(territories, options);
+  const water = territories.filter(t => isWaterTerrain(t.metadata.terrain));
+  const land = territories.filter(t => !isWaterTerrain(t.metadata.terrain));
+  const waterIds = new Set(water.map(t => t.id));
+  const showRealms = options.mapMode === 'political' || options.mapMode === 'diplomacy';
+  const realmLookup = buildRealmLookup(realms);
+
+  // Territory polygons; water is stroked in its own color so no seams show between cells
+  const territoryGroup = [...water, ...land].map(t => {
+    const fill = fills.get(t.id) ?? t.color;
+    const stroke = waterIds.has(t.id) ? ` stroke="${escapeXml(fill)}" stroke-width="1"` : '';
+    return `<path id="${escapeXml(t.id)}" d="${polygonPath(t.borderPoints)}" fill="${escapeXml(fill)}"${stroke}>` +
+      `<title>${escapeXml(t.name)}</title></path>`;
+  });
+
+  // Borders: each shared segment once, sorted into territory, realm and coast lines
+  const territoryLines: string[] = [];
+  const realmLines: string[] = [];
+  const coastLines: string[] = [];
+  land.forEach(t => {
+    t.borders?.forEach(border => {
+      const isCoast = waterIds.has(border.neighborId);
+      if (!isCoast && t.id > border.neighborId) return;
+      const realm = realmLookup.get(t.id);
+      const other = realmLookup.get(border.neighborId);
+      const target = isCoast
+        ? coastLines
+        : showRealms && realm && other && realm.id !== other.id ? realmLines : territoryLines;
+      border.segments.forEach(segment => target.push(polylinePath([segment.start, segment.end])));
+    });
+  });
+
+  const borderGroup = [
+    `<path class="territory-borders" d="${territoryLines.join('')}" fill="none" stroke="#333" stroke-opacity="${showRealms ? 0.35 : 1}" stroke-width="${showRealms ? 0.8 : 1.5}"/>`,
+    `<path class="realm-borders" d="${realmLines.join('')}" fill="none" stroke="#111" stroke-width="4" stroke-linecap="round"/>`,
+    `<path class="coastlines" d="${coastLines.join('')}" fill="none" stroke="#1b3a57" stroke-width="2.5" stroke-linecap="round"/>`
+  ];
+
+  const riverGroup = rivers.flatMap(river =>
+    river.points.slice(0, -1).map((point, k) =>
+      `<path d="${polylinePath([point, river.points[k + 1]])}" stroke-width="${formatNumber((river.widths[k] + river.widths[k + 1]) / 2)}"/>`
+    )
+  );
+
+  const roadGroup = (roads?.segments ?? []).map(segment => {
+    const isMajor = segment.quality === 'major';
+    return `<path d="${polylinePath(segment.points)}" stroke="${isMajor ? '#6d4c41' : '#8d6e63'}" ` +
+      `stroke-width="${isMajor ? 2.5 : 1.2}"${isMajor ? '' : ' stroke-dasharray="4 4"'}/>`;
+  });
+
+  const labelGroup = showLabels
+    ? land.map(t =>
+      `<text x="${formatNumber(t.centerX)}" y="${formatNumber(t.centerY)}">${escapeXml(t.name)}</text>`
+    )
+    : [];
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${formatNumber(width * scale)}" height="${formatNumber(height * scale)}" viewBox="0 0 ${formatNumber(width)} ${formatNumber(height)}">`,
+    options.background ? `<rect id="background" width="${formatNumber(width)}" height="${formatNumber(height)}" fill="${escapeXml(options.background)}"/>` : '',
+    `<g id="territories">${territoryGroup.join('')}</g>`,
+    `<g id="borders">${borderGroup.join('')}</g>`,
+    `<g id="rivers" fill="none" stroke="#3b7dc4" stroke-linecap="round">${riverGroup.join('')}</g>`,
+    `<g id="roads" fill="none" stroke-linejoin="round">${roadGroup.join('')}</g>`,
+    `<g id="labels" font-family="sans-serif" font-size="14" font-weight="bold" text-anchor="middle" dominant-baseline="middle" fill="#000" stroke="#fff" stroke-width="3" paint-order="stroke">${labelGroup.join('')}</g>`,
+    showLegend && legend ? renderLegend(legend, height) : '',
+    '</svg>'
+  ].join('\n');
+}
@@ -0,0 +1,144 @@
+import { TerrainType, Territory } from '../types/Territory';
+import { TerritoryChanges } from '../types/Command';
+import { generateTerrainColor } from './colorGenerator';
+import { isWaterTerrain } from './metadataGenerator';
+
+/**
+ * Hand-editing of territory attributes
+ *
+ * The editor form works on a draft of strings, one per field. With several
+ * territories selected, fields whose values differ start empty and are left
+ * alone unless filled in. Drafts are validated against the documented ranges
+ * before being turned into TerritoryChanges for an undoable edit command.
+ */
+
+/**
+ * Editable fields as form text; empty means "leave unchanged"
+ */
+export interface TerritoryDraft {
+  name: string;
+  color: string;
+  terrain: string;
+  culture: string;
+  population: string;
+  development: string;
+  food: string;
+  gold: string;
+  military: string;
+}
+
+export type DraftField = keyof TerritoryDraft;
+
+// Allowed ranges for numeric fields on land territories (see TerritoryMetadata, TerritoryResources)
+export const EDIT_RANGES: Record<'population' | 'development' | 'food' | 'gold' | 'military', [number, number]> = {
+  population: [0, 10_000_000],
+  development: [1, 100],
+  food: [1, 100],
+  gold: [1, 100],
+  military: [1, 100]
+};
+
+// Dotted path of each field in a Territory
+const FIELD_PATHS: Record<DraftField, string> = {
+  name: 'name',
+  color: 'color',
+  terrain: 'metadata.terrain',
+  culture: 'metadata.culture',
+  population: 'metadata.population',
+  development: 'metadata.development',
+  food: 'metadata.resources.food',
+  gold: 'metadata.resources.gold',
+  military: 'metadata.resources.military'
+};
+
+// Terrains a land territory can be given; turning land into water is not supported
+export const LAND_TERRAINS = Object.values(TerrainType).filter(terrain => !isWaterTerrain(terrain));
+
+function fieldValue(territory: Territory, field: DraftField): string {
+  const { metadata } = territory;
+  switch (field) {
+    case 'name': return territory.name;
+    case 'color': return territory.color;
+    case 'terrain': return metadata.terrain;
+    case 'culture': return metadata.culture;
+    case 'population': return String(metadata.population);
+    case 'development': return String(metadata.development);
+    default: return String(metadata.resources[field]);
+  }
+}
+
+/**
+ * Draft for the selected territories; fields that differ between them are empty
+ */
+export function createDraft(territories: Territory[]): TerritoryDraft {
+  const draft = {} as TerritoryDraft;
+  (Object.keys(FIELD_PATHS) as DraftField[]).forEach(field => {
+    const values = new Set(territories.map(t => fieldValue(t, field)));
+    draft[field] = values.size === 1 ? [...values][0] : '';
+  });
+  return draft;
+}
+
+/**
+ * Check a draft against the allowed values
+ * @param required - Fields that may not be left empty (all of them when editing a single territory)
+ * @returns Error message per invalid field; empty when the draft is valid
+ */
+export function validateDraft(draft: TerritoryDraft, required: boolean): Partial<Record<DraftField, string>> {
+  const errors: Partial<Record<DraftField, string>> = {};
+
+  (Object.keys(FIELD_PATHS) as DraftField[]).forEach(field => {
+    const value = draft[field].trim();
+    if (value === '') {
+      if (required) errors[field] = 'Required';
+      return;
+    }
+
+    if (field === 'color' && !/^#[0-9a-f]{6}$/i.test(value)) {
+      errors[field] = 'Use a hex color such as #7a9a3c';
+    } else if (field === 'terrain' && !LAND_TERRAINS.includes(value as TerrainType)) {
+      errors[field] = 'Unknown land terrain';
+    } else if (field in EDIT_RANGES) {
+      const [min, max] = EDIT_RANGES[field as keyof typeof EDIT_RANGES];
+      const number = Number(value);
+      if (!Number.isInteger(number)) {
+        errors[field] = 'Must be a whole number';
+      } else if (number < min || number > max) {
+        errors[field] = `Must be between ${min.toLocaleString()} and ${max.toLocaleString()}`;
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Changes a valid draft makes to one territory
+ * @param rederiveColor - Recolor with generateTerrainColor when the terrain changes
+ *   (unless the color was edited too)
+ * @param seed - Map seed, so re-derived colors match generated ones
+ * @returns Only the values that differ from the territory
+ */
+export function draftChanges(
+  territory: Territory,
+  draft: TerritoryDraft,
+  rederiveColor: boolean,
+  seed: number
+): TerritoryChanges {
+  const changes: TerritoryChanges = {};
+
+  (Object.keys(FIELD_PATHS) as DraftField[]).forEach(field => {
+    const value = draft[field].trim();
+    if (value === '' || value === fieldValue(territory, field)) return;
+    changes[FIELD_PATHS[field]] = field in EDIT_RANGES ? Number(value) : value;
+  });
+
+  const newTerrain = changes[FIELD_PATHS.terrain] as TerrainType | undefined;
+  if (rederiveColor && newTerrain && changes[FIELD_PATHS.color] === undefined) {
+    // Generated territories use their index from the id ("territory-12")
+    const index = Number(/^territory-(\d+)$/.exec(territory.id)?.[1] ?? 0);
+    changes[FIELD_PATHS.color] = generateTerrainColor(newTerrain, index, seed);
+  }
+
+  return changes;
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { Territory, TerrainType } from '../types/Territory';
+import { compileQuery, evaluateQuery, filterTerritories, parseQuery, QuerySyntaxError } from './territoryQuery';
+
+function territory(
+  id: string,
+  name: string,
+  metadata: Partial<Territory['metadata']> = {},
+  area?: number
+): Territory {
+  return {
+    id,
+    name,
+    color: '#888888',
+    centerX: 0,
+    centerY: 0,
+    borderPoints: [[0, 0], [10, 0], [10, 10]],
+    area,
+    metadata: {
+      terrain: TerrainType.PLAINS,
+      population: 1000,
+      culture: 'norse',
+      development: 50,
+      resources: { food: 50, gold: 50, military: 50 },
+      elevation: 0.5,
+      moisture: 0.5,
+      temperature: 0.5,
+      ...metadata
+    }
+  };
+}
+
+const territories = [
+  territory('territory-0', 'Ashford', { terrain: TerrainType.MOUNTAINS, resources: { food: 20, gold: 80, military: 60 } }, 100),
+  territory('territory-1', 'Stoke upon Trent', { culture: 'saxon', population: 5000, riverine: true }, 50),
+  territory('territory-2', 'Ravenholm', { terrain: TerrainType.FOREST, development: 80 }),
+  territory('territory-3', 'Ashby', { culture: 'saxon', minorityCulture: 'norse', development: 10 })
+];
+
+const names = (source: string) => filterTerritories(territories, source).map(t => t.name);
+
+/**
+ * Error thrown by a query, so tests can check its message and position
+ */
+function syntaxError(source: string): QuerySyntaxError {
+  try {
+    parseQuery(source);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`'${source}' parsed without an error`);
+}
+
+describe('parseQuery', () => {
+  it('matches everything when the query is empty', () => {
+    expect(parseQuery('   ')).toEqual({ type: 'all' });
+    expect(names('')).toHaveLength(territories.length);
+  });
+
+  it('binds AND tighter than OR', () => {
+    expect(parseQuery('gold = 1 OR gold = 2 AND gold = 3')).toEqual({
+      type: 'or',
+      left: { type: 'compare', field: 'gold', operator: '=', value: '1' },
+      right: {
+        type: 'and',
+        left: { type: 'compare', field: 'gold', operator: '=', value: '2' },
+        right: { type: 'compare', field: 'gold', operator: '=', value: '3' }
+      }
+    });
+  });
+
+  it('groups with parentheses and negates with NOT', () => {
+    expect(names('(culture = norse OR culture = saxon) AND NOT riverine = true'))
+      .toEqual(['Ashford', 'Ravenholm', 'Ashby']);
+    expect(names('!(terrain = plains) && gold > 70 || development >= 80')).toEqual(['Ashford', 'Ravenholm']);
+  });
+
+  it('reads keywords in any case', () => {
+    expect(names('culture = saxon and not name ~ stoke')).toEqual(['Ashby']);
+  });
+
+  it('searches names with lone words and quoted strings', () => {
+    expect(parseQuery('ash')).toEqual({ type: 'search', text: 'ash' });
+    expect(names('ash')).toEqual(['Ashford', 'Ashby']);
+    expect(names('"upon trent"')).toEqual(['Stoke upon Trent']);
+    expect(names("name ~ 'UPON'")).toEqual(['Stoke upon Trent']);
+  });
+});
+
+describe('evaluateQuery', () => {
+  it('compares numbers', () => {
+    expect(names('population > 1000')).toEqual(['Stoke upon Trent']);
+    expect(names('population >= 1000')).toHaveLength(4);
+    expect(names('development < 50')).toEqual(['Ashby']);
+    expect(names('development <= 50')).toEqual(['Ashford', 'Stoke upon Trent', 'Ashby']);
+    expect(names('gold != 50')).toEqual(['Ashford']);
+    expect(names('density = 100')).toEqual(['Stoke upon Trent']);
+  });
+
+  it('compares text without regard to case', () => {
+    expect(names('terrain = MOUNTAINS')).toEqual(['Ashford']);
+    expect(names('culture != norse')).toEqual(['Stoke upon Trent', 'Ashby']);
+    expect(names('minority = norse')).toEqual(['Ashby']);
+    expect(names('id ~ -2')).toEqual(['Ravenholm']);
+  });
+
+  it('compares booleans', () => {
+    expect(names('riverine = true')).toEqual(['Stoke upon Trent']);
+    expect(names('riverine != true')).toHaveLength(3);
+  });
+
+  it('works as a predicate', () => {
+    const isRich = compileQuery('gold > 70');
+    expect(territories.filter(isRich).map(t => t.id)).toEqual(['territory-0']);
+  });
+});
+
+describe('syntax errors', () => {
+  it('reports where the problem is', () => {
+    expect(syntaxError('gold > 70 AND')).toMatchObject({ message: 'Query ends too early', position: 13 });
+    expect(syntaxError('name = "ash')).toMatchObject({ message: 'Unclosed quote', position: 7 });
+    expect(syntaxError('(gold > 70')).toMatchObject({ message: "Missing ')'", position: 10 });
+    expect(syntaxError('gold > 70 )')).toMatchObject({ message: 'Unexpected text after the query', position: 10 });
+    expect(syntaxError('gold # 70')).toMatchObject({ message: "Unexpected character '#'", position: 5 });
+    expect(syntaxError('gold >')).toMatchObject({ message: "Expected a value after '>'", position: 6 });
+  });
+
+  it('rejects unknown fields and values', () => {
+    expect(syntaxError('wealth > 3')).toMatchObject({ message: "Unknown field 'wealth'", position: 0 });
+    expect(syntaxError('terrain = lava').position).toBe(10);
+    expect(syntaxError('terrain = lava').message).toMatch(/^Unknown terrain 'lava'/);
+  });
+
+  it('rejects comparisons that do not fit the field', () => {
+    expect(syntaxError('gold > lots').message).toBe("'gold' needs a number, not 'lots'");
+    expect(syntaxError('gold > ""').message).toBe("'gold' needs a number, not ''");
+    expect(syntaxError("gold = '  '").message).toBe("'gold' needs a number, not '  '");
+    expect(syntaxError('gold ~ 5').message).toBe("'~' needs a text field, not 'gold'");
+    expect(syntaxError('name > 5').message).toBe("'>' needs a number field, not 'name'");
+    expect(syntaxError('riverine > 1').message).toBe("'riverine' can only be compared with = or !=");
+    expect(syntaxError('riverine = yes').message).toBe("'riverine' needs true or false, not 'yes'");
+  });
+
+  it('treats Object members as unknown fields', () => {
+    ['constructor', '__proto__', 'toString', 'hasOwnProperty'].forEach(field => {
+      expect(syntaxError(`${field} = x`)).toMatchObject({ message: `Unknown field '${field}'`, position: 0 });
+    });
+  });
+
+  it('rejects unknown fields in hand-built trees', () => {
+    const node = { type: 'compare', field: 'constructor', operator: '=', value: 'x' } as const;
+    expect(() => evaluateQuery(node, territories[0])).toThrow(QuerySyntaxError);
+  });
+});
@@ -0,0 +1,310 @@
+import { Territory, TerrainType } from '../types/Territory';
+
+/**
+ * Query language for filtering territories
+ *
+ *   terrain = mountains AND gold > 70
+ *   (culture = norse OR culture = saxon) AND NOT riverine = true
+ *   ash                      → name contains "ash"
+ *   name ~ "upon"            → name contains "upon"
+ *
+ * - Comparisons: field op value, with =, !=, >, >=, <, <= and ~ (contains)
+ * - Combine with AND, OR, NOT (or &&, ||, !) and parentheses; AND binds tighter than OR
+ * - A word or quoted string on its own searches names
+ * - Text comparisons ignore case; an empty query matches everything
+ *
+ * The engine only reads Territory fields, so scripts can use it outside the UI.
+ */
+
+export type QueryOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~';
+
+/**
+ * Parsed query
+ */
+export type QueryNode =
+  | { type: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'compare'; field: string; operator: QueryOperator; value: string }
+  | { type: 'search'; text: string }
+  | { type: 'all' };
+
+/**
+ * Query that cannot be parsed or refers to unknown fields or values
+ */
+export class QuerySyntaxError extends Error {
+  // Character offset of the problem in the query
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+type FieldKind = 'text' | 'number' | 'boolean';
+
+interface QueryField {
+  kind: FieldKind;
+  read: (territory: Territory) => string | number | boolean;
+  // Accepted values for text fields that hold a fixed set
+  values?: string[];
+}
+
+/**
+ * Fields a query can compare, by name
+ */
+export const QUERY_FIELDS: Record<string, QueryField> = {
+  name: { kind: 'text', read: t => t.name },
+  id: { kind: 'text', read: t => t.id },
+  terrain: { kind: 'text', read: t => t.metadata.terrain, values: Object.values(TerrainType) },
+  culture: { kind: 'text', read: t => t.metadata.culture },
+  minority: { kind: 'text', read: t => t.metadata.minorityCulture ?? '' },
+  population: { kind: 'number', read: t => t.metadata.population },
+  density: { kind: 'number', read: t => (t.area ? t.metadata.population / t.area : 0) },
+  development: { kind: 'number', read: t => t.metadata.development },
+  food: { kind: 'number', read: t => t.metadata.resources.food },
+  gold: { kind: 'number', read: t => t.metadata.resources.gold },
+  military: { kind: 'number', read: t => t.metadata.resources.military },
+  area: { kind: 'number', read: t => t.area ?? 0 },
+  elevation: { kind: 'number', read: t => t.metadata.elevation },
+  moisture: { kind: 'number', read: t => t.metadata.moisture },
+  temperature: { kind: 'number', read: t => t.metadata.temperature },
+  riverine: { kind: 'boolean', read: t => !!t.metadata.riverine }
+};
+
+// Fields looked up by name from user input; a Map, so names such as
+// "constructor" or "__proto__" are unknown fields rather than Object members
+const FIELDS_BY_NAME = new Map(Object.entries(QUERY_FIELDS));
+
+type Token =
+  | { kind: 'word' | 'string'; text: string; position: number }
+  | { kind: 'operator'; text: QueryOperator; position: number }
+  | { kind: 'and' | 'or' | 'not' | '(' | ')'; position: number };
+
+const OPERATORS: QueryOperator[] = ['!=', '>=', '<=', '=', '>', '<', '~'];
+
+/**
+ * Split a query into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char, position: i });
+      i++;
+    } else if (source.startsWith('&&', i) || source.startsWith('||', i)) {
+      tokens.push({ kind: char === '&' ? 'and' : 'or', position: i });
+      i += 2;
+    } else if (char === '!' && source[i + 1] !== '=') {
+      tokens.push({ kind: 'not', position: i });
+      i++;
+    } else if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) throw new QuerySyntaxError('Unclosed quote', i);
+      tokens.push({ kind: 'string', text: source.slice(i + 1, end), position: i });
+      i = end + 1;
+    } else {
+      const operator = OPERATORS.find(op => source.startsWith(op, i));
+      if (operator) {
+        tokens.push({ kind: 'operator', text: operator, position: i });
+        i += operator.length;
+        continue;
+      }
+
+      const match = /^[\p{L}\p{N}_.\-']+/u.exec(source.slice(i));
+      if (!match) throw new QuerySyntaxError(`Unexpected character '${char}'`, i);
+      const keyword = match[0].toLowerCase();
+      if (keyword === 'and' || keyword === 'or' || keyword === 'not') {
+        tokens.push({ kind: keyword, position: i });
+      } else {
+        tokens.push({ kind: 'word', text: match[0], position: i });
+      }
+      i += match[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a query into a tree
+ * @throws QuerySyntaxError if the query is malformed or uses an unknown field or value
+ */
+export function parseQuery(source: string): QueryNode {
+  const tokens = tokenize(source);
+  if (tokens.length === 0) return { type: 'all' };
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const positionOf = (token?: Token) => token?.position ?? source.length;
+
+  const parseOr = (): QueryNode => {
+    let node = parseAnd();
+    while (peek()?.kind === 'or') {
+      index++;
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): QueryNode => {
+    let node = parseNot();
+    while (peek()?.kind === 'and') {
+      index++;
+      node = { type: 'and', left: node, right: parseNot() };
+    }
+    return node;
+  };
+
+  const parseNot = (): QueryNode => {
+    if (peek()?.kind === 'not') {
+      index++;
+      return { type: 'not', operand: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = peek();
+    if (!token) throw new QuerySyntaxError('Query ends too early', source.length);
+
+    if (token.kind === '(') {
+      index++;
+      const node = parseOr();
+      if (peek()?.kind !== ')') throw new QuerySyntaxError("Missing ')'", positionOf(peek()));
+      index++;
+      return node;
+    }
+
+    if (token.kind !== 'word' && token.kind !== 'string') {
+      throw new QuerySyntaxError('Expected a field or search text', token.position);
+    }
+    index++;
+
+    // A lone word or quoted string searches names
+    const operatorToken = peek();
+    if (operatorToken?.kind !== 'operator') {
+      return { type: 'search', text: token.text };
+    }
+    index++;
+
+    const field = token.text.toLowerCase();
+    const definition = FIELDS_BY_NAME.get(field);
+    if (!definition) throw new QuerySyntaxError(`Unknown field '${token.text}'`, token.position);
+
+    const valueToken = peek();
+    if (valueToken?.kind !== 'word' && valueToken?.kind !== 'string') {
+      throw new QuerySyntaxError(`Expected a value after '${operatorToken.text}'`, positionOf(valueToken));
+    }
+    index++;
+
+    const operator = operatorToken.text;
+    const value = valueToken.text;
+    validateComparison(field, definition, operator, value, valueToken.position);
+    return { type: 'compare', field, operator, value };
+  };
+
+  const node = parseOr();
+  if (index < tokens.length) {
+    throw new QuerySyntaxError('Unexpected text after the query', tokens[index].position);
+  }
+  return node;
+}
+
+/**
+ * Reject comparisons that could never be evaluated
+ */
+function validateComparison(
+  field: string,
+  definition: QueryField,
+  operator: QueryOperator,
+  value: string,
+  position: number
+) {
+  const ordering = operator !== '=' && operator !== '!=' && operator !== '~';
+
+  if (definition.kind === 'number') {
+    if (operator === '~') throw new QuerySyntaxError(`'~' needs a text field, not '${field}'`, position);
+    if (value.trim() === '' || isNaN(Number(value))) throw new QuerySyntaxError(`'${field}' needs a number, not '${value}'`, position);
+  } else if (definition.kind === 'boolean') {
+    if (ordering || operator === '~') throw new QuerySyntaxError(`'${field}' can only be compared with = or !=`, position);
+    if (!['true', 'false'].includes(value.toLowerCase())) {
+      throw new QuerySyntaxError(`'${field}' needs true or false, not '${value}'`, position);
+    }
+  } else {
+    if (ordering) throw new QuerySyntaxError(`'${operator}' needs a number field, not '${field}'`, position);
+    if (definition.values && operator !== '~' && !definition.values.includes(value.toLowerCase())) {
+      throw new QuerySyntaxError(`Unknown ${field} '${value}' (expected ${definition.values.join(', ')})`, position);
+    }
+  }
+}
+
+/**
+ * Evaluate a parsed query against one territory
+ * @throws QuerySyntaxError if a hand-built tree compares an unknown field
+ */
+export function evaluateQuery(node: QueryNode, territory: Territory): boolean {
+  switch (node.type) {
+    case 'all':
+      return true;
+    case 'and':
+      return evaluateQuery(node.left, territory) && evaluateQuery(node.right, territory);
+    case 'or':
+      return evaluateQuery(node.left, territory) || evaluateQuery(node.right, territory);
+    case 'not':
+      return !evaluateQuery(node.operand, territory);
+    case 'search':
+      return territory.name.toLowerCase().includes(node.text.toLowerCase());
+    case 'compare': {
+      const definition = FIELDS_BY_NAME.get(node.field);
+      if (!definition) throw new QuerySyntaxError(`Unknown field '${node.field}'`, 0);
+      const actual = definition.read(territory);
+
+      if (typeof actual === 'number') {
+        const expected = Number(node.value);
+        switch (node.operator) {
+          case '=': return actual === expected;
+          case '!=': return actual !== expected;
+          case '>': return actual > expected;
+          case '>=': return actual >= expected;
+          case '<': return actual < expected;
+          case '<=': return actual <= expected;
+          default: return false;
+        }
+      }
+
+      const text = String(actual).toLowerCase();
+      const expected = node.value.toLowerCase();
+      switch (node.operator) {
+        case '=': return text === expected;
+        case '!=': return text !== expected;
+        case '~': return text.includes(expected);
+        default: return false;
+      }
+    }
+  }
+}
+
+/**
+ * Compile a query into a predicate
+ * @throws QuerySyntaxError if the query is invalid
+ */
+export function compileQuery(source: string): (territory: Territory) => boolean {
+  const node = parseQuery(source);
+  return territory => evaluateQuery(node, territory);
+}
+
+/**
+ * Territories matching a query
+ * @throws QuerySyntaxError if the query is invalid
+ */
+export function filterTerritories(territories: Territory[], source: string): Territory[] {
+  return territories.filter(compileQuery(source));
+}
@@ -0,0 +1,141 @@
+import { Territory } from '../types/Territory';
+import { TradeFlow, TradeGood, TradeNetwork, TradeRoute } from '../types/Trade';
+import { isWaterTerrain } from './metadataGenerator';
+import { buildTerrainGraph, findShortestPaths, reconstructPath } from './pathfinding';
+import { findBorderCrossing } from './roadGenerator';
+
+/**
+ * Trade route computation over the adjacency graph
+ *
+ * 1. For each good, territories above the land average have a surplus, those below a deficit
+ * 2. Surpluses ship along the cheapest overland paths (distance × terrain cost),
+ *    closest pairs first, until supply or demand runs out or the trip costs too much
+ * 3. Routes crossing the same border merge into flows; territories earn from their
+ *    exports, their imports and the routes passing through them
+ */
+
+const TRADE_GOODS: TradeGood[] = ['food', 'gold', 'military'];
+// Value of one unit of each good
+const GOOD_VALUES: Record<TradeGood, number> = { food: 1, gold: 2, military: 1.5 };
+// Trips costing more than this many average border crossings are not worth making
+const MAX_ROUTE_CROSSINGS = 6;
+// Shipments smaller than this are not worth a caravan
+const MIN_VOLUME = 2;
+// Share of a shipment's value earned by the exporter, the importer and each territory in between
+const EXPORT_SHARE = 0.5;
+const IMPORT_SHARE = 0.25;
+const TRANSIT_TOLL = 0.1;
+
+function edgeKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Polyline along a path: each center, then the crossing into the next territory
+ */
+function tracePath(path: string[], byId: Map<string, Territory>): [number, number][] {
+  const points: [number, number][] = [];
+  path.forEach((id, k) => {
+    const territory = byId.get(id)!;
+    points.push([territory.centerX, territory.centerY]);
+    const crossing = k < path.length - 1 ? findBorderCrossing(territory, path[k + 1]) : null;
+    if (crossing) points.push(crossing);
+  });
+  return points;
+}
+
+/**
+ * Compute trade routes between surplus and deficit territories
+ * @param territories - Territories with neighbors and borders (water is skipped)
+ * @returns Routes per good, merged flows per border, and income and throughput per territory
+ */
+export function generateTradeRoutes(territories: Territory[]): TradeNetwork {
+  const land = territories.filter(t => !isWaterTerrain(t.metadata.terrain));
+  const byId = new Map(land.map(t => [t.id, t]));
+  const graph = buildTerrainGraph(land);
+
+  const edgeCosts = Array.from(graph.values()).flat().map(e => e.cost);
+  const averageCrossing = edgeCosts.length > 0 ? edgeCosts.reduce((a, b) => a + b, 0) / edgeCosts.length : 0;
+  const maxCost = averageCrossing * MAX_ROUTE_CROSSINGS;
+
+  // Shortest paths are shared by every good an exporter ships
+  const pathCache = new Map<string, ReturnType<typeof findShortestPaths>>();
+  const pathsFrom = (id: string) => {
+    if (!pathCache.has(id)) pathCache.set(id, findShortestPaths(graph, id));
+    return pathCache.get(id)!;
+  };
+
+  const routes: TradeRoute[] = [];
+  const income = new Map(land.map(t => [t.id, 0]));
+  const throughput = new Map(land.map(t => [t.id, 0]));
+
+  TRADE_GOODS.forEach(good => {
+    if (land.length === 0) return;
+    const average = land.reduce((sum, t) => sum + t.metadata.resources[good], 0) / land.length;
+    const supply = new Map<string, number>();
+    const demand = new Map<string, number>();
+    land.forEach(t => {
+      const balance = t.metadata.resources[good] - average;
+      if (balance > 0) supply.set(t.id, balance);
+      if (balance < 0) demand.set(t.id, -balance);
+    });
+
+    const pairs: { from: string; to: string; cost: number }[] = [];
+    supply.forEach((_, from) => {
+      const { costs } = pathsFrom(from);
+      demand.forEach((_, to) => {
+        const cost = costs.get(to);
+        if (cost !== undefined && cost <= maxCost) pairs.push({ from, to, cost });
+      });
+    });
+    pairs.sort((a, b) => a.cost - b.cost || a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+    pairs.forEach(({ from, to, cost }) => {
+      // Rounded down, so a route never ships more than is left
+      const volume = Math.floor(Math.min(supply.get(from)!, demand.get(to)!));
+      if (volume < MIN_VOLUME) return;
+      supply.set(from, supply.get(from)! - volume);
+      demand.set(to, demand.get(to)! - volume);
+
+      const path = reconstructPath(pathsFrom(from).previous, from, to);
+      routes.push({
+        id: `trade-${routes.length}`,
+        good,
+        from,
+        to,
+        path,
+        points: tracePath(path, byId),
+        volume,
+        cost
+      });
+
+      const value = volume * GOOD_VALUES[good];
+      income.set(from, income.get(from)! + value * EXPORT_SHARE);
+      income.set(to, income.get(to)! + value * IMPORT_SHARE);
+      path.slice(1, -1).forEach(id => income.set(id, income.get(id)! + value * TRANSIT_TOLL));
+      path.forEach(id => throughput.set(id, throughput.get(id)! + volume));
+    });
+  });
+
+  // Merge routes that cross the same border
+  const flowByKey = new Map<string, TradeFlow>();
+  routes.forEach(route => {
+    for (let k = 0; k < route.path.length - 1; k++) {
+      const key = edgeKey(route.path[k], route.path[k + 1]);
+      let flow = flowByKey.get(key);
+      if (!flow) {
+        const [a, b] = key.split('|');
+        flow = { from: a, to: b, volume: 0, points: tracePath([a, b], byId) };
+        flowByKey.set(key, flow);
+      }
+      flow.volume += route.volume;
+    }
+  });
+
+  return {
+    routes,
+    flows: Array.from(flowByKey.values()),
+    income: Object.fromEntries(Array.from(income, ([id, value]) => [id, Math.round(value * 10) / 10])),
+    throughput: Object.fromEntries(throughput)
+  };
+}